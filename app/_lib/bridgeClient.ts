@@ -0,0 +1,151 @@
+// Browser-side Trash Bridge helpers. Locking: /api/bridge/escrow builds the Solana
+// transaction moving the NFT into escrow, the owner signs and sends it on Solana, the
+// confirmed lock is recorded so it can be reclaimed if the remix is never paid for, and the
+// signature goes to /api/verify with the remix payment (see ../api/_lib/bridgeEscrow).
+// Unlocking: /api/bridge/unlock builds the Gorbagana burn of the remix, and once it lands
+// releases the original (see ../api/_lib/bridgeUnlock). Each run is followed as a bridge
+// operation streamed from /api/bridge/ops/:id (see ../api/_lib/bridgeOps).
+
+import type { Connection } from '@solana/web3.js';
+import { decodeTransaction, signAndSend, type WalletProvider } from './paymentClient';
+
+export type EscrowLock = { sourceMint: string; escrowSignature: string; opId: string };
+
+export type BridgeOpStage = 'locking' | 'verifying' | 'minting' | 'complete';
+
+export type BridgeOpView = {
+  id: string;
+  stage: BridgeOpStage;
+  status: 'active' | 'retrying' | 'failed' | 'complete';
+  escrowSignature: string | null;
+  jobId: string | null;
+  destMint: string | null;
+  error: string | null;
+  retry: { attempt: number; nextAttemptAt: string | null; detail?: string } | null;
+  paymentOwed: boolean;
+};
+
+export type BridgeStatus = 'locked-unminted' | 'locked' | 'unlocking' | 'unlocked';
+
+export type BridgedItem = {
+  sourceChain: 'solana';
+  sourceMint: string;
+  escrowSignature: string;
+  /** Null while the remix is not minted; a failed bridge mint never gets one. */
+  destMint: string | null;
+  status: BridgeStatus;
+  burnSignature: string | null;
+  releaseSignature: string | null;
+  unlockedAt: string | null;
+  createdAt: string;
+};
+
+export async function lockInEscrow(params: {
+  /** A Solana connection: the lock is sent and confirmed on the source chain. */
+  connection: Connection;
+  provider: WalletProvider;
+  owner: string;
+  sourceMint: string;
+}): Promise<EscrowLock> {
+  const res = await fetch('/api/bridge/escrow', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner: params.owner, sourceMint: params.sourceMint }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data?.ok || !data.transaction) throw new Error(data?.error || 'Failed to prepare escrow lock.');
+
+  const tx = decodeTransaction(data.transaction);
+  const escrowSignature = await signAndSend(params.provider, params.connection, tx, { viaConnection: true });
+  const confirmed = await params.connection.confirmTransaction(
+    { signature: escrowSignature, blockhash: tx.recentBlockhash!, lastValidBlockHeight: data.lastValidBlockHeight },
+    'confirmed'
+  );
+  if (confirmed.value.err) throw new Error('Escrow lock failed on Solana.');
+  await recordEscrowLock({ owner: params.owner, sourceMint: params.sourceMint, escrowSignature });
+  return { sourceMint: params.sourceMint, escrowSignature, opId: data.opId };
+}
+
+/**
+ * Records a confirmed lock so it shows up in the bridged items, and can be reclaimed,
+ * before the remix is paid for. Retries while the server's RPC catches up; /api/verify
+ * records the lock anyway, so a lock that still cannot be recorded does not stop the bridge.
+ */
+async function recordEscrowLock(body: { owner: string; sourceMint: string; escrowSignature: string }) {
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    const res = await fetch('/api/bridge/escrow', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (res?.ok) return;
+    if (res && res.status !== 409 && res.status < 500) break;
+    await new Promise((resolve) => setTimeout(resolve, 2_000));
+  }
+  console.warn('[bridge] could not record escrow lock', body.escrowSignature);
+}
+
+/** Follows a bridge operation over SSE until it completes or fails. Returns a stop function. */
+export function watchBridgeOp(opId: string, onUpdate: (op: BridgeOpView) => void) {
+  const source = new EventSource(`/api/bridge/ops/${opId}`);
+  source.addEventListener('op', (event) => {
+    let op: BridgeOpView;
+    try {
+      op = JSON.parse((event as MessageEvent).data);
+    } catch {
+      return;
+    }
+    onUpdate(op);
+    if (op.status === 'complete' || op.status === 'failed') source.close();
+  });
+  return () => source.close();
+}
+
+export async function fetchBridgedItems(owner: string): Promise<BridgedItem[]> {
+  const res = await fetch(`/api/bridge/items?owner=${owner}`, { cache: 'no-store' });
+  const data = await res.json();
+  if (!res.ok || !data?.ok) throw new Error(data?.error || 'Failed to load bridged items.');
+  return data.items as BridgedItem[];
+}
+
+async function postUnlock(body: { owner: string; escrowSignature: string; burnSignature?: string }) {
+  const res = await fetch('/api/bridge/unlock', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json();
+  if (!res.ok || !data?.ok) throw new Error(data?.error || 'Unlock failed.');
+  return data;
+}
+
+/**
+ * Burns the bridged remix on Gorbagana (skipped when the unlock is already under way, or
+ * when the bridge mint failed and there is no remix) and has the server release the
+ * original back to `owner` on Solana.
+ */
+export async function unlockBridgedItem(params: {
+  /** A Gorbagana connection: the burn is sent and confirmed where the remix lives. */
+  connection: Connection;
+  provider: WalletProvider;
+  owner: string;
+  escrowSignature: string;
+  onStage?: (stage: 'burning' | 'releasing') => void;
+}): Promise<BridgedItem> {
+  const { owner, escrowSignature } = params;
+  const first = await postUnlock({ owner, escrowSignature });
+  if (first.bridge) return first.bridge as BridgedItem;
+
+  params.onStage?.('burning');
+  const tx = decodeTransaction(first.transaction);
+  const burnSignature = await signAndSend(params.provider, params.connection, tx);
+  const confirmed = await params.connection.confirmTransaction(
+    { signature: burnSignature, blockhash: tx.recentBlockhash!, lastValidBlockHeight: first.lastValidBlockHeight },
+    'confirmed'
+  );
+  if (confirmed.value.err) throw new Error('Burn failed on Gorbagana.');
+
+  params.onStage?.('releasing');
+  const released = await postUnlock({ owner, escrowSignature, burnSignature });
+  return released.bridge as BridgedItem;
+}
@@ -0,0 +1,47 @@
+// Browser-side half of the "verify my roll" panel: fetches /api/fairness/verify and
+// re-derives the commitment and roll locally, so the check does not rely on the server.
+
+export type FairnessEpoch = {
+  epoch: number;
+  startsAt: number;
+  endsAt: number;
+  commitment: string;
+  secret: string | null;
+};
+
+export type RollVerification = {
+  signature: string;
+  revealed: boolean;
+  epoch: FairnessEpoch;
+  recorded: { machine: string; tier: string; mintedMint: string; soldOutTiers: string[]; tierScheme: number };
+  odds?: Record<string, number>;
+  roll?: number;
+  tier?: string;
+  effect?: { primary: string; texture: string; glow: string; edge: string };
+  matches?: boolean;
+  /** Filled in locally once the epoch secret is public. */
+  local?: { commitmentOk: boolean; rollOk: boolean };
+};
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text) as BufferSource);
+  return new Uint8Array(digest);
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function verifyRoll(signature: string): Promise<RollVerification> {
+  const res = await fetch(`/api/fairness/verify?signature=${encodeURIComponent(signature)}`, { cache: 'no-store' });
+  const data = await res.json();
+  if (!res.ok || !data?.ok) throw new Error(data?.error || 'Could not verify this roll.');
+  const result = data as RollVerification;
+  const secret = result.epoch.secret;
+  if (!secret) return result;
+
+  const commitmentOk = toHex(await sha256(secret)) === result.epoch.commitment;
+  const h = await sha256(`${signature}|${result.recorded.machine}|${secret}`);
+  const localRoll = new DataView(h.buffer).getUint32(0) / 0xffffffff;
+  return { ...result, local: { commitmentOk, rollOk: Math.abs(localRoll - (result.roll ?? -1)) < 1e-12 } };
+}
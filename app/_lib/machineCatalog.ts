@@ -0,0 +1,178 @@
+// The remix machines. Everything that differs between machines — name, default
+// price, odds, intensity and the effect pools the rolls draw from — lives here, and
+// the server (quotes, rolls, /api/machines) and both pages read it from this file.
+// Adding a machine is an entry in MACHINES; `theme` picks one of the existing looks.
+
+import { LEGACY_TIER_SCHEME, TIER_IDS, tierIdsForScheme, type TierId } from './tiers';
+
+export type MachineId = string;
+
+export type MachineTheme = 'conveyor' | 'compactor' | 'hazmat';
+
+export type MachineDef = {
+  id: MachineId;
+  name: string;
+  pull: string;
+  description: string;
+  previewTag: string;
+  /** Default price in $GOR; the server may override it with PRICE_<ID>_GOR. */
+  priceGor: number;
+  /** Base odds per tier, summing to 1. */
+  odds: Record<TierId, number>;
+  /** Three-tier odds (tier1–3) that scheme-1 mints were rolled with; see ./tiers. */
+  legacyOdds?: Partial<Record<TierId, number>>;
+  /** 0..1, drives the intensity meter. */
+  intensity: number;
+  /** Tier whose effects the machine card previews. */
+  previewTier: TierId;
+  /** A few primary effects to advertise on the card. */
+  highlights: string[];
+  theme: MachineTheme;
+};
+
+export const MACHINES: MachineDef[] = [
+  {
+    id: 'CONVEYOR',
+    name: 'Conveyor Bin',
+    pull: 'Common Pull',
+    description: 'Everyday scrap with punchy color shifts and grime gloss.',
+    previewTag: 'Rustwave',
+    priceGor: 3000,
+    odds: { tier1: 0.78, tier2: 0.17, tier3: 0.04, tier4: 0.009, tier5: 0.001 },
+    legacyOdds: { tier1: 0.8, tier2: 0.18, tier3: 0.02 },
+    intensity: 0.38,
+    previewTier: 'tier1',
+    highlights: ['Rust Chrome', 'Oil Slick', 'Grime Wash', 'Smog Streaks'],
+    theme: 'conveyor',
+  },
+  {
+    id: 'COMPACTOR',
+    name: 'Forge Compactor',
+    pull: 'Rare Pull',
+    description: 'Pressurized remixes with deeper saturation and sharper grime.',
+    previewTag: 'Neon Forge',
+    priceGor: 4250,
+    odds: { tier1: 0.55, tier2: 0.28, tier3: 0.12, tier4: 0.045, tier5: 0.005 },
+    legacyOdds: { tier1: 0.65, tier2: 0.3, tier3: 0.05 },
+    intensity: 0.62,
+    previewTier: 'tier2',
+    highlights: ['Toxic Slime Glow', 'Dumpster Drip', 'Mold Bloom', 'Leachate Sheen'],
+    theme: 'compactor',
+  },
+  {
+    id: 'HAZMAT',
+    name: 'Hazmat Shrine',
+    pull: 'Mythic Pull',
+    description: 'Legendary potential with wild color flips and hazard tech overlays.',
+    previewTag: 'Hazard Halo',
+    priceGor: 5000,
+    odds: { tier1: 0.35, tier2: 0.3, tier3: 0.2, tier4: 0.13, tier5: 0.02 },
+    legacyOdds: { tier1: 0.45, tier2: 0.45, tier3: 0.1 },
+    intensity: 0.92,
+    previewTier: 'tier3',
+    highlights: ['Biohazard Aura', 'Nuclear Afterglow', 'Gamma Bloom', 'Golden Dumpster'],
+    theme: 'hazmat',
+  },
+];
+
+// Rolls index into these by position, so reordering or editing a pool changes which
+// effect past signatures verify to.
+export const EFFECT_POOLS: {
+  primary: Record<TierId, string[]>;
+  texture: string[];
+  glow: string[];
+  edge: string[];
+} = {
+  primary: {
+    tier1: ['Rust Chrome', 'Oil Slick', 'Graffiti Tag', 'Grime Wash', 'Dusty Circuit', 'Soot Fade'],
+    tier2: ['Toxic Slime Glow', 'Dumpster Drip', 'Mold Bloom', 'Leachate Sheen', 'Grease Halo', 'Smog Streaks'],
+    tier3: [
+      'Biohazard Aura',
+      'Liquid Metal Mirror',
+      'Radiation Veil',
+      'Acid Mist',
+      'Nuclear Afterglow',
+      'Gamma Bloom',
+      'Golden Dumpster (Mythic)',
+    ],
+    tier4: ['Obsidian Glass', 'Void Static', 'Holo Shimmer', 'Chromatic Rift', 'Blacklight Ooze'],
+    tier5: ['Gold Filigree', 'Plasma Overdrive', 'Ascended Halo', 'Holo Crown', 'Golden Dumpster (Ascended)'],
+  },
+  texture: ['Grime Film', 'Oil Vignette', 'Smog Haze', 'Mold Bloom', 'Leachate Drip', 'Soot Dust'],
+  glow: ['Toxic Teal', 'Amber Rust', 'Magenta Spill', 'Lime Halo', 'Cold Cyan'],
+  edge: ['Clean Edge', 'Pitted Edge', 'Burnt Edge', 'Stickered Edge'],
+};
+
+const THEMES: MachineTheme[] = ['conveyor', 'compactor', 'hazmat'];
+
+function validateOdds(id: MachineId, field: string, odds: number[]) {
+  if (odds.some((p) => !Number.isFinite(p) || p < 0)) {
+    throw new Error(`Invalid machine catalog: ${id} ${field} must be non-negative numbers`);
+  }
+  if (Math.abs(odds.reduce((sum, p) => sum + p, 0) - 1) > 1e-9) {
+    throw new Error(`Invalid machine catalog: ${id} ${field} must sum to 1`);
+  }
+}
+
+function validateCatalog() {
+  if (!MACHINES.length) throw new Error('Invalid machine catalog: no machines');
+  const seen = new Set<string>();
+  for (const m of MACHINES) {
+    if (!/^[A-Z][A-Z0-9_]*$/.test(m.id)) throw new Error(`Invalid machine catalog: bad id ${m.id}`);
+    if (seen.has(m.id)) throw new Error(`Invalid machine catalog: duplicate id ${m.id}`);
+    seen.add(m.id);
+    if (!m.name) throw new Error(`Invalid machine catalog: ${m.id} has no name`);
+    if (!Number.isFinite(m.priceGor) || m.priceGor <= 0) {
+      throw new Error(`Invalid machine catalog: ${m.id} price must be positive`);
+    }
+    validateOdds(m.id, 'odds', TIER_IDS.map((tier) => m.odds[tier]));
+    if (m.legacyOdds) {
+      validateOdds(m.id, 'legacyOdds', tierIdsForScheme(LEGACY_TIER_SCHEME).map((tier) => m.legacyOdds![tier]));
+    }
+    if (!(m.intensity >= 0 && m.intensity <= 1)) {
+      throw new Error(`Invalid machine catalog: ${m.id} intensity must be between 0 and 1`);
+    }
+    if (!TIER_IDS.includes(m.previewTier)) throw new Error(`Invalid machine catalog: ${m.id} has a bad previewTier`);
+    if (!THEMES.includes(m.theme)) throw new Error(`Invalid machine catalog: ${m.id} has a bad theme`);
+  }
+  for (const tier of TIER_IDS) {
+    if (!EFFECT_POOLS.primary[tier]?.length) throw new Error(`Invalid machine catalog: empty ${tier} effect pool`);
+  }
+  if (!EFFECT_POOLS.texture.length || !EFFECT_POOLS.glow.length || !EFFECT_POOLS.edge.length) {
+    throw new Error('Invalid machine catalog: empty effect pool');
+  }
+}
+
+validateCatalog();
+
+export const DEFAULT_MACHINE_ID: MachineId = MACHINES[0].id;
+
+export function isMachineId(value: unknown): value is MachineId {
+  return typeof value === 'string' && MACHINES.some((m) => m.id === value);
+}
+
+export function getMachine(id: MachineId): MachineDef {
+  const machine = MACHINES.find((m) => m.id === id);
+  if (!machine) throw new Error(`Unknown machine: ${id}`);
+  return machine;
+}
+
+/**
+ * Base odds a mint with the given tier scheme was rolled with, or null for a legacy
+ * mint on a machine added after the five-tier switch (it cannot have one).
+ */
+export function oddsForScheme(machine: MachineDef, scheme: number): Partial<Record<TierId, number>> | null {
+  if (scheme !== LEGACY_TIER_SCHEME) return machine.odds;
+  return machine.legacyOdds ?? null;
+}
+
+/** "78 / 17 / 4 / 0.9 / 0.1" */
+export function oddsLabel(machine: MachineDef) {
+  return TIER_IDS.map((tier) => `${Math.round(machine.odds[tier] * 1000) / 10}`).join(' / ');
+}
+
+export function intensityLabel(machine: MachineDef) {
+  if (machine.intensity < 0.5) return 'Low';
+  if (machine.intensity < 0.8) return 'Medium';
+  return 'High';
+}
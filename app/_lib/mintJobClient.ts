@@ -0,0 +1,71 @@
+// Browser-side helpers for the /api/verify → /api/jobs/:id mint flow.
+
+export type MintJobView = {
+  id: string;
+  state: 'queued' | 'payment_verified' | 'metadata_pinned' | 'minted' | 'recorded' | 'failed';
+  tier?: string;
+  effect?: string;
+  texture?: string;
+  glow?: string;
+  edge?: string;
+  metadataUrl?: string;
+  minted?: string;
+  /** 'token-metadata', 'core' or 'bubblegum'; for compressed NFTs `minted` is the asset id. */
+  mintStandard?: string;
+  collectionMint?: string;
+  attempts: number;
+  error?: string;
+  paymentOwed?: boolean;
+  detail?: string;
+};
+
+const STATE_LABELS: Record<MintJobView['state'], string> = {
+  queued: 'Finalizing payment...',
+  payment_verified: 'Payment verified. Rendering your remix...',
+  metadata_pinned: 'Minting your remix...',
+  minted: 'Recording your mint...',
+  recorded: 'Mint complete.',
+  failed: 'Mint failed.',
+};
+
+export function mintJobLabel(job: MintJobView) {
+  return STATE_LABELS[job.state] || 'Processing...';
+}
+
+export async function submitMintJob(payload: Record<string, unknown>): Promise<MintJobView> {
+  const res = await fetch('/api/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+  const data = await res.json();
+  if (!res.ok || !data?.ok || !data?.job) throw new Error(data?.error || 'Failed to submit mint.');
+  return data.job as MintJobView;
+}
+
+/** Polls until the job is recorded (resolves) or failed (throws). */
+export async function waitForMintJob(
+  jobId: string,
+  onProgress?: (job: MintJobView) => void,
+  opts: { intervalMs?: number; maxPolls?: number } = {}
+): Promise<MintJobView> {
+  const intervalMs = opts.intervalMs ?? 2000;
+  const maxPolls = opts.maxPolls ?? 180;
+  for (let poll = 0; poll < maxPolls; poll++) {
+    let job: MintJobView | undefined;
+    try {
+      const res = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (res.ok) job = data?.job;
+    } catch {
+      // transient network or parse error while polling; keep waiting
+    }
+    if (job?.state === 'recorded') return job;
+    if (job?.state === 'failed') {
+      throw new Error(`${job.error || 'Mint failed.'}${job.detail ? ` (${job.detail})` : ''}`);
+    }
+    if (job) onProgress?.(job);
+    await new Promise((r) => setTimeout(r, intervalMs));
+  }
+  throw new Error(`Mint is still processing. Job ${jobId} will finish in the background.`);
+}
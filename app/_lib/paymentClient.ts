@@ -0,0 +1,143 @@
+// Browser-side helpers for the /api/run → sign → send payment flow. The server builds the
+// payment transaction (legs, compute budget, quote memo); the pages only check the payer
+// can afford it, have the wallet sign it and send it unchanged.
+
+import { Transaction, type Connection } from '@solana/web3.js';
+import type { PaymentLeg, PaymentToken } from './paymentLegs';
+
+export type PaymentQuote = {
+  ok: true;
+  machine: string;
+  treasury: string;
+  currency: string;
+  token?: PaymentToken;
+  amount: number;
+  amountLamports: string;
+  legs: PaymentLeg[];
+  basePrice: number;
+  rules: Array<{ id: string; type: string; label: string; percent: number }>;
+  quoteId: string;
+  quoteToken: string;
+  expiresAt: number;
+  /** Unsigned payment transaction, base64. */
+  transaction: string;
+  lastValidBlockHeight: number;
+};
+
+export type PaymentStage = 'quoting' | 'approving' | 'sent' | 'expired';
+
+export type WalletProvider = {
+  signTransaction?: (tx: Transaction) => Promise<Transaction>;
+  signAndSendTransaction?: (tx: Transaction) => Promise<any>;
+};
+
+const WALLET_TIMEOUT_MS = 15000;
+
+export async function requestPaymentQuote(params: {
+  machine: string;
+  payer: string;
+  originalMint: string;
+  currency?: string;
+  /** 'solana' quotes a Trash Bridge remix of a Solana NFT. */
+  sourceChain?: 'solana';
+}): Promise<PaymentQuote> {
+  const res = await fetch('/api/run', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...params, buildTransaction: true }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data?.ok) throw new Error(data?.error || 'Failed to create payment quote.');
+  if (!data.transaction) throw new Error('Payment quote came without a transaction.');
+  return data as PaymentQuote;
+}
+
+/** Decodes an unsigned base64 transaction built by the server. */
+export function decodeTransaction(base64: string) {
+  return Transaction.from(Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)));
+}
+
+export function decodePaymentTransaction(quote: PaymentQuote) {
+  return decodeTransaction(quote.transaction);
+}
+
+async function withTimeout<T>(promise: Promise<T>, message: string) {
+  let timer: number | undefined;
+  const timeout = new Promise<T>((_, reject) => {
+    timer = window.setTimeout(() => reject(new Error(message)), WALLET_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    if (timer) window.clearTimeout(timer);
+  }
+}
+
+/**
+ * Signs with the wallet and sends, preferring signAndSendTransaction when the wallet has it.
+ * With `viaConnection` the wallet only signs and `connection` sends: a wallet sends on its
+ * own network, which is the wrong chain for a Trash Bridge lock on Solana.
+ */
+export async function signAndSend(
+  provider: WalletProvider,
+  connection: Connection,
+  tx: Transaction,
+  opts: { viaConnection?: boolean } = {}
+) {
+  const noResponse = 'Wallet did not respond. Please approve again.';
+  const signAndSendTx = opts.viaConnection ? undefined : provider.signAndSendTransaction?.bind(provider);
+  const signTx = provider.signTransaction?.bind(provider);
+  if (!signTx && !signAndSendTx) throw new Error('Wallet does not support transaction signing.');
+
+  if (signAndSendTx) {
+    const res = await withTimeout<any>(signAndSendTx(tx), noResponse);
+    return String(res?.signature || res);
+  }
+  const signed = await withTimeout<Transaction>(signTx!(tx), noResponse);
+  return connection.sendRawTransaction(signed.serialize(), {
+    skipPreflight: true,
+    maxRetries: 12,
+    preflightCommitment: 'processed',
+  });
+}
+
+function isExpired(err: any) {
+  const msg = String(err?.message || err || '').toLowerCase();
+  return msg.includes('block height exceeded') || msg.includes('blockhash not found') || msg.includes('expired');
+}
+
+/**
+ * Quotes, signs and sends a payment. When the transaction expires before the wallet sends
+ * it, a fresh quote (with a fresh blockhash) is requested and the payer asked again.
+ * `beforeSign` runs on every quote and can throw to stop, e.g. on an insufficient balance.
+ */
+export async function payWithServerTransaction(params: {
+  connection: Connection;
+  provider: WalletProvider;
+  request: { machine: string; payer: string; originalMint: string; currency?: string; sourceChain?: 'solana' };
+  onStage?: (stage: PaymentStage, ctx: { quote: PaymentQuote | null; attempt: number; maxAttempts: number }) => void;
+  beforeSign?: (quote: PaymentQuote, tx: Transaction) => Promise<void>;
+  maxAttempts?: number;
+}): Promise<{ signature: string; quote: PaymentQuote }> {
+  const maxAttempts = params.maxAttempts ?? 4;
+  const stage = (name: PaymentStage, quote: PaymentQuote | null, attempt: number) =>
+    params.onStage?.(name, { quote, attempt, maxAttempts });
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    stage('quoting', null, attempt);
+    const quote = await requestPaymentQuote(params.request);
+    const tx = decodePaymentTransaction(quote);
+    if (params.beforeSign) await params.beforeSign(quote, tx);
+    try {
+      stage('approving', quote, attempt);
+      const signature = await signAndSend(params.provider, params.connection, tx);
+      stage('sent', quote, attempt);
+      return { signature, quote };
+    } catch (err: any) {
+      const msg = String(err?.message || err || '').toLowerCase();
+      if (msg.includes('rejected') || msg.includes('closed') || !isExpired(err)) throw err;
+      stage('expired', quote, attempt);
+    }
+  }
+  throw new Error('Transaction expired. Please try again.');
+}
@@ -0,0 +1,106 @@
+// A remix payment is one transaction with a transfer per leg: the treasury's share, the
+// burn share and any creator/partner shares. /api/run puts the legs on the quote, the
+// pages build the transfers from them and the mint pipeline checks every one landed.
+//
+// Payments are native $GOR unless the quote names an SPL token (Token or Token-2022).
+// Token legs are transferChecked into the owner's associated token account, created on
+// the way if needed; a token burn leg is a real burnChecked rather than a transfer.
+//
+// /api/run can also return the whole payment transaction, built server-side (see
+// app/api/_lib/paymentTransaction); the pages then only sign. Its memo names the quote, the
+// original mint and the machine, and verify only mints for a request that matches it.
+
+import { PublicKey, SystemProgram, TransactionInstruction } from '@solana/web3.js';
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+
+export type PaymentLegRole = 'treasury' | 'burn' | 'share';
+
+export type PaymentLeg = {
+  role: PaymentLegRole;
+  label: string;
+  wallet: string;
+  /** Base units of the payment currency, as a string. */
+  lamports: string;
+  /** Token payments: the associated token account of `wallet` that receives the leg. */
+  ata?: string;
+};
+
+export type PaymentToken = {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  /** Token program that owns the mint (Token or Token-2022). */
+  programId: string;
+};
+
+export const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+
+const MEMO_PREFIX = 'gorbage-factory:v1';
+
+export type PaymentMemo = { quoteId: string; originalMint: string; machine: string };
+
+/** Memo text binding a payment transaction to its quote, source NFT and machine. */
+export function paymentMemo(memo: PaymentMemo) {
+  return [MEMO_PREFIX, memo.quoteId, memo.originalMint, memo.machine].join(':');
+}
+
+/** Reads a memo written by paymentMemo; anything else is null. */
+export function parsePaymentMemo(text: string): PaymentMemo | null {
+  if (!text.startsWith(`${MEMO_PREFIX}:`)) return null;
+  const [quoteId, originalMint, machine, ...rest] = text.slice(MEMO_PREFIX.length + 1).split(':');
+  if (!quoteId || !originalMint || !machine || rest.length) return null;
+  return { quoteId, originalMint, machine };
+}
+
+/** A memo instruction signed by the payer, carrying `paymentMemo(memo)`. */
+export function paymentMemoInstruction(payer: PublicKey, memo: PaymentMemo) {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: payer, isSigner: true, isWritable: false }],
+    data: Buffer.from(paymentMemo(memo), 'utf8'),
+  });
+}
+
+/** The associated token account of `owner` for `token`. */
+export function tokenAccountFor(owner: PublicKey, token: PaymentToken) {
+  return getAssociatedTokenAddressSync(new PublicKey(token.mint), owner, true, new PublicKey(token.programId));
+}
+
+/** Instructions for every leg; quotes from before legs existed pay their whole amount to the treasury. */
+export function paymentInstructions(
+  payer: PublicKey,
+  quote: { treasury: string; amountLamports: string; legs?: PaymentLeg[]; token?: PaymentToken }
+): TransactionInstruction[] {
+  const legs: PaymentLeg[] = quote.legs?.length
+    ? quote.legs
+    : [{ role: 'treasury', label: 'Treasury', wallet: quote.treasury, lamports: quote.amountLamports }];
+  const token = quote.token;
+  if (!token) {
+    return legs.map((leg) =>
+      SystemProgram.transfer({ fromPubkey: payer, toPubkey: new PublicKey(leg.wallet), lamports: BigInt(leg.lamports) })
+    );
+  }
+
+  const mint = new PublicKey(token.mint);
+  const programId = new PublicKey(token.programId);
+  const source = tokenAccountFor(payer, token);
+  const instructions: TransactionInstruction[] = [];
+  for (const leg of legs) {
+    const amount = BigInt(leg.lamports);
+    if (leg.role === 'burn') {
+      instructions.push(createBurnCheckedInstruction(source, mint, payer, amount, token.decimals, [], programId));
+      continue;
+    }
+    const destination = new PublicKey(leg.ata!);
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction(payer, destination, new PublicKey(leg.wallet), mint, programId),
+      createTransferCheckedInstruction(source, mint, destination, payer, amount, token.decimals, [], programId)
+    );
+  }
+  return instructions;
+}
@@ -0,0 +1,296 @@
+// Remix artwork shared by the live preview (browser canvas) and the server-side
+// renderer (@napi-rs/canvas), so the pinned image is drawn by the same code the
+// user previewed.
+
+import { tierRank, type TierId } from './tiers';
+
+export type { TierId };
+
+/** Returns a ready-to-draw overlay image, or null if it is not loaded yet. */
+export type TrashImageLoader = (name: string) => CanvasImageSource | null;
+
+export const REMIX_SIZE = 1024;
+
+export const TRASH_ITEM_SOURCES: Record<string, string> = {
+  trash_bag: '/trash/trash_bag.png',
+  fishbone: '/trash/fishbone.png',
+  tire: '/trash/tire.png',
+  crushed_can: '/trash/crushed_can.png',
+  pizza_box: '/trash/pizza_box.png',
+  banana: '/trash/banana.png',
+  caution_tape: '/trash/caution_tape.png',
+};
+
+export const TRASH_ITEM_POOLS: Record<TierId, string[]> = {
+  tier1: ['trash_bag', 'fishbone'],
+  tier2: ['tire', 'crushed_can', 'pizza_box'],
+  tier3: ['banana', 'caution_tape'],
+  tier4: ['tire', 'banana', 'caution_tape'],
+  tier5: ['pizza_box', 'banana', 'caution_tape'],
+};
+
+// Overlay strength per tier; tier1–3 values are what the three-tier launch rendered with.
+const TIER_STRENGTH: Record<TierId, number> = { tier1: 0.45, tier2: 0.7, tier3: 1, tier4: 1.15, tier5: 1.3 };
+
+export function hash32(input: string) {
+  let h = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+export function seededRng(seed: number) {
+  let t = seed >>> 0;
+  return () => {
+    t += 0x6d2b79f5;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function drawHazard(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string) {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(2, size * 0.08);
+  ctx.beginPath();
+  ctx.arc(0, 0, size * 0.46, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(0, -size * 0.38);
+  ctx.lineTo(size * 0.33, size * 0.2);
+  ctx.lineTo(-size * 0.33, size * 0.2);
+  ctx.closePath();
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.arc(0, 0, size * 0.08, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawTrashBag(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, stroke: string, fill: string) {
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.fillStyle = fill;
+  ctx.strokeStyle = stroke;
+  ctx.lineWidth = Math.max(2, w * 0.04);
+  ctx.beginPath();
+  ctx.moveTo(-w * 0.18, -h * 0.38);
+  ctx.quadraticCurveTo(0, -h * 0.5, w * 0.18, -h * 0.38);
+  ctx.quadraticCurveTo(w * 0.36, -h * 0.18, w * 0.32, h * 0.15);
+  ctx.quadraticCurveTo(w * 0.28, h * 0.45, 0, h * 0.5);
+  ctx.quadraticCurveTo(-w * 0.28, h * 0.45, -w * 0.32, h * 0.15);
+  ctx.quadraticCurveTo(-w * 0.36, -h * 0.18, -w * 0.18, -h * 0.38);
+  ctx.closePath();
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawGraffiti(ctx: CanvasRenderingContext2D, rng: () => number, w: number, h: number) {
+  ctx.save();
+  ctx.globalAlpha = 0.7;
+  ctx.lineWidth = 6;
+  ctx.strokeStyle = 'rgba(255,120,180,0.75)';
+  ctx.beginPath();
+  ctx.moveTo(w * 0.1, h * 0.8);
+  ctx.bezierCurveTo(w * 0.3, h * 0.6, w * 0.6, h * 0.6, w * 0.9, h * 0.5);
+  ctx.stroke();
+  ctx.strokeStyle = 'rgba(0,255,200,0.65)';
+  ctx.beginPath();
+  ctx.moveTo(w * 0.15, h * 0.9);
+  ctx.bezierCurveTo(w * 0.4, h * 0.75, w * 0.7, h * 0.75, w * 0.88, h * 0.7);
+  ctx.stroke();
+  ctx.restore();
+}
+
+function drawCautionTape(ctx: CanvasRenderingContext2D, w: number, h: number, opacity: number) {
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.translate(w * 0.05, h * 0.15);
+  ctx.rotate(-0.2);
+  const tapeHeight = h * 0.08;
+  const tapeWidth = w * 1.1;
+  ctx.fillStyle = 'rgba(20,20,20,0.35)';
+  ctx.fillRect(-w * 0.1, 0, tapeWidth, tapeHeight);
+  ctx.fillStyle = 'rgba(255,220,80,0.6)';
+  for (let x = -w * 0.1; x < tapeWidth; x += tapeHeight) {
+    ctx.fillRect(x, 0, tapeHeight * 0.6, tapeHeight);
+  }
+  ctx.restore();
+}
+
+export function drawTrashyOverlays(
+  ctx: CanvasRenderingContext2D,
+  tier: TierId,
+  primary: string,
+  seed: string,
+  getTrashImage: TrashImageLoader
+) {
+  const rng = seededRng(hash32(seed));
+  const w = ctx.canvas.width;
+  const h = ctx.canvas.height;
+  const strength = TIER_STRENGTH[tier] ?? 1;
+  const premium = tierRank(tier) >= 3;
+  const pool = TRASH_ITEM_POOLS[tier] || [];
+
+  // Burned edges
+  ctx.save();
+  ctx.globalCompositeOperation = 'multiply';
+  const burn = ctx.createRadialGradient(w * 0.5, h * 0.5, w * 0.3, w * 0.5, h * 0.5, w * 0.8);
+  burn.addColorStop(0, 'rgba(0,0,0,0)');
+  burn.addColorStop(1, `rgba(20,10,5,${0.55 * strength})`);
+  ctx.fillStyle = burn;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+
+  // Color wash background (stronger on higher tiers)
+  ctx.save();
+  ctx.globalCompositeOperation = 'overlay';
+  ctx.globalAlpha = 0.25 + 0.35 * strength;
+  const wash = ctx.createLinearGradient(0, 0, w, h);
+  wash.addColorStop(0, 'rgba(0,255,200,0.35)');
+  wash.addColorStop(1, 'rgba(255,120,200,0.25)');
+  ctx.fillStyle = wash;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+
+  // Dirt speckles
+  ctx.save();
+  ctx.globalCompositeOperation = 'multiply';
+  ctx.globalAlpha = 0.18 + 0.25 * strength;
+  const speckCount = Math.floor(60 + 140 * strength);
+  for (let i = 0; i < speckCount; i++) {
+    const x = rng() * w;
+    const y = rng() * h;
+    const r = 2 + rng() * 6;
+    ctx.fillStyle = 'rgba(30,25,20,0.5)';
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+
+  // Primary-specific decals
+  ctx.save();
+  ctx.globalCompositeOperation = 'screen';
+  ctx.globalAlpha = 0.5 + 0.3 * strength;
+  if (primary.includes('Graffiti') || premium) {
+    drawGraffiti(ctx, rng, w, h);
+  }
+  if (
+    primary.includes('Biohazard') ||
+    primary.includes('Nuclear') ||
+    primary.includes('Toxic') ||
+    primary.includes('Quarantine') ||
+    tier !== 'tier1'
+  ) {
+    drawHazard(ctx, w * 0.78, h * 0.22, w * 0.2, 'rgba(255,220,120,0.9)');
+    drawHazard(ctx, w * 0.2, h * 0.75, w * 0.14, 'rgba(255,220,120,0.7)');
+  }
+  if (premium) {
+    drawGraffiti(ctx, rng, w, h);
+  }
+  ctx.restore();
+
+  // Ascended pieces get a gold halo
+  if (tier === 'tier5') {
+    ctx.save();
+    ctx.globalCompositeOperation = 'screen';
+    const halo = ctx.createRadialGradient(w * 0.5, h * 0.45, w * 0.05, w * 0.5, h * 0.45, w * 0.6);
+    halo.addColorStop(0, 'rgba(255,215,110,0.45)');
+    halo.addColorStop(1, 'rgba(255,180,60,0)');
+    ctx.fillStyle = halo;
+    ctx.fillRect(0, 0, w, h);
+    ctx.restore();
+  }
+
+  // Physical trash overlays (premapped PNGs, edge-safe)
+  if (pool.length) {
+    const pickCount = premium ? 2 : 1;
+    const picks: string[] = [];
+    const poolCopy = [...pool];
+    for (let i = 0; i < pickCount && poolCopy.length; i++) {
+      const idx = Math.floor(rng() * poolCopy.length);
+      picks.push(poolCopy.splice(idx, 1)[0]);
+    }
+    if (picks.includes('caution_tape')) {
+      picks.length = 1;
+      picks[0] = 'caution_tape';
+    }
+    let alpha = premium ? 0.9 : tier === 'tier2' ? 0.75 : 0.6;
+    if (picks.length === 1 && picks[0] === 'caution_tape') {
+      alpha = 0.55;
+    }
+    ctx.save();
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = alpha;
+    for (const name of picks) {
+      const img = getTrashImage(name);
+      if (img) {
+        ctx.drawImage(img, 0, 0, w, h);
+      }
+    }
+    ctx.restore();
+  }
+}
+
+export function getTierFilter(tier: TierId, primary: string) {
+  const p = primary.toLowerCase();
+  if (tier === 'tier5') {
+    if (p.includes('plasma')) return 'hue-rotate(300deg) saturate(2.8) contrast(1.9) brightness(1.12)';
+    return 'sepia(0.75) saturate(3) hue-rotate(-12deg) contrast(1.65) brightness(1.14)';
+  }
+  if (tier === 'tier4') {
+    if (p.includes('holo') || p.includes('chromatic')) return 'hue-rotate(230deg) saturate(2.6) contrast(1.85) brightness(1.02)';
+    return 'grayscale(0.35) hue-rotate(250deg) saturate(1.9) contrast(1.95) brightness(0.94)';
+  }
+  if (tier === 'tier3') {
+    if (p.includes('liquid metal')) return 'grayscale(0.6) contrast(1.85) brightness(1.08)';
+    if (p.includes('gamma') || p.includes('nuclear')) return 'invert(0.5) hue-rotate(170deg) saturate(2.6) contrast(1.8)';
+    if (p.includes('radiation') || p.includes('biohazard')) return 'hue-rotate(200deg) saturate(2.4) contrast(1.7) brightness(1.05)';
+    return 'invert(0.45) hue-rotate(160deg) saturate(2.4) contrast(1.75) brightness(1.08)';
+  }
+  if (tier === 'tier2') {
+    if (p.includes('toxic') || p.includes('leachate')) return 'hue-rotate(95deg) saturate(2) contrast(1.55) brightness(1.05)';
+    if (p.includes('grease') || p.includes('smog')) return 'hue-rotate(70deg) saturate(1.85) contrast(1.45)';
+    return 'hue-rotate(80deg) saturate(1.9) contrast(1.5) brightness(1.04)';
+  }
+  return 'saturate(1.25) contrast(1.12)';
+}
+
+/**
+ * Draws the remix onto a REMIX_SIZE square context: the original art cover-fit,
+ * a tier colour pass on top, then the trashy overlays.
+ */
+export function drawRemix(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  tier: TierId,
+  primary: string,
+  seed: string,
+  getTrashImage: TrashImageLoader
+) {
+  const size = REMIX_SIZE;
+  ctx.clearRect(0, 0, size, size);
+
+  const scale = Math.max(size / img.width, size / img.height);
+  const dw = img.width * scale;
+  const dh = img.height * scale;
+  const dx = (size - dw) / 2;
+  const dy = (size - dh) / 2;
+
+  // Base draw
+  ctx.drawImage(img, dx, dy, dw, dh);
+
+  // Strong color transform by tier
+  ctx.save();
+  ctx.filter = getTierFilter(tier, primary);
+  ctx.drawImage(img, dx, dy, dw, dh);
+  ctx.restore();
+
+  drawTrashyOverlays(ctx, tier, primary, seed, getTrashImage);
+}
@@ -0,0 +1,26 @@
+// RPC endpoint choice shared by the pages and the server RPC pool (app/api/_lib/rpcPool).
+// rpc.trashscan.io does not work as the factory's RPC, so it is skipped wherever it is
+// configured and the public Gorbagana RPC is used in its place.
+
+export const DEFAULT_GORBAGANA_RPC = 'https://rpc.gorbagana.wtf/';
+
+const UNUSABLE_RPC_HOSTS = ['rpc.trashscan.io'];
+
+export function isUsableRpcUrl(url: string | undefined) {
+  const value = (url || '').trim();
+  return !!value && !UNUSABLE_RPC_HOSTS.some((host) => value.includes(host));
+}
+
+/** The first usable candidate, or the public Gorbagana RPC. */
+export function pickRpcUrl(...candidates: Array<string | undefined>) {
+  const found = candidates.find(isUsableRpcUrl);
+  return found ? found.trim() : DEFAULT_GORBAGANA_RPC;
+}
+
+/** A comma-separated endpoint list with unusable entries dropped. */
+export function parseRpcList(raw: string | undefined) {
+  return (raw || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(isUsableRpcUrl);
+}
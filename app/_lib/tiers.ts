@@ -0,0 +1,47 @@
+// Rarity tiers, lowest first. Tier ids are what the ledger, caps (TIER<n>_CAP) and
+// rolls use; names are for people.
+//
+// The factory launched with three tiers. Mints rolled then are recorded with tier
+// scheme 1 (or no scheme at all, in ledgers written before schemes existed) and keep
+// verifying against the machines' legacyOdds; everything rolled since uses scheme 2.
+
+export type TierId = 'tier1' | 'tier2' | 'tier3' | 'tier4' | 'tier5';
+
+export type TierDef = {
+  id: TierId;
+  name: string;
+  meta: string;
+  /** Supply cap used when TIER<n>_CAP is not set. */
+  defaultCap: number;
+};
+
+export const TIERS: TierDef[] = [
+  { id: 'tier1', name: 'Scrap', meta: 'ENTRY', defaultCap: 3000 },
+  { id: 'tier2', name: 'Steel', meta: '+', defaultCap: 999 },
+  { id: 'tier3', name: 'Chrome', meta: 'PREMIUM', defaultCap: 444 },
+  { id: 'tier4', name: 'Obsidian', meta: 'ELITE', defaultCap: 111 },
+  { id: 'tier5', name: 'Ascended', meta: 'TOP', defaultCap: 22 },
+];
+
+export const TIER_IDS: TierId[] = TIERS.map((t) => t.id);
+
+export const LEGACY_TIER_SCHEME = 1;
+export const TIER_SCHEME = 2;
+
+/** The tiers a scheme rolls over. */
+export function tierIdsForScheme(scheme: number): TierId[] {
+  return scheme === LEGACY_TIER_SCHEME ? ['tier1', 'tier2', 'tier3'] : TIER_IDS;
+}
+
+export function isTierId(value: unknown): value is TierId {
+  return typeof value === 'string' && TIER_IDS.includes(value as TierId);
+}
+
+/** 1 for tier1 up to 5 for tier5. */
+export function tierRank(tier: TierId) {
+  return TIER_IDS.indexOf(tier) + 1;
+}
+
+export function tierName(tier: TierId) {
+  return TIERS.find((t) => t.id === tier)?.name ?? tier;
+}
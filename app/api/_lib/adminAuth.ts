@@ -0,0 +1,19 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+// Operator-only routes authenticate with `Authorization: Bearer <ADMIN_API_TOKEN>`.
+// With no token configured every admin request is refused.
+
+export function isAdminRequest(req: Request) {
+  const token = process.env.ADMIN_API_TOKEN || "";
+  if (token.length < 32) return false;
+  const header = req.headers.get("authorization") || "";
+  const presented = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  const a = new Uint8Array(crypto.createHash("sha256").update(presented).digest());
+  const b = new Uint8Array(crypto.createHash("sha256").update(token).digest());
+  return crypto.timingSafeEqual(a, b);
+}
+
+export function adminUnauthorizedResponse() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
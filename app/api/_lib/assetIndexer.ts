@@ -0,0 +1,293 @@
+import { Metaplex } from "@metaplex-foundation/js";
+import { PublicKey } from "@solana/web3.js";
+import { hedgedRead, type RpcPoolName } from "./rpcPool";
+import { sourceFromDas, sourceFromMetadata, type SourceNft } from "./sourceNft";
+import {
+  encodeNftCursor,
+  pageOwnedMints,
+  rememberPage,
+  withTimeout,
+  type NftCursor,
+  type NftPage,
+} from "./nftPages";
+
+// The NFTs a wallet holds, for /api/nfts (Gorbagana pool) and /api/bridge/nfts (Solana pool).
+// DAS getAssetsByOwner answers first: one call returns names, images, collection and
+// creators. When the chain's RPC has no DAS index (or it fails), the page comes from the
+// owner's token accounts plus their Token Metadata accounts instead. Both paths keep the
+// same interfaces, so a wallet lists the same kinds of NFT either way:
+//   V1_NFT          - Token Metadata NFT (uncompressed)
+//   ProgrammableNFT - Token Metadata pNFT
+//   MplCoreAsset    - Core asset (DAS only; Core assets have no token account)
+// DAS is called on the pool's endpoints, or on GORBAGANA_DAS_URL / SOLANA_DAS_URL when set.
+// An RPC that does not know the method is not asked again for DAS_RECHECK_MS.
+
+export type AssetInterface = "V1_NFT" | "ProgrammableNFT" | "MplCoreAsset";
+
+export type IndexedAsset = {
+  id: string;
+  interface: AssetInterface;
+  name: string;
+  symbol: string;
+  image: string;
+  /** Collection and creators, for the eligibility check (see ./eligibility). */
+  source: SourceNft;
+};
+
+export type IndexerOptions = {
+  pool: RpcPoolName;
+  /** Lifetime of the owner's token-account mint list (see ./nftPages). */
+  ttlMs: number;
+  timeoutMs: number;
+  jsonTimeoutMs: number;
+};
+
+const DAS_URLS: Record<RpcPoolName, string> = {
+  gorbagana: process.env.GORBAGANA_DAS_URL?.trim() || "",
+  solana: (process.env.SOLANA_DAS_URL || process.env.NEXT_PUBLIC_SOLANA_DAS_URL || "").trim(),
+};
+const DAS_RECHECK_MS = Number(process.env.DAS_RECHECK_MS ?? 10 * 60_000);
+
+for (const [pool, url] of Object.entries(DAS_URLS)) {
+  if (url && !/^https?:\/\//.test(url)) throw new Error(`Invalid ${pool.toUpperCase()}_DAS_URL configuration`);
+}
+if (!Number.isFinite(DAS_RECHECK_MS) || DAS_RECHECK_MS < 0) {
+  throw new Error("Invalid DAS_RECHECK_MS configuration");
+}
+
+const INTERFACES: AssetInterface[] = ["V1_NFT", "ProgrammableNFT", "MplCoreAsset"];
+
+/** Until when each pool is known to lack DAS. */
+const dasMissingUntil: Partial<Record<RpcPoolName, number>> = {};
+const jsonImages = new Map<string, string>();
+
+/** The RPC answered, but has no getAssetsByOwner. */
+class DasUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DasUnsupportedError";
+  }
+}
+
+function normalizeUri(input?: string): string {
+  const value = (input || "").trim();
+  if (!value) return "";
+  if (value.startsWith("data:image/")) return value;
+  if (value.startsWith("ipfs://")) {
+    return `https://ipfs.io/ipfs/${value.slice("ipfs://".length).replace(/^ipfs\//, "")}`;
+  }
+  if (value.startsWith("ar://")) {
+    return `https://arweave.net/${value.slice("ar://".length)}`;
+  }
+  // Some metadata stores raw CID values without a URI scheme.
+  if (/^(Qm[1-9A-HJ-NP-Za-km-z]{44,}|bafy[1-9A-Za-z]{20,})$/.test(value)) {
+    return `https://ipfs.io/ipfs/${value}`;
+  }
+  if (value.startsWith("http://") || value.startsWith("https://")) return value;
+  return "";
+}
+
+/** The image named by an off-chain metadata JSON, normalized; "" when there is none. */
+async function fetchJsonImage(uri: string, timeoutMs: number): Promise<string> {
+  const url = normalizeUri(uri);
+  if (!url) return "";
+  const known = jsonImages.get(url);
+  if (known !== undefined) return known;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { signal: controller.signal, cache: "no-store" });
+    if (!res.ok) return "";
+    const json: any = await res.json();
+    const direct =
+      typeof json?.image === "string"
+        ? json.image
+        : typeof json?.properties?.image === "string"
+          ? json.properties.image
+          : typeof json?.image?.uri === "string"
+            ? json.image.uri
+            : "";
+    const fileCandidate = Array.isArray(json?.properties?.files)
+      ? String(
+          json.properties.files.find((f: any) => String(f?.type || f?.mime || "").startsWith("image/"))?.uri ||
+            json.properties.files[0]?.uri ||
+            ""
+        )
+      : "";
+    const image = normalizeUri(String(direct || fileCandidate || "").trim());
+    rememberPage(jsonImages, url, image);
+    return image;
+  } catch {
+    // Timeouts and bad JSON are not cached; the next page load tries again.
+    return "";
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function dasRequest(url: string, params: Record<string, unknown>, timeoutMs: number) {
+  const res = await withTimeout(
+    fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: "asset-indexer", method: "getAssetsByOwner", params }),
+      cache: "no-store",
+    }),
+    timeoutMs,
+    "das fetch"
+  );
+  if (res.status === 404 || res.status === 405) throw new DasUnsupportedError(`das rpc ${res.status}`);
+  if (!res.ok) throw new Error(`das rpc ${res.status}`);
+  const json: any = await res.json();
+  if (json?.error) {
+    const message = `das rpc error: ${json.error?.message || "unknown"}`;
+    if (json.error?.code === -32601 || /method not found/i.test(String(json.error?.message))) {
+      throw new DasUnsupportedError(message);
+    }
+    throw new Error(message);
+  }
+  return Array.isArray(json?.result?.items) ? (json.result.items as any[]) : [];
+}
+
+function imageFromDas(item: any) {
+  const files: any[] = Array.isArray(item?.content?.files) ? item.content.files : [];
+  const file = files.find((f) => String(f?.mime || f?.type || "").startsWith("image/")) || files[0];
+  return normalizeUri(String(file?.uri || "")) || normalizeUri(String(item?.content?.links?.image || ""));
+}
+
+/**
+ * One DAS page. Page numbers walk the wallet newest first; a before/after cursor pages by
+ * asset id instead (keyset), which DAS providers serve faster deep into large wallets.
+ */
+async function pageViaDas(
+  owner: string,
+  cursor: Extract<NftCursor, { source: "das" }>,
+  limit: number,
+  opts: IndexerOptions
+): Promise<NftPage<IndexedAsset>> {
+  const keyset = cursor.before || cursor.after;
+  const page = cursor.page ?? 1;
+  const params = {
+    ownerAddress: owner,
+    limit,
+    ...(keyset
+      ? { before: cursor.before, after: cursor.after, sortBy: { sortBy: "id", sortDirection: "asc" } }
+      : { page, sortBy: { sortBy: "created", sortDirection: "desc" } }),
+  };
+  const url = DAS_URLS[opts.pool];
+  let items: any[];
+  try {
+    items = url
+      ? await dasRequest(url, params, opts.timeoutMs)
+      : await hedgedRead((connection) => dasRequest(connection.rpcEndpoint, params, opts.timeoutMs), {
+          pool: opts.pool,
+        });
+  } catch (e) {
+    if (e instanceof DasUnsupportedError) dasMissingUntil[opts.pool] = Date.now() + DAS_RECHECK_MS;
+    throw e;
+  }
+
+  // A full page means there may be more; the next one continues the same way.
+  let nextCursor: string | null = null;
+  if (items.length >= limit) {
+    const edge = String(items[cursor.before ? 0 : items.length - 1]?.id || "");
+    if (!keyset) nextCursor = encodeNftCursor({ source: "das", page: page + 1 });
+    else if (edge && cursor.before) nextCursor = encodeNftCursor({ source: "das", before: edge });
+    else if (edge) nextCursor = encodeNftCursor({ source: "das", after: edge });
+  }
+
+  const owned = items.slice(0, limit).filter((item) => {
+    if (!INTERFACES.includes(item?.interface) || !item?.id) return false;
+    // Compressed NFTs report V1_NFT too, but have no token account to lock, burn or check.
+    if (item?.compression?.compressed || item?.burnt) return false;
+    const balance = Number(item?.token_info?.balance ?? 1);
+    return Number.isFinite(balance) && balance >= 1;
+  });
+  const assets = await Promise.all(
+    owned.map(async (item): Promise<IndexedAsset> => {
+      const source = sourceFromDas(item);
+      const jsonUri = String(item?.content?.json_uri || "");
+      return {
+        id: source.mint,
+        interface: item.interface,
+        name: source.name,
+        symbol: source.symbol,
+        image: imageFromDas(item) || (jsonUri ? await fetchJsonImage(jsonUri, opts.jsonTimeoutMs) : ""),
+        source,
+      };
+    })
+  );
+  return { items: assets, nextCursor };
+}
+
+/** Token Metadata standard to DAS interface; editions and fungible assets are left out. */
+function interfaceFromMetadata(meta: any): AssetInterface | null {
+  const standard = meta?.tokenStandard;
+  // Older NFTs predate the field.
+  if (standard === null || standard === undefined || standard === 0) return "V1_NFT";
+  if (standard === 4 || standard === 5) return "ProgrammableNFT";
+  return null;
+}
+
+/** One page from an accounts cursor: the owner's NFT-like mints with their Token Metadata. */
+async function pageViaTokenAccounts(
+  owner: string,
+  offset: number,
+  limit: number,
+  opts: IndexerOptions
+): Promise<NftPage<IndexedAsset>> {
+  const { items: mints, nextCursor } = await pageOwnedMints(new PublicKey(owner), offset, limit, opts);
+  if (!mints.length) return { items: [], nextCursor };
+
+  const mintPubkeys = mints.map((m) => new PublicKey(m));
+  const metas: any[] = await withTimeout(
+    hedgedRead((connection) => Metaplex.make(connection).nfts().findAllByMintList({ mints: mintPubkeys }), {
+      pool: opts.pool,
+    }) as Promise<any[]>,
+    opts.timeoutMs,
+    "metadata fetch"
+  );
+
+  const assets = await Promise.all(
+    mints.map(async (mint, index): Promise<IndexedAsset | null> => {
+      const meta = metas[index];
+      const iface = meta ? interfaceFromMetadata(meta) : null;
+      if (!iface) return null;
+      const source = sourceFromMetadata(mint, meta);
+      return {
+        id: mint,
+        interface: iface,
+        name: source.name,
+        symbol: source.symbol,
+        image: await fetchJsonImage(String(meta?.uri || ""), opts.jsonTimeoutMs),
+        source,
+      };
+    })
+  );
+  return { items: assets.filter((asset): asset is IndexedAsset => !!asset), nextCursor };
+}
+
+/**
+ * One page of `owner`'s NFTs. Without a cursor, DAS is tried first and the token accounts
+ * answer when it fails or finds nothing; the returned cursor keeps to whichever answered.
+ * A DAS cursor fails outright rather than switching indexes halfway through the wallet.
+ */
+export async function fetchOwnedAssets(
+  owner: string,
+  cursor: NftCursor | null,
+  limit: number,
+  opts: IndexerOptions
+): Promise<NftPage<IndexedAsset>> {
+  if (cursor?.source === "accounts") return pageViaTokenAccounts(owner, cursor.offset, limit, opts);
+  if (cursor) return pageViaDas(owner, cursor, limit, opts);
+
+  if (Date.now() >= (dasMissingUntil[opts.pool] ?? 0)) {
+    try {
+      const page = await pageViaDas(owner, { source: "das" }, limit, opts);
+      if (page.items.length || page.nextCursor) return page;
+    } catch (e) {
+      if (!(e instanceof DasUnsupportedError)) console.error(`[asset-indexer] ${opts.pool} das failed`, e);
+    }
+  }
+  return pageViaTokenAccounts(owner, 0, limit, opts);
+}
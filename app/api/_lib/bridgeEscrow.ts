@@ -0,0 +1,150 @@
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { getConnection, hedgedRead, type RpcPoolName } from "./rpcPool";
+
+// Trash Bridge: a Solana NFT is locked in escrow before its remix is minted on Gorbagana.
+//   BRIDGE_ENABLED        - turns the bridge routes and bridge mints on
+//   BRIDGE_ESCROW_WALLET  - Solana wallet that holds locked NFTs (required when enabled)
+// /api/bridge/escrow builds the lock: the owner's NFT moves into the escrow wallet's
+// associated token account. /api/verify then takes the lock signature with the payment and
+// the mint job checks, on the Solana RPC pool, that this transaction moved the NFT from the
+// payer to escrow and that escrow still holds it. Each lock backs one bridge mint, recorded
+// in the bridge ledger (see ./ledgerStore); ./bridgeUnlock hands it back.
+
+export type BridgeSourceChain = "solana";
+
+/** Display names, as shown in the "Source Chain" trait of bridge remixes. */
+export const SOURCE_CHAIN_NAMES: Record<BridgeSourceChain, string> = { solana: "Solana" };
+
+/** Where a bridge mint's source NFT was locked; carried on the mint request. */
+export type BridgeSource = { sourceChain: BridgeSourceChain; escrowSignature: string };
+
+export type EscrowCheck = { ok: true } | { ok: false; error: string; pending?: boolean };
+
+export class BridgeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BridgeError";
+    this.status = status;
+  }
+}
+
+const ENABLED =
+  (process.env.BRIDGE_ENABLED || process.env.NEXT_PUBLIC_BRIDGE_ENABLED || "false").toLowerCase() === "true";
+const ESCROW_WALLET = process.env.BRIDGE_ESCROW_WALLET?.trim() || "";
+
+if (ESCROW_WALLET) {
+  try {
+    new PublicKey(ESCROW_WALLET);
+  } catch {
+    throw new Error("Invalid BRIDGE_ESCROW_WALLET configuration");
+  }
+} else if (ENABLED) {
+  throw new Error("Invalid bridge configuration: BRIDGE_ENABLED needs BRIDGE_ESCROW_WALLET");
+}
+
+export function isBridgeEnabled() {
+  return ENABLED;
+}
+
+export function bridgeEscrowWallet() {
+  return new PublicKey(ESCROW_WALLET);
+}
+
+/** The owner's token account holding `mint` (one whole token) on `pool`, with its token program. */
+export async function findHolding(owner: PublicKey, mint: PublicKey, pool: RpcPoolName = "solana") {
+  const resp = await hedgedRead(
+    (connection) => connection.getParsedTokenAccountsByOwner(owner, { mint }, "confirmed"),
+    { pool }
+  );
+  for (const { pubkey, account } of resp.value) {
+    const info: any = (account.data as any)?.parsed?.info;
+    if (info?.tokenAmount?.amount !== "1" || Number(info?.tokenAmount?.decimals) !== 0) continue;
+    return { address: pubkey, programId: account.owner, frozen: info?.state === "frozen" };
+  }
+  return null;
+}
+
+/**
+ * Unsigned Solana transaction moving `mint` from `owner` into escrow, base64-encoded.
+ * Frozen token accounts (programmable NFTs) cannot move with a plain transfer and are refused.
+ */
+export async function buildEscrowTransaction(owner: PublicKey, mint: PublicKey) {
+  const holding = await findHolding(owner, mint);
+  if (!holding) throw new BridgeError("This wallet does not hold that NFT", 403);
+  if (holding.frozen) throw new BridgeError("This NFT is frozen (programmable NFTs cannot be bridged yet)", 409);
+
+  const escrow = bridgeEscrowWallet();
+  const escrowAccount = getAssociatedTokenAddressSync(mint, escrow, true, holding.programId);
+  const connection = getConnection("solana");
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+  const tx = new Transaction({ feePayer: owner, blockhash, lastValidBlockHeight }).add(
+    createAssociatedTokenAccountIdempotentInstruction(owner, escrowAccount, escrow, mint, holding.programId),
+    createTransferCheckedInstruction(holding.address, mint, escrowAccount, owner, 1, 0, [], holding.programId)
+  );
+  return {
+    transaction: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+    lastValidBlockHeight,
+    escrow: escrow.toBase58(),
+  };
+}
+
+/** Raw token balance of `mint` per owner, from a transaction's pre or post balances. */
+export function balancesByOwner(balances: any[] | null | undefined, mint: string) {
+  const byOwner = new Map<string, bigint>();
+  for (const balance of balances || []) {
+    if (balance?.mint !== mint || !balance.owner) continue;
+    const amount = BigInt(balance.uiTokenAmount?.amount ?? "0");
+    byOwner.set(balance.owner, (byOwner.get(balance.owner) ?? BigInt(0)) + amount);
+  }
+  return byOwner;
+}
+
+/**
+ * Checks that `escrowSignature` moved `sourceMint` from `owner` into escrow (judged on
+ * the token balances it changed, so any transfer instruction works) and that escrow still
+ * holds it. `pending` means the transaction is not visible yet and the check can be retried.
+ */
+export async function checkEscrowLock(params: {
+  escrowSignature: string;
+  sourceMint: string;
+  owner: string;
+}): Promise<EscrowCheck> {
+  const tx: any = await hedgedRead(
+    (connection) =>
+      connection.getParsedTransaction(params.escrowSignature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      }),
+    { pool: "solana", accept: (found) => !!found }
+  );
+  if (!tx) return { ok: false, error: "Escrow transaction not found yet. Try again in a moment.", pending: true };
+  if (tx.meta?.err) return { ok: false, error: "Escrow transaction failed" };
+
+  const escrow = bridgeEscrowWallet().toBase58();
+  const one = BigInt(1);
+  const before = balancesByOwner(tx.meta?.preTokenBalances, params.sourceMint);
+  const after = balancesByOwner(tx.meta?.postTokenBalances, params.sourceMint);
+  const fromOwner = (before.get(params.owner) ?? BigInt(0)) - (after.get(params.owner) ?? BigInt(0));
+  const toEscrow = (after.get(escrow) ?? BigInt(0)) - (before.get(escrow) ?? BigInt(0));
+  if (fromOwner !== one || toEscrow !== one) {
+    return { ok: false, error: "Escrow transaction did not lock this NFT from the payer's wallet" };
+  }
+
+  const held = await hedgedRead(
+    (connection) =>
+      connection.getParsedTokenAccountsByOwner(new PublicKey(escrow), { mint: new PublicKey(params.sourceMint) }),
+    { pool: "solana" }
+  );
+  const inEscrow = held.value.some(
+    ({ account }) => (account.data as any)?.parsed?.info?.tokenAmount?.amount === "1"
+  );
+  if (!inEscrow) return { ok: false, error: "The source NFT is no longer in bridge escrow" };
+  return { ok: true };
+}
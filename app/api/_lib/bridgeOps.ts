@@ -0,0 +1,190 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { getMintJob, toPublicJob, type MintJob } from "./mintJobs";
+
+// Bridge operations: one per Trash Bridge run, from the escrow lock to the recorded mint.
+// /api/bridge/escrow opens one in the locking stage and /api/verify attaches the mint job
+// that follows the lock. Past that point the stage is read off the job:
+//   locking   - escrow transaction built, lock not yet handed to /api/verify
+//   verifying - payment and escrow lock being checked (job queued)
+//   minting   - remix being rendered, minted and recorded
+//   complete  - remix recorded in the bridge collection
+// A failed job fails the operation at the stage it reached; a job waiting to retry shows
+// as retrying with its attempt count. /api/bridge/ops/:id serves the view, or streams it.
+
+export type BridgeOpStage = "locking" | "verifying" | "minting" | "complete";
+
+export type BridgeOpStatus = "active" | "retrying" | "failed" | "complete";
+
+export type BridgeOp = {
+  id: string;
+  owner: string;
+  sourceMint: string;
+  escrowSignature?: string;
+  jobId?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BridgeOpView = {
+  id: string;
+  stage: BridgeOpStage;
+  status: BridgeOpStatus;
+  owner: string;
+  sourceMint: string;
+  escrowSignature: string | null;
+  jobId: string | null;
+  destMint: string | null;
+  error: string | null;
+  /** Set while the job waits to try its current step again. */
+  retry: { attempt: number; nextAttemptAt: string | null; detail?: string } | null;
+  paymentOwed: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+const OPS_PATH = process.env.BRIDGE_OPS_PATH || path.join(process.cwd(), "data", "bridge-ops.json");
+/** Finished operations, and those that never got past locking, are dropped after this long. */
+const OP_TTL_MS = 24 * 60 * 60 * 1000;
+
+function loadOps(): Record<string, BridgeOp> {
+  if (!fs.existsSync(OPS_PATH)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(OPS_PATH, "utf8"))?.ops || {};
+  } catch (e) {
+    // Operations only mirror mint jobs and the bridge ledger, so a bad file is set aside, not fatal.
+    console.error("[bridge-ops] ops file corrupted", e);
+    fs.renameSync(OPS_PATH, `${OPS_PATH}.corrupted.${Date.now()}`);
+    return {};
+  }
+}
+
+function saveOps(ops: Record<string, BridgeOp>) {
+  fs.mkdirSync(path.dirname(OPS_PATH), { recursive: true });
+  const tmpPath = `${OPS_PATH}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify({ ops }, null, 2));
+  fs.renameSync(tmpPath, OPS_PATH);
+}
+
+export function getBridgeOp(id: string): BridgeOp | null {
+  return loadOps()[id] || null;
+}
+
+/** Opens an operation in the locking stage, pruning old finished or abandoned ones. */
+export async function createBridgeOp(params: { owner: string; sourceMint: string }): Promise<BridgeOp> {
+  const ops = loadOps();
+  const cutoff = Date.now() - OP_TTL_MS;
+  for (const [id, op] of Object.entries(ops)) {
+    if (Date.parse(op.createdAt) >= cutoff) continue;
+    const job = op.jobId ? await getMintJob(op.jobId) : null;
+    if (!job || job.state === "recorded" || job.state === "failed") delete ops[id];
+  }
+  const now = new Date().toISOString();
+  const op: BridgeOp = {
+    id: crypto.randomBytes(12).toString("hex"),
+    owner: params.owner,
+    sourceMint: params.sourceMint,
+    createdAt: now,
+    updatedAt: now,
+  };
+  ops[op.id] = op;
+  saveOps(ops);
+  return op;
+}
+
+/**
+ * Links the mint job for this operation's lock. A retry after a failed job moves the
+ * operation onto the new job. Returns false when the operation is unknown, belongs to
+ * another owner or NFT, or already follows a different live job.
+ */
+export async function attachMintJob(
+  id: string,
+  params: { owner: string; sourceMint: string; escrowSignature: string; jobId: string }
+) {
+  const ops = loadOps();
+  const op = ops[id];
+  if (!op || op.owner !== params.owner || op.sourceMint !== params.sourceMint) return false;
+  if (op.jobId === params.jobId) return true;
+  if (op.jobId && (await getMintJob(op.jobId))?.state !== "failed") return false;
+  ops[id] = {
+    ...op,
+    escrowSignature: params.escrowSignature,
+    jobId: params.jobId,
+    updatedAt: new Date().toISOString(),
+  };
+  saveOps(ops);
+  return true;
+}
+
+function stageOf(job: MintJob): BridgeOpStage {
+  if (job.state === "recorded") return "complete";
+  if (job.state === "queued") return "verifying";
+  if (job.state === "failed") return job.verified ? "minting" : "verifying";
+  return "minting";
+}
+
+export async function toBridgeOpView(op: BridgeOp): Promise<BridgeOpView> {
+  const job = op.jobId ? await getMintJob(op.jobId) : null;
+  const base = {
+    id: op.id,
+    owner: op.owner,
+    sourceMint: op.sourceMint,
+    escrowSignature: op.escrowSignature ?? null,
+    jobId: op.jobId ?? null,
+    createdAt: op.createdAt,
+  };
+  if (!job) {
+    return {
+      ...base,
+      stage: "locking",
+      status: "active",
+      destMint: null,
+      error: null,
+      retry: null,
+      paymentOwed: false,
+      updatedAt: op.updatedAt,
+    };
+  }
+
+  const stage = stageOf(job);
+  const publicJob = toPublicJob(job);
+  let status: BridgeOpStatus = "active";
+  if (job.state === "failed") status = "failed";
+  else if (stage === "complete") status = "complete";
+  else if (job.attempts > 0) status = "retrying";
+  return {
+    ...base,
+    stage,
+    status,
+    destMint: job.mintedMint ?? null,
+    error: job.error ?? null,
+    retry:
+      status === "retrying"
+        ? {
+            attempt: job.attempts,
+            nextAttemptAt: job.nextAttemptAt ? new Date(job.nextAttemptAt).toISOString() : null,
+            detail: publicJob.detail,
+          }
+        : null,
+    paymentOwed: !!job.paymentOwed,
+    updatedAt: job.updatedAt > op.updatedAt ? job.updatedAt : op.updatedAt,
+  };
+}
+
+export function isBridgeOpFinished(view: BridgeOpView) {
+  return view.status === "complete" || view.status === "failed";
+}
+
+/** Unfinished operations per stage, for /api/bridge/health. */
+export async function bridgeQueueDepth(): Promise<Record<Exclude<BridgeOpStage, "complete">, number>> {
+  const depth = { locking: 0, verifying: 0, minting: 0 };
+  for (const op of Object.values(loadOps())) {
+    const view = await toBridgeOpView(op);
+    if (isBridgeOpFinished(view) || view.stage === "complete") continue;
+    // Abandoned locks linger until the next prune; they are not waiting on the server.
+    if (view.stage === "locking" && Date.parse(op.createdAt) < Date.now() - OP_TTL_MS) continue;
+    depth[view.stage] += 1;
+  }
+  return depth;
+}
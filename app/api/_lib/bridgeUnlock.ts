@@ -0,0 +1,203 @@
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createBurnCheckedInstruction,
+  createCloseAccountInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import { getLedgerStore, type BridgeEntry } from "./ledgerStore";
+import { loadKeypairFile } from "./keypairs";
+import { getConnection, hedgedRead } from "./rpcPool";
+import { sendResumable, serialLock } from "./resumableSend";
+import { BridgeError, balancesByOwner, bridgeEscrowWallet, findHolding, type EscrowCheck } from "./bridgeEscrow";
+
+// The way back over the Trash Bridge. The holder of a bridged remix burns it on Gorbagana
+// (/api/bridge/unlock builds that transaction), the server checks the burn, and the escrow
+// wallet sends the original back on Solana, signed with BRIDGE_ESCROW_KEYPAIR. The ledger
+// row goes locked → unlocking (burn checked, release owed) → unlocked. A lock that was
+// never paid for, or whose mint failed (locked-unminted, and no job holds the payment's
+// mint claim), has nothing to burn and goes back to the wallet that locked it. Releases
+// are sent like refunds, resumable across retries (see ./resumableSend).
+
+const withUnlockLock = serialLock();
+
+function loadEscrowKeypair() {
+  const file = process.env.BRIDGE_ESCROW_KEYPAIR;
+  if (!file) throw new BridgeError("BRIDGE_ESCROW_KEYPAIR is not configured", 500);
+  const keypair = loadKeypairFile("BRIDGE_ESCROW_KEYPAIR", file);
+  if (!keypair.publicKey.equals(bridgeEscrowWallet())) {
+    throw new BridgeError("BRIDGE_ESCROW_KEYPAIR does not match BRIDGE_ESCROW_WALLET", 500);
+  }
+  return keypair;
+}
+
+/** Bridge ledger fields safe to hand to the client. */
+export function toPublicBridge(entry: BridgeEntry) {
+  return {
+    sourceChain: entry.sourceChain,
+    sourceMint: entry.sourceMint,
+    escrowSignature: entry.escrowSignature,
+    destMint: entry.destMint,
+    status: entry.status,
+    burnSignature: entry.burnSignature ?? null,
+    releaseSignature: entry.releaseSignature ?? null,
+    unlockedAt: entry.unlockedAt ?? null,
+    createdAt: entry.createdAt,
+  };
+}
+
+async function getLockedBridge(escrowSignature: string) {
+  const entry = await getLedgerStore().getBridgeByEscrow(escrowSignature);
+  if (!entry) throw new BridgeError("No bridge mint for this escrow lock", 404);
+  return entry;
+}
+
+/**
+ * Unsigned Gorbagana transaction burning the bridged remix held by `owner` (and closing
+ * its token account), base64-encoded. Compressed remixes have no token account to burn.
+ */
+export async function buildBurnTransaction(owner: PublicKey, escrowSignature: string) {
+  const entry = await getLockedBridge(escrowSignature);
+  if (entry.status === "locked-unminted") throw new BridgeError("No remix was minted for this escrow lock", 409);
+  if (entry.status !== "locked") throw new BridgeError("This bridge mint is already being unlocked", 409);
+  const minted = await getLedgerStore().getMint(entry.signature!);
+  // Only bridge remixes minted before they were pinned to Token Metadata can be compressed.
+  if (minted?.mintStandard === "bubblegum") {
+    throw new BridgeError("Compressed bridge remixes cannot be unlocked yet", 409);
+  }
+
+  const mint = new PublicKey(entry.destMint!);
+  const holding = await findHolding(owner, mint, "gorbagana");
+  if (!holding) throw new BridgeError("This wallet does not hold the bridged remix", 403);
+  if (holding.frozen) throw new BridgeError("The bridged remix is frozen", 409);
+
+  const connection = getConnection();
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+  const tx = new Transaction({ feePayer: owner, blockhash, lastValidBlockHeight }).add(
+    createBurnCheckedInstruction(holding.address, mint, owner, 1, 0, [], holding.programId),
+    createCloseAccountInstruction(holding.address, owner, owner, [], holding.programId)
+  );
+  return {
+    transaction: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+    lastValidBlockHeight,
+  };
+}
+
+/**
+ * Checks that `burnSignature` took `destMint` out of `owner`'s wallet without crediting
+ * anyone else, and that the mint's supply is now zero.
+ */
+export async function checkRemixBurn(params: {
+  burnSignature: string;
+  destMint: string;
+  owner: string;
+}): Promise<EscrowCheck> {
+  const tx: any = await hedgedRead(
+    (connection) =>
+      connection.getParsedTransaction(params.burnSignature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      }),
+    { accept: (found) => !!found }
+  );
+  if (!tx) return { ok: false, error: "Burn transaction not found yet. Try again in a moment.", pending: true };
+  if (tx.meta?.err) return { ok: false, error: "Burn transaction failed" };
+
+  const before = balancesByOwner(tx.meta?.preTokenBalances, params.destMint);
+  const after = balancesByOwner(tx.meta?.postTokenBalances, params.destMint);
+  const total = (balances: Map<string, bigint>) =>
+    Array.from(balances.values()).reduce((sum, amount) => sum + amount, BigInt(0));
+  const fromOwner = (before.get(params.owner) ?? BigInt(0)) - (after.get(params.owner) ?? BigInt(0));
+  if (fromOwner !== BigInt(1) || total(before) - total(after) !== BigInt(1)) {
+    return { ok: false, error: "Burn transaction did not burn the bridged remix from this wallet" };
+  }
+
+  const info = await hedgedRead((connection) => connection.getParsedAccountInfo(new PublicKey(params.destMint)));
+  const supply = (info.value?.data as any)?.parsed?.info?.supply;
+  if (info.value && supply !== "0") return { ok: false, error: "The bridged remix still exists" };
+  return { ok: true };
+}
+
+/** Moves the original out of escrow to `entry.releaseTo`, or finishes a release already sent. */
+async function releaseFromEscrow(entry: BridgeEntry): Promise<BridgeEntry> {
+  const store = getLedgerStore();
+  const connection = getConnection(entry.sourceChain);
+  const done = async () => {
+    await store.updateBridge(entry.escrowSignature, { status: "unlocked", unlockedAt: new Date().toISOString() });
+    return (await store.getBridgeByEscrow(entry.escrowSignature))!;
+  };
+
+  const mint = new PublicKey(entry.sourceMint);
+  const receiver = new PublicKey(entry.releaseTo!);
+  const outcome = await sendResumable({
+    connection,
+    sent: { signature: entry.releaseSignature, lastValidBlockHeight: entry.releaseLastValidBlockHeight },
+    signer: loadEscrowKeypair,
+    build: async (escrow) => {
+      const holding = await findHolding(escrow, mint, entry.sourceChain);
+      if (!holding) {
+        // An earlier release can land without its status showing up; the receiver then holds it.
+        if (entry.releaseSignature && (await findHolding(receiver, mint, entry.sourceChain))) return null;
+        throw new BridgeError("The original is no longer in bridge escrow", 409);
+      }
+      const destination = getAssociatedTokenAddressSync(mint, receiver, true, holding.programId);
+      return [
+        createAssociatedTokenAccountIdempotentInstruction(escrow, destination, receiver, mint, holding.programId),
+        createTransferCheckedInstruction(holding.address, mint, destination, escrow, 1, 0, [], holding.programId),
+      ];
+    },
+    save: (releaseSignature, releaseLastValidBlockHeight) =>
+      store.updateBridge(entry.escrowSignature, { releaseSignature, releaseLastValidBlockHeight }),
+  });
+  if (outcome === "pending") return entry;
+  if (outcome === "failed") throw new BridgeError("Release transaction failed", 502);
+  return done();
+}
+
+/**
+ * Unlocks a bridge mint: checks `burnSignature` burned the remix from `owner` (moving the
+ * row to unlocking) and releases the original to `owner`. A lock never paid for, or whose
+ * mint failed, needs no burn and is released to the wallet that locked it. Calling again resumes a release
+ * that did not finish; only the wallet it is released to can do that.
+ */
+export function unlockBridge(params: {
+  escrowSignature: string;
+  owner: string;
+  burnSignature?: string;
+}): Promise<BridgeEntry> {
+  return withUnlockLock(async () => {
+    const store = getLedgerStore();
+    let entry = await getLockedBridge(params.escrowSignature);
+    if (entry.status === "unlocked") return entry;
+
+    if (entry.status === "locked-unminted") {
+      if (entry.owner !== params.owner) {
+        throw new BridgeError("Only the wallet that locked the original can reclaim it", 403);
+      }
+      if (entry.signature && ((await store.getMintClaim(entry.signature)) || (await store.getMint(entry.signature)))) {
+        throw new BridgeError("The remix for this escrow lock is still being minted", 409);
+      }
+      await store.updateBridge(entry.escrowSignature, { status: "unlocking", releaseTo: entry.owner });
+      entry = (await store.getBridgeByEscrow(entry.escrowSignature))!;
+    } else if (entry.status === "locked") {
+      if (!params.burnSignature) throw new BridgeError("Burn the bridged remix first", 409);
+      const burn = await checkRemixBurn({
+        burnSignature: params.burnSignature,
+        destMint: entry.destMint!,
+        owner: params.owner,
+      });
+      if (burn.ok === false) throw new BridgeError(burn.error, burn.pending ? 409 : 403);
+      await store.updateBridge(entry.escrowSignature, {
+        status: "unlocking",
+        burnSignature: params.burnSignature,
+        releaseTo: params.owner,
+      });
+      entry = (await store.getBridgeByEscrow(entry.escrowSignature))!;
+    } else if (entry.releaseTo !== params.owner) {
+      throw new BridgeError("This bridge mint is being unlocked by another wallet", 403);
+    }
+
+    return releaseFromEscrow(entry);
+  });
+}
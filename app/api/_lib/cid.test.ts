@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { computeCid, isCid } from "./cid";
+
+// Expected CIDs are what `ipfs add --cid-version 1` (Kubo's defaults: 256 KiB chunks, raw
+// leaves, balanced DAG of up to 174 links) gives for the same bytes.
+
+const CHUNK = 262_144;
+
+/** Deterministic bytes that differ from chunk to chunk. */
+function pattern(length: number) {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = i % 251;
+  return bytes;
+}
+
+describe("computeCid", () => {
+  it("matches Kubo for single-block files", () => {
+    expect(computeCid(new Uint8Array(0))).toBe("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+    expect(computeCid(new TextEncoder().encode("hello world"))).toBe(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+    );
+    expect(computeCid(pattern(CHUNK))).toBe("bafkreibruh455iawsviqslif5c7uurdcfdemh22mtnytyzvnzn75kpejxy");
+  });
+
+  it("matches Kubo once a file spans two chunks", () => {
+    expect(computeCid(pattern(CHUNK + 1))).toBe("bafybeiexg2oqkfnj56l7fcmawswqbijt5shq4b5rg6a546uwpkqqzwjioi");
+  });
+
+  it("matches Kubo once a file needs more than one level of links", () => {
+    expect(computeCid(pattern(CHUNK * 175 + 1))).toBe("bafybeihzhgkxa5ea4r5cr73r73tsf3ppwpstcxnsuyqxio3vy7xpikkhmi");
+  });
+});
+
+describe("isCid", () => {
+  it("accepts base32 CIDv1 and rejects anything else", () => {
+    expect(isCid(computeCid(new Uint8Array(0)))).toBe(true);
+    expect(isCid("QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u")).toBe(false);
+    expect(isCid("https://example.com/metadata.json")).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+
+// IPFS CIDs computed locally, matching what Kubo and Pinata produce for a single file
+// added with CIDv1: 256 KiB chunks stored as raw leaves, joined by a balanced UnixFS
+// DAG (at most 174 links per node) when there is more than one chunk. Uploads are
+// checked against this, so a gateway that stored something else is caught.
+
+const CHUNK_SIZE = 262_144;
+const MAX_LINKS = 174;
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const SHA2_256 = 0x12;
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function varint(n: number) {
+  const out: number[] = [];
+  while (n >= 0x80) {
+    out.push((n % 0x80) | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  out.push(n);
+  return Uint8Array.from(out);
+}
+
+function field(fieldNo: number, wireType: 0 | 2, value: number | Uint8Array) {
+  const key = varint((fieldNo << 3) | wireType);
+  if (typeof value === "number") return concat([key, varint(value)]);
+  return concat([key, varint(value.length), value]);
+}
+
+function cidBytes(codec: number, block: Uint8Array) {
+  const digest = new Uint8Array(crypto.createHash("sha256").update(block).digest());
+  return concat([varint(1), varint(codec), varint(SHA2_256), varint(digest.length), digest]);
+}
+
+const BASE32 = "abcdefghijklmnopqrstuvwxyz234567";
+
+function base32(bytes: Uint8Array) {
+  let out = "";
+  let bits = 0;
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = ((value << 8) | bytes[i]) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+type DagNode = { cid: Uint8Array; fileSize: number; blockTotal: number };
+
+function parentNode(children: DagNode[]): DagNode {
+  // dag-pb puts Links (field 2) before Data (field 1).
+  const links = children.map((child) =>
+    field(2, 2, concat([field(1, 2, child.cid), field(2, 2, new Uint8Array(0)), field(3, 0, child.blockTotal)]))
+  );
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const unixfs = concat([
+    field(1, 0, 2), // Type: File
+    field(3, 0, fileSize),
+    ...children.map((child) => field(4, 0, child.fileSize)),
+  ]);
+  const block = concat([...links, field(1, 2, unixfs)]);
+  return {
+    cid: cidBytes(CODEC_DAG_PB, block),
+    fileSize,
+    blockTotal: block.length + children.reduce((sum, child) => sum + child.blockTotal, 0),
+  };
+}
+
+/** The CIDv1 (base32) IPFS assigns to `bytes` added as a single file. */
+export function computeCid(bytes: Uint8Array) {
+  let level: DagNode[] = [];
+  for (let offset = 0; offset < bytes.length || level.length === 0; offset += CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + CHUNK_SIZE);
+    level.push({ cid: cidBytes(CODEC_RAW, chunk), fileSize: chunk.length, blockTotal: chunk.length });
+  }
+  while (level.length > 1) {
+    const next: DagNode[] = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS) next.push(parentNode(level.slice(i, i + MAX_LINKS)));
+    level = next;
+  }
+  return `b${base32(level[0].cid)}`;
+}
+
+export function isCid(value: string) {
+  return /^b[a-z2-7]{50,100}$/.test(value);
+}
@@ -0,0 +1,73 @@
+import fs from "fs";
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { lookupSourceNft, type SourceNft } from "./sourceNft";
+
+// Which NFTs may be fed into the factory. Operators allow sources by any of:
+//   ELIGIBLE_COLLECTIONS    - verified collection mints (comma-separated)
+//   ELIGIBLE_CREATORS       - verified creator addresses (comma-separated)
+//   ELIGIBLE_MINTS          - individual mints (comma-separated)
+//   ELIGIBLE_MINT_LIST_PATH - a file of mints, as a JSON array or one per line
+// A source matching any rule is eligible. With no rules set every NFT is.
+// Unverified collections and creators never count: anyone can claim them.
+
+export type Eligibility = { eligible: true } | { eligible: false; reason: string };
+
+function readAddressList(name: string, raw: string) {
+  const list = raw
+    .split(/[\s,]+/)
+    .map((value) => value.trim())
+    .filter(Boolean);
+  for (const value of list) {
+    try {
+      new PublicKey(value);
+    } catch {
+      throw new Error(`Invalid ${name} configuration: ${value} is not an address`);
+    }
+  }
+  return new Set(list);
+}
+
+function readMintListFile(filePath: string) {
+  const raw = fs.readFileSync(filePath, "utf8").trim();
+  if (!raw.startsWith("[")) return raw;
+  try {
+    return (JSON.parse(raw) as unknown[]).map(String).join(",");
+  } catch {
+    throw new Error("Invalid ELIGIBLE_MINT_LIST_PATH configuration: not a JSON array");
+  }
+}
+
+const COLLECTIONS = readAddressList("ELIGIBLE_COLLECTIONS", process.env.ELIGIBLE_COLLECTIONS || "");
+const CREATORS = readAddressList("ELIGIBLE_CREATORS", process.env.ELIGIBLE_CREATORS || "");
+const MINT_LIST_PATH = process.env.ELIGIBLE_MINT_LIST_PATH || "";
+const MINTS = readAddressList(
+  "ELIGIBLE_MINTS",
+  `${process.env.ELIGIBLE_MINTS || ""},${MINT_LIST_PATH ? readMintListFile(MINT_LIST_PATH) : ""}`
+);
+
+const GATED = COLLECTIONS.size > 0 || CREATORS.size > 0 || MINTS.size > 0;
+
+/** Whether any eligibility rule is configured. */
+export function isEligibilityGated() {
+  return GATED;
+}
+
+/** Checks a source against the rules; `source` is null when the mint has no metadata. */
+export function checkEligibility(mint: string, source: SourceNft | null): Eligibility {
+  if (!GATED || MINTS.has(mint)) return { eligible: true };
+  if (!source) return { eligible: false, reason: "No NFT metadata found for this token." };
+
+  const inCollection = !!source.collectionMint && COLLECTIONS.has(source.collectionMint);
+  if (inCollection && source.collectionVerified) return { eligible: true };
+  if (source.creators.some((c) => c.verified && CREATORS.has(c.address))) return { eligible: true };
+  if (inCollection) {
+    return { eligible: false, reason: "Collection membership is not verified on-chain." };
+  }
+  return { eligible: false, reason: "This NFT is not from an eligible collection." };
+}
+
+/** Looks the mint up on-chain and checks it. RPC failures are thrown, not reported as ineligible. */
+export async function checkMintEligibility(connection: Connection, mint: PublicKey): Promise<Eligibility> {
+  if (!GATED || MINTS.has(mint.toBase58())) return { eligible: true };
+  return checkEligibility(mint.toBase58(), await lookupSourceNft(connection, mint));
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+type Fairness = typeof import("./fairness");
+
+let fairness: Fairness;
+
+const DAY = 86_400_000;
+
+beforeAll(async () => {
+  vi.stubEnv("ROLL_SECRET", "r".repeat(48));
+  vi.stubEnv("FAIRNESS_EPOCH_SECONDS", "86400");
+  fairness = await import("./fairness");
+});
+
+describe("epochs", () => {
+  it("keeps an epoch's secret until it ends, and it matches the commitment", () => {
+    const epoch = fairness.epochAt(Date.now());
+    const { endsAt } = fairness.epochBounds(epoch);
+    expect(fairness.revealedEpochSecret(epoch, endsAt - 1)).toBeNull();
+    const secret = fairness.revealedEpochSecret(epoch, endsAt);
+    expect(crypto.createHash("sha256").update(secret!).digest("hex")).toBe(fairness.epochCommitment(epoch));
+    expect(fairness.epochCommitment(epoch + 1)).not.toBe(fairness.epochCommitment(epoch));
+  });
+});
+
+describe("tierForRoll", () => {
+  it("walks the machine's odds from tier1 up", () => {
+    // CONVEYOR: 0.78 / 0.17 / 0.04 / 0.009 / 0.001
+    expect(fairness.tierForRoll("CONVEYOR", 0, [])).toBe("tier1");
+    expect(fairness.tierForRoll("CONVEYOR", 0.77, [])).toBe("tier1");
+    expect(fairness.tierForRoll("CONVEYOR", 0.79, [])).toBe("tier2");
+    expect(fairness.tierForRoll("CONVEYOR", 0.96, [])).toBe("tier3");
+    expect(fairness.tierForRoll("CONVEYOR", 0.995, [])).toBe("tier4");
+    expect(fairness.tierForRoll("CONVEYOR", 1, [])).toBe("tier5");
+  });
+
+  it("gives sold-out tiers no weight", () => {
+    // Without tier1 the remaining 0.22 is spread over the roll.
+    expect(fairness.tierForRoll("CONVEYOR", 0, ["tier1"])).toBe("tier2");
+    expect(fairness.tierForRoll("CONVEYOR", 0.77, ["tier1"])).toBe("tier2");
+    expect(fairness.tierForRoll("CONVEYOR", 0.8, ["tier1"])).toBe("tier3");
+    expect(() => fairness.tierForRoll("CONVEYOR", 0.5, ["tier1", "tier2", "tier3", "tier4", "tier5"])).toThrow(
+      "All tiers are sold out."
+    );
+  });
+});
+
+describe("tier schemes", () => {
+  it("rolls scheme 1 over three tiers with the legacy odds", () => {
+    // CONVEYOR legacyOdds: 0.8 / 0.18 / 0.02
+    expect(fairness.tierForRoll("CONVEYOR", 0.79, [], 1)).toBe("tier1");
+    expect(fairness.tierForRoll("CONVEYOR", 0.97, [], 1)).toBe("tier2");
+    expect(fairness.tierForRoll("CONVEYOR", 1, [], 1)).toBe("tier3");
+  });
+
+  it("rolls new payments under scheme 2", () => {
+    const rolled = fairness.rollTier("CONVEYOR", "sig-a", Date.now(), []);
+    expect(rolled.tierScheme).toBe(2);
+    expect(fairness.tierForRoll("CONVEYOR", 1, [], rolled.tierScheme)).toBe("tier5");
+  });
+});
+
+describe("BASE_ODDS", () => {
+  it("rolls every catalog machine with its catalog odds", async () => {
+    const { MACHINES } = await import("../../_lib/machineCatalog");
+    for (const machine of MACHINES) {
+      expect(fairness.BASE_ODDS[machine.id]).toEqual(machine.odds);
+      const total = Object.values(machine.odds).reduce((sum, p) => sum + p, 0);
+      expect(total).toBeCloseTo(1, 9);
+    }
+  });
+});
+
+describe("rollTier", () => {
+  it("can be recomputed from the revealed secret of the epoch the payment falls in", () => {
+    const paidAt = Date.now() - 2 * DAY;
+    const rolled = fairness.rollTier("HAZMAT", "sig-a", paidAt, []);
+    expect(rolled.epoch).toBe(fairness.epochAt(paidAt));
+    const secret = fairness.revealedEpochSecret(rolled.epoch)!;
+    const roll = fairness.rollValue("sig-a", "HAZMAT", secret);
+    expect(roll).toBeGreaterThanOrEqual(0);
+    expect(roll).toBeLessThanOrEqual(1);
+    expect(fairness.tierForRoll("HAZMAT", roll, [])).toBe(rolled.tier);
+  });
+
+  it("rolls differently per payment and machine", () => {
+    const secret = fairness.revealedEpochSecret(fairness.epochAt(Date.now() - 2 * DAY))!;
+    const rolls = new Set([
+      fairness.rollValue("sig-a", "CONVEYOR", secret),
+      fairness.rollValue("sig-b", "CONVEYOR", secret),
+      fairness.rollValue("sig-a", "HAZMAT", secret),
+    ]);
+    expect(rolls.size).toBe(3);
+  });
+});
+
+describe("pickEffectFromTier", () => {
+  it("picks the same effect for the same payment", () => {
+    const effect = fairness.pickEffectFromTier("tier3", "sig-a");
+    expect(effect.tier).toBe("tier3");
+    expect(fairness.pickEffectFromTier("tier3", "sig-a")).toEqual(effect);
+  });
+});
@@ -0,0 +1,122 @@
+import crypto from "crypto";
+import type { Machine, TierId } from "./ledgerStore";
+import type { RemixEffect } from "./remixRenderer";
+import { EFFECT_POOLS, MACHINES, getMachine, oddsForScheme } from "../../_lib/machineCatalog";
+import { TIER_SCHEME, tierIdsForScheme } from "../../_lib/tiers";
+
+// Provably fair rolls. Time is split into epochs of FAIRNESS_EPOCH_SECONDS. Each epoch
+// has its own secret, derived from ROLL_SECRET, and sha256(secret) is published by
+// /api/fairness before the epoch starts. A payment rolls with the secret of the epoch
+// its block time falls in; once that epoch is over the secret is revealed, so anyone can
+// recompute the roll with /api/fairness/verify or by hand.
+//
+// Changing FAIRNESS_EPOCH_SECONDS moves every epoch boundary; pick it once.
+
+export const BASE_ODDS: Record<Machine, Record<TierId, number>> = Object.fromEntries(
+  MACHINES.map((m) => [m.id, m.odds])
+);
+
+/** Odds scheme-1 (three-tier) mints were rolled with, for machines that had them. */
+export const LEGACY_ODDS: Record<Machine, Partial<Record<TierId, number>>> = Object.fromEntries(
+  MACHINES.filter((m) => m.legacyOdds).map((m) => [m.id, m.legacyOdds!])
+);
+
+export const FAIRNESS_FORMULA = {
+  commitment: "sha256(hex(epochSecret))",
+  roll: "u32be(sha256(signature + '|' + machine + '|' + hex(epochSecret))[0..4]) / 0xffffffff",
+  tier: "walk tier1→tier5 (tier1→tier3 with legacyOdds for tier scheme 1) adding base odds (sold-out tiers weigh 0) until the sum exceeds roll * total",
+  effect: "pool[u32be(sha256(trait + '|' + signature)[0..4]) % pool.length] for trait in effect, texture, glow, edge",
+};
+
+const ROLL_SECRET = process.env.ROLL_SECRET || "";
+const EPOCH_SECONDS = Number(process.env.FAIRNESS_EPOCH_SECONDS ?? 86400);
+
+if (
+  !ROLL_SECRET ||
+  ROLL_SECRET === "change-me" ||
+  ROLL_SECRET === "CHANGE_ME_TO_A_LONG_RANDOM_SECRET" ||
+  ROLL_SECRET.length < 32
+) {
+  throw new Error("ROLL_SECRET must be set to a strong random value");
+}
+if (!Number.isInteger(EPOCH_SECONDS) || EPOCH_SECONDS < 60) {
+  throw new Error("Invalid FAIRNESS_EPOCH_SECONDS configuration");
+}
+
+export function epochAt(timeMs: number) {
+  return Math.floor(timeMs / (EPOCH_SECONDS * 1000));
+}
+
+export function epochBounds(epoch: number) {
+  const startsAt = epoch * EPOCH_SECONDS * 1000;
+  return { startsAt, endsAt: startsAt + EPOCH_SECONDS * 1000 };
+}
+
+function epochSecret(epoch: number) {
+  return crypto.createHmac("sha256", ROLL_SECRET).update(`fairness-epoch:${epoch}`).digest("hex");
+}
+
+export function epochCommitment(epoch: number) {
+  return crypto.createHash("sha256").update(epochSecret(epoch)).digest("hex");
+}
+
+/** The epoch secret, or null while the epoch is still running (or in the future). */
+export function revealedEpochSecret(epoch: number, now = Date.now()) {
+  return epochBounds(epoch).endsAt <= now ? epochSecret(epoch) : null;
+}
+
+/** Public view of an epoch: its commitment, plus the secret once it has ended. */
+export function describeEpoch(epoch: number, now = Date.now()) {
+  const { startsAt, endsAt } = epochBounds(epoch);
+  return {
+    epoch,
+    startsAt,
+    endsAt,
+    commitment: epochCommitment(epoch),
+    secret: revealedEpochSecret(epoch, now),
+  };
+}
+
+/** The uniform [0, 1] draw for a payment; `secret` is the hex epoch secret. */
+export function rollValue(signature: string, machine: Machine, secret: string) {
+  const h = crypto.createHash("sha256").update(signature + "|" + machine + "|" + secret).digest();
+  return h.readUInt32BE(0) / 0xffffffff;
+}
+
+/** `scheme` is the tier scheme the roll was made under (see app/_lib/tiers). */
+export function tierForRoll(machine: Machine, roll: number, soldOut: TierId[], scheme = TIER_SCHEME): TierId {
+  const base = oddsForScheme(getMachine(machine), scheme);
+  if (!base) throw new Error(`No tier scheme ${scheme} odds for ${machine}`);
+  const order = tierIdsForScheme(scheme);
+  const weights = order.map((tier) => (soldOut.includes(tier) ? 0 : base[tier] ?? 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) throw new Error("All tiers are sold out.");
+  const r = roll * total;
+  let acc = 0;
+  for (let i = 0; i < order.length; i++) {
+    acc += weights[i];
+    if (r < acc) return order[i];
+  }
+  return order[order.length - 1];
+}
+
+/** Rolls a payment's tier, under the current tier scheme, with the secret of the epoch it was paid in. */
+export function rollTier(machine: Machine, signature: string, paidAt: number, soldOut: TierId[]) {
+  const epoch = epochAt(paidAt);
+  const tier = tierForRoll(machine, rollValue(signature, machine, epochSecret(epoch)), soldOut, TIER_SCHEME);
+  return { epoch, tier, tierScheme: TIER_SCHEME };
+}
+
+export function pickEffectFromTier(tier: TierId, signature: string): RemixEffect {
+  const pick = (key: string, arr: string[]) => {
+    const h = crypto.createHash("sha256").update(key + "|" + signature).digest();
+    const idx = h.readUInt32BE(0) % arr.length;
+    return arr[idx];
+  };
+
+  const primary = pick("effect", EFFECT_POOLS.primary[tier]);
+  const texture = pick("texture", EFFECT_POOLS.texture);
+  const glow = pick("glow", EFFECT_POOLS.glow);
+  const edge = pick("edge", EFFECT_POOLS.edge);
+  return { tier, primary, texture, glow, edge };
+}
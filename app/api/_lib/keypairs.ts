@@ -0,0 +1,21 @@
+import fs from "fs";
+import path from "path";
+import { Keypair } from "@solana/web3.js";
+
+const cache = new Map<string, Keypair>();
+
+/** Loads a JSON secret-key file; only paths under the app root or /etc/secrets are allowed. */
+export function loadKeypairFile(envName: string, filePath: string) {
+  const resolved = path.resolve(filePath);
+  const cached = cache.get(resolved);
+  if (cached) return cached;
+  const allowedRoots = [path.resolve(process.cwd()), "/etc/secrets"];
+  const isAllowed = allowedRoots.some((root) => resolved === root || resolved.startsWith(root + path.sep));
+  if (!isAllowed) throw new Error(`${envName} path outside allowed roots`);
+  const raw = fs.readFileSync(resolved, "utf8");
+  const arr = JSON.parse(raw);
+  if (!Array.isArray(arr)) throw new Error(`Invalid ${envName} keypair file`);
+  const keypair = Keypair.fromSecretKey(Uint8Array.from(arr));
+  cache.set(resolved, keypair);
+  return keypair;
+}
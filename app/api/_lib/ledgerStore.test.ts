@@ -0,0 +1,222 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { LedgerEntry, LedgerStore } from "./ledgerStore";
+
+// The file and SQLite backends; Supabase runs the same logic in supabase/ledger.sql.
+
+let dir: string;
+
+async function openStore(backend: "file" | "sqlite"): Promise<LedgerStore> {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "ledger-store-"));
+  vi.resetModules();
+  delete (globalThis as any).__gorbageLedgerStore;
+  vi.stubEnv("LEDGER_BACKEND", backend);
+  vi.stubEnv("REMIX_LEDGER_PATH", path.join(dir, "ledger.json"));
+  vi.stubEnv("LEDGER_SQLITE_PATH", path.join(dir, "ledger.sqlite"));
+  const { getLedgerStore } = await import("./ledgerStore");
+  return getLedgerStore();
+}
+
+function minted(signature: string, quoteId: string): LedgerEntry {
+  return {
+    originalMint: `original-${signature}`,
+    mintedMint: `remix-${signature}`,
+    signature,
+    payer: "payer",
+    machine: "CONVEYOR",
+    tier: "tier1",
+    quoteId,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  delete (globalThis as any).__gorbageLedgerStore;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe.each(["file", "sqlite"] as const)("%s ledger", (backend) => {
+  let store: LedgerStore;
+
+  beforeEach(async () => {
+    store = await openStore(backend);
+  });
+
+  describe("reserveTierSlot", () => {
+    it("reserves up to the cap and hands a re-reserving payment its own slot", async () => {
+      expect(await store.reserveTierSlot({ id: "sig-a", tier: "tier5", cap: 2 })).toBe("tier5");
+      expect(await store.reserveTierSlot({ id: "sig-b", tier: "tier5", cap: 2 })).toBe("tier5");
+      expect(await store.reserveTierSlot({ id: "sig-c", tier: "tier5", cap: 2 })).toBeNull();
+      expect(await store.reserveTierSlot({ id: "sig-a", tier: "tier4", cap: 2 })).toBe("tier5");
+      expect((await store.getTierCounts({ includeReserved: true })).tier5).toBe(2);
+      expect((await store.getTierCounts()).tier5).toBe(0);
+    });
+
+    it("frees a slot when it is released", async () => {
+      await store.reserveTierSlot({ id: "sig-a", tier: "tier5", cap: 1 });
+      await store.releaseTierSlot("sig-a");
+      expect(await store.reserveTierSlot({ id: "sig-b", tier: "tier5", cap: 1 })).toBe("tier5");
+    });
+
+    it("turns the reservation into the minted row", async () => {
+      await store.reserveTierSlot({ id: "sig-a", tier: "tier5", cap: 1 });
+      await store.recordMint({ ...minted("sig-a", "quote-a"), tier: "tier5" }, { mintNumber: 1 });
+      expect((await store.getTierCounts({ includeReserved: true })).tier5).toBe(1);
+      expect(await store.reserveTierSlot({ id: "sig-b", tier: "tier5", cap: 1 })).toBeNull();
+    });
+  });
+
+  describe("claimMint", () => {
+    it("hands out increasing mint numbers and the same claim to the same job", async () => {
+      const a = await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" });
+      const b = await store.claimMint({ signature: "sig-b", jobId: "job-b", quoteId: "quote-b" });
+      expect(a).toEqual({ ok: true, claim: { signature: "sig-a", jobId: "job-a", quoteId: "quote-a", mintNumber: 1 } });
+      expect(b.ok && b.claim.mintNumber).toBe(2);
+      expect(await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" })).toEqual(a);
+    });
+
+    it("refuses a payment another job holds", async () => {
+      await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" });
+      expect(await store.claimMint({ signature: "sig-a", jobId: "job-b", quoteId: "quote-a" })).toEqual({
+        ok: false,
+        conflict: "payment",
+      });
+    });
+
+    it("refuses a second payment on a claimed quote", async () => {
+      await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" });
+      expect(await store.claimMint({ signature: "sig-b", jobId: "job-b", quoteId: "quote-a" })).toEqual({
+        ok: false,
+        conflict: "quote",
+      });
+    });
+
+    it("refuses a quote that was already minted", async () => {
+      await store.recordMint(minted("sig-a", "quote-a"), { mintNumber: 1 });
+      expect(await store.claimMint({ signature: "sig-b", jobId: "job-b", quoteId: "quote-a" })).toEqual({
+        ok: false,
+        conflict: "quote",
+      });
+    });
+
+    it("keeps numbers above recorded mints and never reuses a recorded claim's number", async () => {
+      const a = await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" });
+      await store.recordMint(minted("sig-a", "quote-a"), { mintNumber: a.ok ? a.claim.mintNumber : 0 });
+      const b = await store.claimMint({ signature: "sig-b", jobId: "job-b", quoteId: "quote-b" });
+      expect(b.ok && b.claim.mintNumber).toBe(2);
+    });
+
+    it("frees the payment and quote when the holding job releases them", async () => {
+      await store.claimMint({ signature: "sig-a", jobId: "job-a", quoteId: "quote-a" });
+      await store.releaseMintClaim("sig-a", "job-other");
+      expect(await store.getMintClaim("sig-a")).not.toBeNull();
+      await store.releaseMintClaim("sig-a", "job-a");
+      expect(await store.getMintClaim("sig-a")).toBeNull();
+      const retried = await store.claimMint({ signature: "sig-b", jobId: "job-b", quoteId: "quote-a" });
+      expect(retried.ok).toBe(true);
+    });
+  });
+
+  describe("claimRefund", () => {
+    beforeEach(async () => {
+      await store.recordOwedPayment({
+        signature: "sig-a",
+        payer: "payer",
+        originalMint: "mint",
+        machine: "CONVEYOR",
+        quoteId: "quote-a",
+        amountLamports: "1000",
+        reason: "mint failed",
+      });
+    });
+
+    it("lets one holder send a refund at a time", async () => {
+      expect(await store.claimRefund("sig-a", "instance-1", Date.now() + 60_000)).toBe(true);
+      expect(await store.claimRefund("sig-a", "instance-2", Date.now() + 60_000)).toBe(false);
+      await store.releaseRefund("sig-a", "instance-2");
+      expect(await store.claimRefund("sig-a", "instance-2", Date.now() + 60_000)).toBe(false);
+      await store.releaseRefund("sig-a", "instance-1");
+      expect(await store.claimRefund("sig-a", "instance-2", Date.now() + 60_000)).toBe(true);
+    });
+
+    it("hands the refund on once a claim runs out, and never claims a refunded payment", async () => {
+      await store.claimRefund("sig-a", "instance-1", Date.now() - 1);
+      expect(await store.claimRefund("sig-a", "instance-2", Date.now() + 60_000)).toBe(true);
+      await store.updateOwedPayment("sig-a", { status: "refunded" });
+      expect(await store.claimRefund("sig-a", "instance-2", Date.now() + 60_000)).toBe(false);
+      expect(await store.claimRefund("unknown", "instance-2", Date.now() + 60_000)).toBe(false);
+    });
+  });
+
+  describe("mint jobs", () => {
+    function job(id: string, signature: string, createdAt = Date.now()) {
+      const now = new Date(createdAt).toISOString();
+      return {
+        id,
+        state: "queued" as const,
+        request: { signature, payer: "payer", machine: "CONVEYOR" as const, originalMint: "mint", quoteToken: "token" },
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+    }
+
+    it("keeps one live job per payment", async () => {
+      const first = await store.insertMintJob(job("job-a", "sig-a"));
+      expect(await store.insertMintJob(job("job-b", "sig-a"))).toEqual(first);
+      await store.leaseMintJob("job-a", "worker", Date.now() + 60_000);
+      await store.saveMintJob({ ...first, state: "failed" }, "worker");
+      expect((await store.insertMintJob(job("job-b", "sig-a", Date.now() + 1_000))).id).toBe("job-b");
+      expect((await store.findMintJobBySignature("sig-a"))?.id).toBe("job-b");
+      expect((await store.listOpenMintJobs()).map((open) => open.id)).toEqual(["job-b"]);
+    });
+
+    it("lets only the lease holder write a job back", async () => {
+      const queued = await store.insertMintJob(job("job-a", "sig-a"));
+      expect(await store.leaseMintJob("job-a", "worker-1", Date.now() + 60_000)).toMatchObject({
+        id: "job-a",
+        leaseHolder: "worker-1",
+      });
+      expect(await store.leaseMintJob("job-a", "worker-2", Date.now() + 60_000)).toBeNull();
+      expect(await store.saveMintJob({ ...queued, attempts: 1 }, "worker-2")).toBe(false);
+      expect(await store.saveMintJob({ ...queued, attempts: 1 }, "worker-1")).toBe(true);
+      const saved = await store.getMintJob("job-a");
+      expect(saved?.attempts).toBe(1);
+      expect(saved?.leaseHolder).toBeUndefined();
+    });
+
+    it("hands a job on once its lease runs out", async () => {
+      await store.insertMintJob(job("job-a", "sig-a"));
+      await store.leaseMintJob("job-a", "worker-1", Date.now() - 1);
+      expect(await store.leaseMintJob("job-a", "worker-2", Date.now() + 60_000)).not.toBeNull();
+    });
+  });
+
+  describe("recordBridge", () => {
+    const lock = {
+      sourceChain: "solana" as const,
+      sourceMint: "source",
+      escrowSignature: "escrow-a",
+      owner: "owner",
+      createdAt: new Date().toISOString(),
+    };
+
+    it("records a lock before it is paid for and hands it to the first payment", async () => {
+      await store.recordBridge({ ...lock, signature: null });
+      expect(await store.getBridgeByEscrow("escrow-a")).toMatchObject({ signature: null, status: "locked-unminted" });
+      await store.recordBridge({ ...lock, signature: "sig-a" });
+      await store.recordBridge({ ...lock, signature: "sig-b" });
+      expect(await store.getBridgeByEscrow("escrow-a")).toMatchObject({ signature: "sig-a", destMint: null });
+    });
+
+    it("keeps a reclaimed lock from being paid for", async () => {
+      await store.recordBridge({ ...lock, signature: null });
+      await store.updateBridge("escrow-a", { status: "unlocking", releaseTo: "owner" });
+      await store.recordBridge({ ...lock, signature: "sig-a" });
+      expect(await store.getBridgeByEscrow("escrow-a")).toMatchObject({ signature: null, status: "unlocking" });
+    });
+  });
+});
@@ -0,0 +1,1796 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import type { MachineId } from "../../_lib/machineCatalog";
+import { LEGACY_TIER_SCHEME, TIER_IDS, type TierId } from "../../_lib/tiers";
+import type { MintStandard } from "./mintStandards";
+import type { BridgeSourceChain } from "./bridgeEscrow";
+import type { MintJob } from "./mintJobs";
+
+// The remix ledger: one row per remix (keyed by payment signature, so an original can
+// appear many times), which quotes were consumed, tier supply, and the collection mint. Every route reads it through
+// getLedgerStore() so supply, quotes and minting all see the same backend.
+//
+// LEDGER_BACKEND selects the backend: "file" (JSON at REMIX_LEDGER_PATH), "sqlite"
+// (LEDGER_SQLITE_PATH) or "supabase". It defaults to supabase when SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are set, otherwise file.
+//
+// Tier supply is enforced here rather than in the mint route: a mint first reserves a
+// slot (reserveTierSlot), and recordMint turns that reservation into a minted row. The
+// reserve is atomic in every backend, so a cap holds across processes and replicas.
+//
+// Each payment is minted by the one job that claims it (claimMint), together with its
+// quote, and the claim hands out the remix's mint number. Claims are atomic in every
+// backend too, so instances that share the ledger neither mint a payment or a quote
+// twice nor give two remixes the same number.
+//
+// Payments that were verified but could not be turned into a mint are kept as owed
+// payments until refunded (see ./refunds); their signatures can no longer mint.
+//
+// Issued quotes and indexer cursors back the treasury indexer (./treasuryIndexer), which
+// mints for payments whose browser never called /api/verify.
+//
+// The bridge ledger pairs each Trash Bridge mint with the source NFT locked in escrow on
+// the other chain (see ./bridgeEscrow); one row per escrow lock. The row is written as
+// locked-unminted once the lock confirms, so the original can be reclaimed if it is never
+// paid for, takes the payment's signature when the payment is verified, so the lock
+// cannot back a second mint, and becomes locked once the remix is minted. It moves to
+// unlocking once the remix is burned (or, for a mint that failed, straight away) and to
+// unlocked when the original is back.
+//
+// Mint jobs (see ./mintJobs) are kept here too, so every instance can report on and
+// resume them. A worker leases a job while it runs a step, so only one advances it.
+
+/** A machine id from the catalog in app/_lib/machineCatalog. */
+export type Machine = MachineId;
+export type { TierId };
+export type TierCounts = Record<TierId, number>;
+
+export type LedgerEntry = {
+  originalMint: string;
+  mintedMint: string;
+  signature: string;
+  payer: string;
+  machine: Machine;
+  tier: TierId;
+  quoteId?: string;
+  /** Base units of the payment currency: lamports, or units of `paymentMint`. */
+  amountLamports?: string;
+  /** SPL token the payment was made in; missing for native $GOR. */
+  paymentMint?: string;
+  /**
+   * What `mintedMint` is: a Token Metadata mint, a Core asset or a compressed NFT's asset
+   * id (see ./mintStandards). Entries from before the choice existed read back as token-metadata.
+   */
+  mintStandard?: MintStandard;
+  /** Fairness epoch of the roll and tiers sold out when it ran (see ./fairness). */
+  rollEpoch?: number;
+  soldOutTiers?: TierId[];
+  /**
+   * Tier scheme the roll was made under (see app/_lib/tiers). Entries written before
+   * the five-tier switch have none and are read back as LEGACY_TIER_SCHEME.
+   */
+  tierScheme?: number;
+  createdAt: string;
+};
+
+export type LedgerState = {
+  mintCount: number;
+  collectionMint: string | null;
+  /** Collection that Trash Bridge remixes are minted into. */
+  bridgeCollectionMint: string | null;
+  lastMintCostLamports: string | null;
+};
+
+export type TierReservation = {
+  /** One reservation per payment; the payment signature is used as the id. */
+  id: string;
+  tier: TierId;
+  cap: number;
+};
+
+/** A payment taken on by one mint job, with the quote it pays and the mint number its remix gets. */
+export type MintClaim = { signature: string; jobId: string; quoteId: string; mintNumber: number };
+
+/** The claim, or what holds it back: another job's claim on the payment, or on its quote. */
+export type MintClaimResult = { ok: true; claim: MintClaim } | { ok: false; conflict: "payment" | "quote" };
+
+export type RefundStatus = "owed" | "refunding" | "refunded";
+
+export type OwedPayment = {
+  signature: string;
+  payer: string;
+  originalMint: string;
+  machine: Machine;
+  quoteId: string;
+  amountLamports: string;
+  /** SPL token to refund in; missing for native $GOR. */
+  paymentMint?: string;
+  reason: string;
+  status: RefundStatus;
+  refundSignature?: string;
+  /** Block height after which an unconfirmed refund transaction can no longer land. */
+  refundLastValidBlockHeight?: number;
+  refundedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** A quote as issued by /api/run, kept so a payment found on-chain can be matched to it. */
+export type IssuedQuote = {
+  quoteId: string;
+  /** The signed quote token (see ./quotes). */
+  token: string;
+  payer: string;
+  expiresAt: number;
+};
+
+export type BridgeStatus = "locked-unminted" | "locked" | "unlocking" | "unlocked";
+
+/** A Trash Bridge mint: the source NFT locked on `sourceChain` and the remix minted for it. */
+export type BridgeEntry = {
+  /** Gorbagana payment signature of the remix, as in the mint ledger; null until it is paid for. */
+  signature: string | null;
+  sourceChain: BridgeSourceChain;
+  sourceMint: string;
+  escrowSignature: string;
+  owner: string;
+  /** The remix; null until it is minted. */
+  destMint: string | null;
+  status: BridgeStatus;
+  /** Gorbagana transaction that burned `destMint`. */
+  burnSignature?: string;
+  /** Wallet the original is released to: whoever burned the remix, or the owner when the mint failed. */
+  releaseTo?: string;
+  /** Source-chain transaction moving the original out of escrow. */
+  releaseSignature?: string;
+  /** Block height after which an unconfirmed release transaction can no longer land. */
+  releaseLastValidBlockHeight?: number;
+  unlockedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Filters for getRemixStats; every field given must match. */
+export type RemixQuery = { originalMint?: string; payer?: string; machine?: Machine };
+
+export type RemixStats = {
+  count: number;
+  /** createdAt of the most recent matching remix. */
+  lastAt: string | null;
+};
+
+type OwedPaymentUpdate = Partial<
+  Pick<OwedPayment, "status" | "refundSignature" | "refundLastValidBlockHeight" | "refundedAt">
+>;
+
+type BridgeUpdate = Partial<
+  Pick<
+    BridgeEntry,
+    | "destMint"
+    | "status"
+    | "burnSignature"
+    | "releaseTo"
+    | "releaseSignature"
+    | "releaseLastValidBlockHeight"
+    | "unlockedAt"
+  >
+>;
+
+export interface LedgerStore {
+  readonly backend: LedgerBackend;
+  /** Minted rows per tier, plus live reservations when `includeReserved` is set. */
+  getTierCounts(opts?: { includeReserved?: boolean }): Promise<TierCounts>;
+  getState(): Promise<LedgerState>;
+  isSignatureUsed(signature: string): Promise<boolean>;
+  getMint(signature: string): Promise<LedgerEntry | null>;
+  isQuoteUsed(quoteId: string): Promise<boolean>;
+  /** Recorded remixes matching the query (see ./remixPolicy). */
+  getRemixStats(query: RemixQuery): Promise<RemixStats>;
+  setCollectionMint(collectionMint: string): Promise<void>;
+  setBridgeCollectionMint(collectionMint: string): Promise<void>;
+  /**
+   * Atomically reserves a slot in `tier` if minted + reserved is below `cap`. Returns the
+   * reserved tier, the tier already held by this id when re-reserving, or null when full.
+   */
+  reserveTierSlot(reservation: TierReservation): Promise<TierId | null>;
+  releaseTierSlot(id: string): Promise<void>;
+  /**
+   * Claims a payment and its quote for `jobId` with the next mint number above every
+   * recorded mint and claim. Returns the job's claim when it claims again; fails when
+   * another job holds the payment, or another payment holds (or has minted) the quote.
+   * Claims stay after the mint is recorded, so numbers and quotes are never reused.
+   */
+  claimMint(claim: Omit<MintClaim, "mintNumber">): Promise<MintClaimResult>;
+  getMintClaim(signature: string): Promise<MintClaim | null>;
+  /** Drops the claim on a payment that will not be minted, if `jobId` holds it. */
+  releaseMintClaim(signature: string, jobId: string): Promise<void>;
+  /**
+   * Records a finished mint and commits its tier reservation (keyed by signature).
+   * A signature that is already recorded is left untouched.
+   */
+  recordMint(entry: LedgerEntry, opts: { mintNumber: number; mintCostLamports?: string }): Promise<void>;
+  /** Records a verified payment that will not be minted. An existing record is left untouched. */
+  recordOwedPayment(owed: Omit<OwedPayment, "status" | "createdAt" | "updatedAt">): Promise<void>;
+  getOwedPayment(signature: string): Promise<OwedPayment | null>;
+  listOwedPayments(): Promise<OwedPayment[]>;
+  updateOwedPayment(signature: string, update: OwedPaymentUpdate): Promise<void>;
+  /**
+   * Claims the refund of an owed payment for `holder` until `until` (epoch ms), so only one
+   * instance sends it at a time. False while another holder's claim runs, or once refunded.
+   */
+  claimRefund(signature: string, holder: string, until: number): Promise<boolean>;
+  /** Ends `holder`'s claim on a refund. */
+  releaseRefund(signature: string, holder: string): Promise<void>;
+  /** Keeps an issued quote and drops those that expired before `pruneBefore` (epoch ms). */
+  saveIssuedQuote(quote: IssuedQuote, pruneBefore: number): Promise<void>;
+  getIssuedQuote(quoteId: string): Promise<IssuedQuote | null>;
+  /** Last signature an indexer has processed, by indexer name. */
+  getIndexerCursor(name: string): Promise<string | null>;
+  setIndexerCursor(name: string, signature: string): Promise<void>;
+  /**
+   * Records an escrow lock: locked with `destMint`, locked-unminted without. An escrow
+   * signature that is already recorded is left untouched, except that a locked-unminted
+   * row not yet paid for takes this entry's payment signature.
+   */
+  recordBridge(entry: Omit<BridgeEntry, "destMint" | "status" | "updatedAt"> & { destMint?: string }): Promise<void>;
+  getBridgeByEscrow(escrowSignature: string): Promise<BridgeEntry | null>;
+  /** Bridge mints locked by `owner`, newest first. */
+  listBridgesByOwner(owner: string): Promise<BridgeEntry[]>;
+  updateBridge(escrowSignature: string, update: BridgeUpdate): Promise<void>;
+  /**
+   * Stores a new mint job and returns it, or returns the job already stored under its id
+   * or, unless that one failed, for its payment signature.
+   */
+  insertMintJob(job: MintJob): Promise<MintJob>;
+  getMintJob(id: string): Promise<MintJob | null>;
+  /** The newest job for a payment signature, failed ones included. */
+  findMintJobBySignature(signature: string): Promise<MintJob | null>;
+  /** Jobs not yet recorded or failed, oldest first. */
+  listOpenMintJobs(): Promise<MintJob[]>;
+  /**
+   * Leases an open job to `holder` until `until` (epoch ms) and returns it as stored, or
+   * null while another holder's lease runs.
+   */
+  leaseMintJob(id: string, holder: string, until: number): Promise<MintJob | null>;
+  /** Writes back a job leased to `holder` and ends the lease; false when the lease was lost. */
+  saveMintJob(job: MintJob, holder: string): Promise<boolean>;
+}
+
+type LedgerBackend = "file" | "sqlite" | "supabase";
+
+const LEDGER_PATH = process.env.REMIX_LEDGER_PATH || path.join(process.cwd(), "data", "remix-ledger.json");
+const LEDGER_SQLITE_PATH =
+  process.env.LEDGER_SQLITE_PATH || path.join(process.cwd(), "data", "remix-ledger.sqlite");
+const SUPABASE_URL = process.env.SUPABASE_URL || "";
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || "";
+const LEDGER_BACKEND = (
+  process.env.LEDGER_BACKEND || (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY ? "supabase" : "file")
+).toLowerCase() as LedgerBackend;
+
+const RESERVATION_TTL_MS = Number(process.env.TIER_RESERVATION_TTL_SECONDS ?? 86400) * 1000;
+const FILE_LOCK_STALE_MS = 30_000;
+
+if (!["file", "sqlite", "supabase"].includes(LEDGER_BACKEND)) {
+  throw new Error("Invalid LEDGER_BACKEND configuration");
+}
+if (!Number.isFinite(RESERVATION_TTL_MS) || RESERVATION_TTL_MS <= 0) {
+  throw new Error("Invalid TIER_RESERVATION_TTL_SECONDS configuration");
+}
+
+function emptyCounts(): TierCounts {
+  return Object.fromEntries(TIER_IDS.map((tier) => [tier, 0])) as TierCounts;
+}
+
+// ---------- JSON file ----------
+
+type FileLedger = {
+  /** Remixes keyed by payment signature. */
+  mints: Record<string, LedgerEntry>;
+  usedSignatures: Record<string, string>;
+  usedQuotes: Record<
+    string,
+    { signature: string; payer: string; originalMint: string; amountLamports: string; consumedAt: string }
+  >;
+  tierReservations: Record<string, { tier: TierId; expiresAt: number }>;
+  /** Mint claims keyed by payment signature. */
+  mintClaims: Record<string, { jobId: string; quoteId?: string; mintNumber: number; createdAt: string }>;
+  owedPayments: Record<string, OwedPayment>;
+  /** Refund claims keyed by payment signature. */
+  refundClaims: Record<string, { holder: string; until: number }>;
+  issuedQuotes: Record<string, IssuedQuote>;
+  indexerCursors: Record<string, { signature: string; updatedAt: string }>;
+  /** Bridge mints keyed by escrow signature. */
+  bridges: Record<string, BridgeEntry>;
+  mintJobs: Record<string, MintJob>;
+  lastMintCostLamports?: string;
+  mintCount?: number;
+  collectionMint?: string;
+  bridgeCollectionMint?: string;
+};
+
+function removeLockFile(lockPath: string) {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+  }
+}
+
+/** Cross-process mutex for the JSON ledger: an exclusive lock file next to it. */
+async function withFileLock<T>(lockPath: string, fn: () => Promise<T>): Promise<T> {
+  for (;;) {
+    try {
+      fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+      fs.closeSync(fs.openSync(lockPath, "wx"));
+      break;
+    } catch (e: any) {
+      if (e?.code !== "EEXIST") throw e;
+      let lockedAt = Date.now();
+      try {
+        lockedAt = fs.statSync(lockPath).mtimeMs;
+      } catch {
+        // released between our open and stat
+      }
+      if (Date.now() - lockedAt > FILE_LOCK_STALE_MS) removeLockFile(lockPath);
+      else await new Promise((r) => setTimeout(r, 25));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    removeLockFile(lockPath);
+  }
+}
+
+function createFileLedgerStore(ledgerPath: string): LedgerStore {
+  function load(): FileLedger {
+    if (!fs.existsSync(ledgerPath)) {
+      return {
+        mints: {},
+        usedSignatures: {},
+        usedQuotes: {},
+        tierReservations: {},
+        mintClaims: {},
+        owedPayments: {},
+        refundClaims: {},
+        issuedQuotes: {},
+        indexerCursors: {},
+        bridges: {},
+        mintJobs: {},
+      };
+    }
+    const raw = fs.readFileSync(ledgerPath, "utf8");
+    try {
+      const parsed = JSON.parse(raw);
+      let mints: Record<string, LedgerEntry> = parsed.mints;
+      if (!mints) {
+        // Older ledgers kept one entry per original (`usedMints`), so only the latest
+        // remix of each original survived; carry those over keyed by signature.
+        mints = {};
+        for (const entry of Object.values<LedgerEntry>(parsed.usedMints || {})) mints[entry.signature] = entry;
+      }
+      return {
+        mints,
+        usedSignatures: parsed.usedSignatures || {},
+        usedQuotes: parsed.usedQuotes || {},
+        tierReservations: parsed.tierReservations || {},
+        mintClaims: parsed.mintClaims || {},
+        owedPayments: parsed.owedPayments || {},
+        refundClaims: parsed.refundClaims || {},
+        issuedQuotes: parsed.issuedQuotes || {},
+        indexerCursors: parsed.indexerCursors || {},
+        bridges: parsed.bridges || {},
+        mintJobs: parsed.mintJobs || {},
+        lastMintCostLamports: parsed.lastMintCostLamports,
+        mintCount: parsed.mintCount ?? 0,
+        collectionMint: parsed.collectionMint,
+        bridgeCollectionMint: parsed.bridgeCollectionMint,
+      };
+    } catch (e) {
+      console.error("[ledger] ledger corrupted", e);
+      fs.copyFileSync(ledgerPath, `${ledgerPath}.corrupted.${Date.now()}`);
+      throw new Error("Ledger corrupted - minting halted for safety");
+    }
+  }
+
+  function save(ledger: FileLedger) {
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    const tmpPath = `${ledgerPath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(ledger, null, 2));
+    fs.renameSync(tmpPath, ledgerPath);
+  }
+
+  const lockPath = `${ledgerPath}.lock`;
+  const locked = <T>(fn: () => Promise<T>) => withFileLock(lockPath, fn);
+
+  function countTiers(ledger: FileLedger, includeReserved: boolean) {
+    const counts = emptyCounts();
+    for (const entry of Object.values(ledger.mints)) {
+      if (entry?.tier && counts[entry.tier] !== undefined) counts[entry.tier] += 1;
+    }
+    if (includeReserved) {
+      const now = Date.now();
+      for (const held of Object.values(ledger.tierReservations)) {
+        if (held.expiresAt > now && counts[held.tier] !== undefined) counts[held.tier] += 1;
+      }
+    }
+    return counts;
+  }
+
+  return {
+    backend: "file",
+    async getTierCounts(opts) {
+      return countTiers(load(), !!opts?.includeReserved);
+    },
+    async getState() {
+      const ledger = load();
+      return {
+        mintCount: ledger.mintCount ?? 0,
+        collectionMint: ledger.collectionMint ?? null,
+        bridgeCollectionMint: ledger.bridgeCollectionMint ?? null,
+        lastMintCostLamports: ledger.lastMintCostLamports ?? null,
+      };
+    },
+    async isSignatureUsed(signature) {
+      return !!load().usedSignatures[signature];
+    },
+    async getMint(signature) {
+      const entry = load().mints[signature];
+      return entry
+        ? {
+            ...entry,
+            mintStandard: entry.mintStandard ?? "token-metadata",
+            tierScheme: entry.tierScheme ?? LEGACY_TIER_SCHEME,
+          }
+        : null;
+    },
+    async isQuoteUsed(quoteId) {
+      return !!load().usedQuotes[quoteId];
+    },
+    async getRemixStats(query) {
+      const stats: RemixStats = { count: 0, lastAt: null };
+      for (const entry of Object.values(load().mints)) {
+        if (query.originalMint && entry.originalMint !== query.originalMint) continue;
+        if (query.payer && entry.payer !== query.payer) continue;
+        if (query.machine && entry.machine !== query.machine) continue;
+        stats.count += 1;
+        if (!stats.lastAt || entry.createdAt > stats.lastAt) stats.lastAt = entry.createdAt;
+      }
+      return stats;
+    },
+    setCollectionMint(collectionMint) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.collectionMint === collectionMint) return;
+        ledger.collectionMint = collectionMint;
+        save(ledger);
+      });
+    },
+    setBridgeCollectionMint(collectionMint) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.bridgeCollectionMint === collectionMint) return;
+        ledger.bridgeCollectionMint = collectionMint;
+        save(ledger);
+      });
+    },
+    reserveTierSlot(reservation) {
+      return locked(async () => {
+        const ledger = load();
+        const now = Date.now();
+        const held = ledger.tierReservations[reservation.id];
+        if (held && held.expiresAt > now) return held.tier;
+        for (const [id, r] of Object.entries(ledger.tierReservations)) {
+          if (r.expiresAt <= now) delete ledger.tierReservations[id];
+        }
+        if (countTiers(ledger, true)[reservation.tier] >= reservation.cap) {
+          save(ledger);
+          return null;
+        }
+        ledger.tierReservations[reservation.id] = { tier: reservation.tier, expiresAt: now + RESERVATION_TTL_MS };
+        save(ledger);
+        return reservation.tier;
+      });
+    },
+    releaseTierSlot(id) {
+      return locked(async () => {
+        const ledger = load();
+        if (!ledger.tierReservations[id]) return;
+        delete ledger.tierReservations[id];
+        save(ledger);
+      });
+    },
+    claimMint({ signature, jobId, quoteId }) {
+      return locked(async (): Promise<MintClaimResult> => {
+        const ledger = load();
+        const held = ledger.mintClaims[signature];
+        if (held) {
+          if (held.jobId !== jobId) return { ok: false, conflict: "payment" };
+          return { ok: true, claim: { signature, jobId, quoteId, mintNumber: held.mintNumber } };
+        }
+        const quoteClaimed = Object.values(ledger.mintClaims).some((claim) => claim.quoteId === quoteId);
+        if (quoteClaimed || ledger.usedQuotes[quoteId]) return { ok: false, conflict: "quote" };
+        const claimed = Object.values(ledger.mintClaims).map((claim) => claim.mintNumber);
+        const mintNumber = Math.max(ledger.mintCount ?? 0, ...claimed) + 1;
+        ledger.mintClaims[signature] = { jobId, quoteId, mintNumber, createdAt: new Date().toISOString() };
+        save(ledger);
+        return { ok: true, claim: { signature, jobId, quoteId, mintNumber } };
+      });
+    },
+    async getMintClaim(signature) {
+      const held = load().mintClaims[signature];
+      return held ? { signature, jobId: held.jobId, quoteId: held.quoteId ?? "", mintNumber: held.mintNumber } : null;
+    },
+    releaseMintClaim(signature, jobId) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.mintClaims[signature]?.jobId !== jobId) return;
+        delete ledger.mintClaims[signature];
+        save(ledger);
+      });
+    },
+    recordMint(entry, opts) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.usedSignatures[entry.signature]) return;
+        ledger.mints[entry.signature] = entry;
+        ledger.usedSignatures[entry.signature] = entry.originalMint;
+        if (entry.quoteId) {
+          ledger.usedQuotes[entry.quoteId] = {
+            signature: entry.signature,
+            payer: entry.payer,
+            originalMint: entry.originalMint,
+            amountLamports: entry.amountLamports ?? "0",
+            consumedAt: entry.createdAt,
+          };
+        }
+        delete ledger.tierReservations[entry.signature];
+        if (opts.mintCostLamports) ledger.lastMintCostLamports = opts.mintCostLamports;
+        ledger.mintCount = Math.max(ledger.mintCount ?? 0, opts.mintNumber);
+        save(ledger);
+      });
+    },
+    recordOwedPayment(owed) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.owedPayments[owed.signature]) return;
+        const now = new Date().toISOString();
+        ledger.owedPayments[owed.signature] = { ...owed, status: "owed", createdAt: now, updatedAt: now };
+        save(ledger);
+      });
+    },
+    async getOwedPayment(signature) {
+      return load().owedPayments[signature] || null;
+    },
+    async listOwedPayments() {
+      return Object.values(load().owedPayments).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    updateOwedPayment(signature, update) {
+      return locked(async () => {
+        const ledger = load();
+        const owed = ledger.owedPayments[signature];
+        if (!owed) throw new Error("Owed payment not found");
+        ledger.owedPayments[signature] = { ...owed, ...update, updatedAt: new Date().toISOString() };
+        save(ledger);
+      });
+    },
+    claimRefund(signature, holder, until) {
+      return locked(async () => {
+        const ledger = load();
+        const owed = ledger.owedPayments[signature];
+        const held = ledger.refundClaims[signature];
+        if (!owed || owed.status === "refunded") return false;
+        if (held && held.holder !== holder && held.until > Date.now()) return false;
+        ledger.refundClaims[signature] = { holder, until };
+        save(ledger);
+        return true;
+      });
+    },
+    releaseRefund(signature, holder) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.refundClaims[signature]?.holder !== holder) return;
+        delete ledger.refundClaims[signature];
+        save(ledger);
+      });
+    },
+    saveIssuedQuote(quote, pruneBefore) {
+      return locked(async () => {
+        const ledger = load();
+        for (const [id, q] of Object.entries(ledger.issuedQuotes)) {
+          if (q.expiresAt < pruneBefore) delete ledger.issuedQuotes[id];
+        }
+        ledger.issuedQuotes[quote.quoteId] = quote;
+        save(ledger);
+      });
+    },
+    async getIssuedQuote(quoteId) {
+      return load().issuedQuotes[quoteId] || null;
+    },
+    async getIndexerCursor(name) {
+      return load().indexerCursors[name]?.signature ?? null;
+    },
+    setIndexerCursor(name, signature) {
+      return locked(async () => {
+        const ledger = load();
+        ledger.indexerCursors[name] = { signature, updatedAt: new Date().toISOString() };
+        save(ledger);
+      });
+    },
+    recordBridge(entry) {
+      return locked(async () => {
+        const ledger = load();
+        const existing = ledger.bridges[entry.escrowSignature];
+        if (existing) {
+          if (!entry.signature || existing.signature || existing.status !== "locked-unminted") return;
+          ledger.bridges[entry.escrowSignature] = {
+            ...existing,
+            signature: entry.signature,
+            updatedAt: new Date().toISOString(),
+          };
+          save(ledger);
+          return;
+        }
+        ledger.bridges[entry.escrowSignature] = {
+          ...entry,
+          destMint: entry.destMint ?? null,
+          status: entry.destMint ? "locked" : "locked-unminted",
+          updatedAt: entry.createdAt,
+        };
+        save(ledger);
+      });
+    },
+    async getBridgeByEscrow(escrowSignature) {
+      return load().bridges[escrowSignature] || null;
+    },
+    async listBridgesByOwner(owner) {
+      return Object.values(load().bridges)
+        .filter((bridge) => bridge.owner === owner)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    updateBridge(escrowSignature, update) {
+      return locked(async () => {
+        const ledger = load();
+        const bridge = ledger.bridges[escrowSignature];
+        if (!bridge) throw new Error("Bridge entry not found");
+        ledger.bridges[escrowSignature] = { ...bridge, ...update, updatedAt: new Date().toISOString() };
+        save(ledger);
+      });
+    },
+    insertMintJob(job) {
+      return locked(async () => {
+        const ledger = load();
+        const existing =
+          ledger.mintJobs[job.id] ||
+          Object.values(ledger.mintJobs).find(
+            (held) => held.request.signature === job.request.signature && held.state !== "failed"
+          );
+        if (existing) return existing;
+        ledger.mintJobs[job.id] = jobData(job);
+        save(ledger);
+        return job;
+      });
+    },
+    async getMintJob(id) {
+      return load().mintJobs[id] || null;
+    },
+    async findMintJobBySignature(signature) {
+      return (
+        Object.values(load().mintJobs)
+          .filter((job) => job.request.signature === signature)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0] || null
+      );
+    },
+    async listOpenMintJobs() {
+      return Object.values(load().mintJobs)
+        .filter(isOpenJob)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+    leaseMintJob(id, holder, until) {
+      return locked(async () => {
+        const ledger = load();
+        const job = ledger.mintJobs[id];
+        if (!job || !isOpenJob(job)) return null;
+        if (job.leaseHolder && job.leaseHolder !== holder && (job.leaseUntil ?? 0) > Date.now()) return null;
+        ledger.mintJobs[id] = { ...job, leaseHolder: holder, leaseUntil: until };
+        save(ledger);
+        return ledger.mintJobs[id];
+      });
+    },
+    saveMintJob(job, holder) {
+      return locked(async () => {
+        const ledger = load();
+        if (ledger.mintJobs[job.id]?.leaseHolder !== holder) return false;
+        ledger.mintJobs[job.id] = jobData(job);
+        save(ledger);
+        return true;
+      });
+    },
+  };
+}
+
+// Row shapes shared by the SQLite and Supabase tables.
+function mintFromRow(row: any): LedgerEntry {
+  // Supabase returns text[]; SQLite stores a comma-separated string.
+  const soldOut = row.sold_out_tiers;
+  let soldOutTiers: TierId[] | undefined;
+  if (Array.isArray(soldOut)) soldOutTiers = soldOut;
+  else if (soldOut != null) soldOutTiers = String(soldOut).split(",").filter(Boolean) as TierId[];
+  return {
+    originalMint: row.original_mint,
+    mintedMint: row.minted_mint,
+    signature: row.signature,
+    payer: row.payer,
+    machine: row.machine,
+    tier: row.tier,
+    quoteId: row.quote_id ?? undefined,
+    amountLamports: row.amount_lamports ?? undefined,
+    paymentMint: row.payment_mint ?? undefined,
+    mintStandard: row.mint_standard ?? "token-metadata",
+    rollEpoch: row.roll_epoch ?? undefined,
+    soldOutTiers,
+    tierScheme: row.tier_scheme ?? LEGACY_TIER_SCHEME,
+    createdAt: row.created_at,
+  };
+}
+
+function bridgeFromRow(row: any): BridgeEntry {
+  return {
+    signature: row.signature,
+    sourceChain: row.source_chain,
+    sourceMint: row.source_mint,
+    escrowSignature: row.escrow_signature,
+    owner: row.owner,
+    destMint: row.dest_mint ?? null,
+    status: row.status,
+    burnSignature: row.burn_signature ?? undefined,
+    releaseTo: row.release_to ?? undefined,
+    releaseSignature: row.release_signature ?? undefined,
+    releaseLastValidBlockHeight: row.release_last_valid_block_height ?? undefined,
+    unlockedAt: row.unlocked_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function owedFromRow(row: any): OwedPayment {
+  return {
+    signature: row.signature,
+    payer: row.payer,
+    originalMint: row.original_mint,
+    machine: row.machine,
+    quoteId: row.quote_id,
+    amountLamports: row.amount_lamports,
+    paymentMint: row.payment_mint ?? undefined,
+    reason: row.reason,
+    status: row.status,
+    refundSignature: row.refund_signature ?? undefined,
+    refundLastValidBlockHeight: row.refund_last_valid_block_height ?? undefined,
+    refundedAt: row.refunded_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function isOpenJob(job: MintJob) {
+  return job.state !== "recorded" && job.state !== "failed";
+}
+
+/** The job without its lease, which is kept apart and only changed by lease and save. */
+function jobData(job: MintJob): MintJob {
+  const { leaseHolder: _holder, leaseUntil: _until, ...data } = job;
+  return data;
+}
+
+function jobFromRow(row: any): MintJob {
+  // Supabase returns jsonb; SQLite stores the JSON text.
+  const data = typeof row.job === "string" ? JSON.parse(row.job) : row.job;
+  return {
+    ...data,
+    leaseHolder: row.lease_holder ?? undefined,
+    leaseUntil: row.lease_until == null ? undefined : Number(row.lease_until),
+  };
+}
+
+// ---------- SQLite ----------
+
+function createSqliteLedgerStore(dbPath: string): LedgerStore {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    create table if not exists mint_log (
+      signature text primary key,
+      original_mint text not null,
+      minted_mint text not null,
+      payer text not null,
+      machine text not null,
+      tier text not null,
+      quote_id text unique,
+      amount_lamports text,
+      payment_mint text,
+      mint_standard text not null default 'token-metadata',
+      roll_epoch integer,
+      sold_out_tiers text,
+      tier_scheme integer not null default 1,
+      created_at text not null
+    );
+    create index if not exists mint_log_tier on mint_log (tier);
+    create index if not exists mint_log_original on mint_log (original_mint, machine);
+    create index if not exists mint_log_payer on mint_log (payer);
+    create table if not exists remix_state (
+      id integer primary key check (id = 1),
+      mint_count integer not null default 0,
+      collection_mint text,
+      bridge_collection_mint text,
+      last_mint_cost_lamports text
+    );
+    insert or ignore into remix_state (id) values (1);
+    create table if not exists tier_reservations (
+      id text primary key,
+      tier text not null,
+      expires_at integer not null
+    );
+    create table if not exists mint_claims (
+      signature text primary key,
+      job_id text not null,
+      quote_id text,
+      mint_number integer not null unique,
+      created_at text not null
+    );
+    create table if not exists owed_payments (
+      signature text primary key,
+      payer text not null,
+      original_mint text not null,
+      machine text not null,
+      quote_id text not null,
+      amount_lamports text not null,
+      payment_mint text,
+      reason text not null,
+      status text not null,
+      refund_signature text,
+      refund_last_valid_block_height integer,
+      refunded_at text,
+      refund_holder text,
+      refund_claimed_until integer,
+      created_at text not null,
+      updated_at text not null
+    );
+    create table if not exists issued_quotes (
+      quote_id text primary key,
+      token text not null,
+      payer text not null,
+      expires_at integer not null
+    );
+    create index if not exists issued_quotes_expires on issued_quotes (expires_at);
+    create table if not exists indexer_cursors (
+      name text primary key,
+      signature text not null,
+      updated_at text not null
+    );
+    create table if not exists bridge_log (
+      escrow_signature text primary key,
+      signature text unique,
+      source_chain text not null,
+      source_mint text not null,
+      owner text not null,
+      dest_mint text,
+      status text not null default 'locked',
+      burn_signature text,
+      release_to text,
+      release_signature text,
+      release_last_valid_block_height integer,
+      unlocked_at text,
+      created_at text not null,
+      updated_at text not null
+    );
+    create index if not exists bridge_log_owner on bridge_log (owner);
+    create table if not exists mint_jobs (
+      id text primary key,
+      signature text not null,
+      state text not null,
+      lease_holder text,
+      lease_until integer,
+      job text not null,
+      created_at text not null,
+      updated_at text not null
+    );
+    create unique index if not exists mint_jobs_live_signature on mint_jobs (signature) where state <> 'failed';
+    create index if not exists mint_jobs_state on mint_jobs (state, created_at);
+  `);
+
+  // Columns added after the first release of this schema.
+  const mintColumns = (db.prepare("pragma table_info(mint_log)").all() as Array<{ name: string }>).map((c) => c.name);
+  if (!mintColumns.includes("roll_epoch")) db.exec("alter table mint_log add column roll_epoch integer");
+  if (!mintColumns.includes("sold_out_tiers")) db.exec("alter table mint_log add column sold_out_tiers text");
+  // Rows from before the five-tier switch take the default, the legacy three-tier scheme.
+  if (!mintColumns.includes("tier_scheme")) {
+    db.exec(`alter table mint_log add column tier_scheme integer not null default ${LEGACY_TIER_SCHEME}`);
+  }
+  if (!mintColumns.includes("payment_mint")) db.exec("alter table mint_log add column payment_mint text");
+  if (!mintColumns.includes("mint_standard")) {
+    db.exec("alter table mint_log add column mint_standard text not null default 'token-metadata'");
+  }
+  const owedColumns = (db.prepare("pragma table_info(owed_payments)").all() as Array<{ name: string }>).map((c) => c.name);
+  if (!owedColumns.includes("payment_mint")) db.exec("alter table owed_payments add column payment_mint text");
+  if (!owedColumns.includes("refund_holder")) {
+    db.exec(`
+      alter table owed_payments add column refund_holder text;
+      alter table owed_payments add column refund_claimed_until integer;
+    `);
+  }
+  const stateColumns = (db.prepare("pragma table_info(remix_state)").all() as Array<{ name: string }>).map((c) => c.name);
+  if (!stateColumns.includes("bridge_collection_mint")) {
+    db.exec("alter table remix_state add column bridge_collection_mint text");
+  }
+  const bridgeColumns = (db.prepare("pragma table_info(bridge_log)").all() as Array<{ name: string }>).map((c) => c.name);
+  if (!bridgeColumns.includes("status")) {
+    db.exec(`
+      alter table bridge_log add column status text not null default 'locked';
+      alter table bridge_log add column burn_signature text;
+      alter table bridge_log add column release_to text;
+      alter table bridge_log add column release_signature text;
+      alter table bridge_log add column release_last_valid_block_height integer;
+      alter table bridge_log add column unlocked_at text;
+      alter table bridge_log add column updated_at text;
+      update bridge_log set updated_at = created_at;
+    `);
+  }
+  // Locks are recorded before they are paid for and minted; SQLite cannot drop a not null
+  // constraint, so older tables are copied into the current shape.
+  const bridgeSignature = (db.prepare("pragma table_info(bridge_log)").all() as Array<{ name: string; notnull: number }>)
+    .find((c) => c.name === "signature");
+  if (bridgeSignature?.notnull) {
+    db.exec(`
+      begin;
+      alter table bridge_log rename to bridge_log_old;
+      drop index if exists bridge_log_owner;
+      create table bridge_log (
+        escrow_signature text primary key,
+        signature text unique,
+        source_chain text not null,
+        source_mint text not null,
+        owner text not null,
+        dest_mint text,
+        status text not null default 'locked',
+        burn_signature text,
+        release_to text,
+        release_signature text,
+        release_last_valid_block_height integer,
+        unlocked_at text,
+        created_at text not null,
+        updated_at text not null
+      );
+      insert into bridge_log
+        select escrow_signature, signature, source_chain, source_mint, owner, nullif(dest_mint, ''), status,
+          burn_signature, release_to, release_signature, release_last_valid_block_height, unlocked_at,
+          created_at, updated_at
+        from bridge_log_old;
+      drop table bridge_log_old;
+      create index bridge_log_owner on bridge_log (owner);
+      commit;
+    `);
+  }
+
+  const claimColumns = (db.prepare("pragma table_info(mint_claims)").all() as Array<{ name: string }>).map((c) => c.name);
+  if (!claimColumns.includes("quote_id")) db.exec("alter table mint_claims add column quote_id text");
+  db.exec("create unique index if not exists mint_claims_quote on mint_claims (quote_id)");
+
+  const tierCounts = db.prepare("select tier, count(*) as n from mint_log group by tier");
+  const reservedCounts = db.prepare("select tier, count(*) as n from tier_reservations where expires_at > ? group by tier");
+  const readReservation = db.prepare("select tier from tier_reservations where id = ? and expires_at > ?");
+  const purgeReservations = db.prepare("delete from tier_reservations where expires_at <= ?");
+  const insertReservation = db.prepare(
+    "insert or replace into tier_reservations (id, tier, expires_at) values (?, ?, ?)"
+  );
+  const deleteReservation = db.prepare("delete from tier_reservations where id = ?");
+  const readClaim = db.prepare("select job_id, quote_id, mint_number from mint_claims where signature = ?");
+  const quoteClaimed = db.prepare(
+    "select 1 from mint_claims where quote_id = @quoteId union all select 1 from mint_log where quote_id = @quoteId"
+  );
+  const nextMintNumber = db.prepare(`
+    select max(
+      coalesce((select mint_count from remix_state where id = 1), 0),
+      coalesce((select max(mint_number) from mint_claims), 0)
+    ) + 1 as n
+  `);
+  const insertClaim = db.prepare(
+    "insert into mint_claims (signature, job_id, quote_id, mint_number, created_at) values (?, ?, ?, ?, ?)"
+  );
+  const deleteClaim = db.prepare("delete from mint_claims where signature = ? and job_id = ?");
+  const readState = db.prepare(
+    "select mint_count, collection_mint, bridge_collection_mint, last_mint_cost_lamports from remix_state where id = 1"
+  );
+  const hasSignature = db.prepare("select 1 from mint_log where signature = ?");
+  const readMint = db.prepare("select * from mint_log where signature = ?");
+  const hasQuote = db.prepare("select 1 from mint_log where quote_id = ?");
+  const writeCollection = db.prepare("update remix_state set collection_mint = ? where id = 1");
+  const writeBridgeCollection = db.prepare("update remix_state set bridge_collection_mint = ? where id = 1");
+  const remixStatsQueries = new Map<string, Database.Statement>();
+  function remixStats(query: RemixQuery): RemixStats {
+    const filters = (
+      [
+        ["original_mint", query.originalMint],
+        ["payer", query.payer],
+        ["machine", query.machine],
+      ] as const
+    ).filter(([, value]) => value);
+    const key = filters.map(([column]) => column).join(",");
+    let stmt = remixStatsQueries.get(key);
+    if (!stmt) {
+      const where = filters.length ? `where ${filters.map(([column]) => `${column} = ?`).join(" and ")}` : "";
+      stmt = db.prepare(`select count(*) as n, max(created_at) as last_at from mint_log ${where}`);
+      remixStatsQueries.set(key, stmt);
+    }
+    const row = stmt.get(...filters.map(([, value]) => value)) as { n: number; last_at: string | null };
+    return { count: row.n, lastAt: row.last_at ?? null };
+  }
+  const insertMint = db.prepare(`
+    insert or ignore into mint_log
+      (signature, original_mint, minted_mint, payer, machine, tier, quote_id, amount_lamports,
+       payment_mint, mint_standard, roll_epoch, sold_out_tiers, tier_scheme, created_at)
+    values
+      (@signature, @originalMint, @mintedMint, @payer, @machine, @tier, @quoteId, @amountLamports,
+       @paymentMint, @mintStandard, @rollEpoch, @soldOutTiers, @tierScheme, @createdAt)
+  `);
+  const bumpState = db.prepare(`
+    update remix_state
+    set mint_count = max(mint_count, @mintNumber),
+        last_mint_cost_lamports = coalesce(@mintCostLamports, last_mint_cost_lamports)
+    where id = 1
+  `);
+  const record = db.transaction((entry: LedgerEntry, opts: { mintNumber: number; mintCostLamports?: string }) => {
+    const inserted = insertMint.run({
+      quoteId: null,
+      amountLamports: null,
+      paymentMint: null,
+      mintStandard: "token-metadata",
+      rollEpoch: null,
+      tierScheme: LEGACY_TIER_SCHEME,
+      ...entry,
+      soldOutTiers: entry.soldOutTiers ? entry.soldOutTiers.join(",") : null,
+    });
+    deleteReservation.run(entry.signature);
+    if (!inserted.changes) return;
+    bumpState.run({ mintNumber: opts.mintNumber, mintCostLamports: opts.mintCostLamports ?? null });
+  });
+
+  const insertOwed = db.prepare(`
+    insert or ignore into owed_payments
+      (signature, payer, original_mint, machine, quote_id, amount_lamports, payment_mint, reason, status,
+       created_at, updated_at)
+    values
+      (@signature, @payer, @originalMint, @machine, @quoteId, @amountLamports, @paymentMint, @reason, 'owed',
+       @now, @now)
+  `);
+  const readOwed = db.prepare("select * from owed_payments where signature = ?");
+  const listOwed = db.prepare("select * from owed_payments order by created_at");
+  const writeOwed = db.prepare(`
+    update owed_payments
+    set status = @status,
+        refund_signature = @refundSignature,
+        refund_last_valid_block_height = @refundLastValidBlockHeight,
+        refunded_at = @refundedAt,
+        updated_at = @updatedAt
+    where signature = @signature
+  `);
+  const claimOwed = db.prepare(`
+    update owed_payments set refund_holder = @holder, refund_claimed_until = @until
+    where signature = @signature and status <> 'refunded'
+      and (refund_holder is null or refund_holder = @holder or refund_claimed_until <= @now)
+  `);
+  const releaseOwed = db.prepare(`
+    update owed_payments set refund_holder = null, refund_claimed_until = null
+    where signature = ? and refund_holder = ?
+  `);
+
+  const insertQuote = db.prepare(`
+    insert or replace into issued_quotes (quote_id, token, payer, expires_at)
+    values (@quoteId, @token, @payer, @expiresAt)
+  `);
+  const pruneQuotes = db.prepare("delete from issued_quotes where expires_at < ?");
+  const readQuote = db.prepare("select * from issued_quotes where quote_id = ?");
+  const readCursor = db.prepare("select signature from indexer_cursors where name = ?");
+  const writeCursor = db.prepare(`
+    insert into indexer_cursors (name, signature, updated_at) values (?, ?, ?)
+    on conflict (name) do update set signature = excluded.signature, updated_at = excluded.updated_at
+  `);
+  const insertBridge = db.prepare(`
+    insert or ignore into bridge_log
+      (escrow_signature, signature, source_chain, source_mint, owner, dest_mint, status, created_at, updated_at)
+    values
+      (@escrowSignature, @signature, @sourceChain, @sourceMint, @owner, @destMint, @status, @createdAt, @createdAt)
+  `);
+  const payBridge = db.prepare(`
+    update bridge_log set signature = ?, updated_at = ?
+    where escrow_signature = ? and signature is null and status = 'locked-unminted'
+  `);
+  const readBridge = db.prepare("select * from bridge_log where escrow_signature = ?");
+  const listBridges = db.prepare("select * from bridge_log where owner = ? order by created_at desc");
+  const writeBridge = db.prepare(`
+    update bridge_log
+    set status = @status,
+        dest_mint = @destMint,
+        burn_signature = @burnSignature,
+        release_to = @releaseTo,
+        release_signature = @releaseSignature,
+        release_last_valid_block_height = @releaseLastValidBlockHeight,
+        unlocked_at = @unlockedAt,
+        updated_at = @updatedAt
+    where escrow_signature = @escrowSignature
+  `);
+
+  const readJob = db.prepare("select * from mint_jobs where id = ?");
+  const readLiveJob = db.prepare("select * from mint_jobs where signature = ? and state <> 'failed'");
+  const readNewestJob = db.prepare("select * from mint_jobs where signature = ? order by created_at desc limit 1");
+  const listOpenJobs = db.prepare(
+    "select * from mint_jobs where state not in ('recorded', 'failed') order by created_at"
+  );
+  const insertJob = db.prepare(`
+    insert into mint_jobs (id, signature, state, job, created_at, updated_at)
+    values (@id, @signature, @state, @job, @createdAt, @updatedAt)
+  `);
+  const leaseJob = db.prepare(`
+    update mint_jobs set lease_holder = @holder, lease_until = @until
+    where id = @id and state not in ('recorded', 'failed')
+      and (lease_holder is null or lease_holder = @holder or lease_until <= @now)
+  `);
+  const writeJob = db.prepare(`
+    update mint_jobs
+    set state = @state, job = @job, lease_holder = null, lease_until = null, updated_at = @updatedAt
+    where id = @id and lease_holder = @holder
+  `);
+
+  function countTiers(includeReserved: boolean) {
+    const counts = emptyCounts();
+    const rows = tierCounts.all() as Array<{ tier: TierId; n: number }>;
+    if (includeReserved) rows.push(...(reservedCounts.all(Date.now()) as Array<{ tier: TierId; n: number }>));
+    for (const row of rows) {
+      if (counts[row.tier] !== undefined) counts[row.tier] += row.n;
+    }
+    return counts;
+  }
+
+  const reserve = db.transaction((reservation: TierReservation): TierId | null => {
+    const now = Date.now();
+    const held = readReservation.get(reservation.id, now) as { tier: TierId } | undefined;
+    if (held) return held.tier;
+    purgeReservations.run(now);
+    if (countTiers(true)[reservation.tier] >= reservation.cap) return null;
+    insertReservation.run(reservation.id, reservation.tier, now + RESERVATION_TTL_MS);
+    return reservation.tier;
+  });
+
+  const claim = db.transaction(({ signature, jobId, quoteId }: Omit<MintClaim, "mintNumber">): MintClaimResult => {
+    const held = readClaim.get(signature) as { job_id: string; mint_number: number } | undefined;
+    if (held) {
+      if (held.job_id !== jobId) return { ok: false, conflict: "payment" };
+      return { ok: true, claim: { signature, jobId, quoteId, mintNumber: held.mint_number } };
+    }
+    if (quoteClaimed.get({ quoteId })) return { ok: false, conflict: "quote" };
+    const { n: mintNumber } = nextMintNumber.get() as { n: number };
+    insertClaim.run(signature, jobId, quoteId, mintNumber, new Date().toISOString());
+    return { ok: true, claim: { signature, jobId, quoteId, mintNumber } };
+  });
+
+  const addJob = db.transaction((job: MintJob): MintJob => {
+    const existing = readJob.get(job.id) ?? readLiveJob.get(job.request.signature);
+    if (existing) return jobFromRow(existing);
+    insertJob.run({
+      id: job.id,
+      signature: job.request.signature,
+      state: job.state,
+      job: JSON.stringify(jobData(job)),
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    });
+    return job;
+  });
+
+  return {
+    backend: "sqlite",
+    async getTierCounts(opts) {
+      return countTiers(!!opts?.includeReserved);
+    },
+    async getState() {
+      const row = readState.get() as any;
+      return {
+        mintCount: row?.mint_count ?? 0,
+        collectionMint: row?.collection_mint ?? null,
+        bridgeCollectionMint: row?.bridge_collection_mint ?? null,
+        lastMintCostLamports: row?.last_mint_cost_lamports ?? null,
+      };
+    },
+    async isSignatureUsed(signature) {
+      return !!hasSignature.get(signature);
+    },
+    async getMint(signature) {
+      const row = readMint.get(signature);
+      return row ? mintFromRow(row) : null;
+    },
+    async isQuoteUsed(quoteId) {
+      return !!hasQuote.get(quoteId);
+    },
+    async getRemixStats(query) {
+      return remixStats(query);
+    },
+    async setCollectionMint(collectionMint) {
+      writeCollection.run(collectionMint);
+    },
+    async setBridgeCollectionMint(collectionMint) {
+      writeBridgeCollection.run(collectionMint);
+    },
+    async reserveTierSlot(reservation) {
+      // IMMEDIATE takes the write lock up front, so concurrent reservers serialize.
+      return reserve.immediate(reservation);
+    },
+    async releaseTierSlot(id) {
+      deleteReservation.run(id);
+    },
+    async claimMint(request) {
+      return claim.immediate(request);
+    },
+    async getMintClaim(signature) {
+      const held = readClaim.get(signature) as
+        | { job_id: string; quote_id: string | null; mint_number: number }
+        | undefined;
+      return held
+        ? { signature, jobId: held.job_id, quoteId: held.quote_id ?? "", mintNumber: held.mint_number }
+        : null;
+    },
+    async releaseMintClaim(signature, jobId) {
+      deleteClaim.run(signature, jobId);
+    },
+    async recordMint(entry, opts) {
+      record.immediate(entry, opts);
+    },
+    async recordOwedPayment(owed) {
+      insertOwed.run({ paymentMint: null, ...owed, now: new Date().toISOString() });
+    },
+    async getOwedPayment(signature) {
+      const row = readOwed.get(signature);
+      return row ? owedFromRow(row) : null;
+    },
+    async listOwedPayments() {
+      return listOwed.all().map(owedFromRow);
+    },
+    async updateOwedPayment(signature, update) {
+      const row = readOwed.get(signature);
+      if (!row) throw new Error("Owed payment not found");
+      const next = { ...owedFromRow(row), ...update };
+      writeOwed.run({
+        signature,
+        status: next.status,
+        refundSignature: next.refundSignature ?? null,
+        refundLastValidBlockHeight: next.refundLastValidBlockHeight ?? null,
+        refundedAt: next.refundedAt ?? null,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+    async claimRefund(signature, holder, until) {
+      return claimOwed.run({ signature, holder, until, now: Date.now() }).changes > 0;
+    },
+    async releaseRefund(signature, holder) {
+      releaseOwed.run(signature, holder);
+    },
+    async saveIssuedQuote(quote, pruneBefore) {
+      pruneQuotes.run(pruneBefore);
+      insertQuote.run(quote);
+    },
+    async getIssuedQuote(quoteId) {
+      const row = readQuote.get(quoteId) as any;
+      return row ? { quoteId: row.quote_id, token: row.token, payer: row.payer, expiresAt: row.expires_at } : null;
+    },
+    async getIndexerCursor(name) {
+      return (readCursor.get(name) as { signature: string } | undefined)?.signature ?? null;
+    },
+    async setIndexerCursor(name, signature) {
+      writeCursor.run(name, signature, new Date().toISOString());
+    },
+    async recordBridge(entry) {
+      insertBridge.run({
+        ...entry,
+        destMint: entry.destMint ?? null,
+        status: entry.destMint ? "locked" : "locked-unminted",
+      });
+      if (entry.signature) payBridge.run(entry.signature, new Date().toISOString(), entry.escrowSignature);
+    },
+    async getBridgeByEscrow(escrowSignature) {
+      const row = readBridge.get(escrowSignature);
+      return row ? bridgeFromRow(row) : null;
+    },
+    async listBridgesByOwner(owner) {
+      return listBridges.all(owner).map(bridgeFromRow);
+    },
+    async updateBridge(escrowSignature, update) {
+      const row = readBridge.get(escrowSignature);
+      if (!row) throw new Error("Bridge entry not found");
+      const next = { ...bridgeFromRow(row), ...update };
+      writeBridge.run({
+        escrowSignature,
+        status: next.status,
+        destMint: next.destMint,
+        burnSignature: next.burnSignature ?? null,
+        releaseTo: next.releaseTo ?? null,
+        releaseSignature: next.releaseSignature ?? null,
+        releaseLastValidBlockHeight: next.releaseLastValidBlockHeight ?? null,
+        unlockedAt: next.unlockedAt ?? null,
+        updatedAt: new Date().toISOString(),
+      });
+    },
+    async insertMintJob(job) {
+      return addJob.immediate(job);
+    },
+    async getMintJob(id) {
+      const row = readJob.get(id);
+      return row ? jobFromRow(row) : null;
+    },
+    async findMintJobBySignature(signature) {
+      const row = readNewestJob.get(signature);
+      return row ? jobFromRow(row) : null;
+    },
+    async listOpenMintJobs() {
+      return listOpenJobs.all().map(jobFromRow);
+    },
+    async leaseMintJob(id, holder, until) {
+      if (!leaseJob.run({ id, holder, until, now: Date.now() }).changes) return null;
+      return jobFromRow(readJob.get(id));
+    },
+    async saveMintJob(job, holder) {
+      const saved = writeJob.run({
+        id: job.id,
+        holder,
+        state: job.state,
+        job: JSON.stringify(jobData(job)),
+        updatedAt: job.updatedAt,
+      });
+      return saved.changes > 0;
+    },
+  };
+}
+
+// ---------- Supabase ----------
+//
+// Schema and the reserve_tier_slot function live in supabase/ledger.sql.
+
+function createSupabaseLedgerStore(supabase: SupabaseClient): LedgerStore {
+  async function isSignatureUsed(signature: string) {
+    const { data, error } = await supabase
+      .from("used_signatures")
+      .select("signature")
+      .eq("signature", signature)
+      .maybeSingle();
+    if (error) throw new Error(`Supabase read failed: ${error.message}`);
+    return !!data?.signature;
+  }
+
+  async function readJob(id: string) {
+    const { data, error } = await supabase.from("mint_jobs").select("*").eq("id", id).maybeSingle();
+    if (error) throw new Error(`Supabase read failed: ${error.message}`);
+    return data ? jobFromRow(data) : null;
+  }
+
+  async function readLiveJob(signature: string) {
+    const { data, error } = await supabase
+      .from("mint_jobs")
+      .select("*")
+      .eq("signature", signature)
+      .neq("state", "failed")
+      .maybeSingle();
+    if (error) throw new Error(`Supabase read failed: ${error.message}`);
+    return data ? jobFromRow(data) : null;
+  }
+
+  async function readState() {
+    const { data, error } = await supabase
+      .from("remix_state")
+      .select("mint_count, collection_mint, bridge_collection_mint, last_mint_cost_lamports")
+      .eq("id", 1)
+      .maybeSingle();
+    if (error) throw new Error(`Supabase read failed: ${error.message}`);
+    return data;
+  }
+
+  return {
+    backend: "supabase",
+    async getTierCounts(opts) {
+      const counts = emptyCounts();
+      const now = new Date().toISOString();
+      for (const tier of Object.keys(counts) as TierId[]) {
+        const { count, error } = await supabase
+          .from("mint_log")
+          .select("signature", { count: "exact", head: true })
+          .eq("tier", tier);
+        if (error) throw new Error(`Supabase read failed: ${error.message}`);
+        counts[tier] = count ?? 0;
+        if (!opts?.includeReserved) continue;
+        const { count: reserved, error: resErr } = await supabase
+          .from("tier_reservations")
+          .select("id", { count: "exact", head: true })
+          .eq("tier", tier)
+          .gt("expires_at", now);
+        if (resErr) throw new Error(`Supabase read failed: ${resErr.message}`);
+        counts[tier] += reserved ?? 0;
+      }
+      return counts;
+    },
+    async getState() {
+      const data = await readState();
+      return {
+        mintCount: data?.mint_count ?? 0,
+        collectionMint: data?.collection_mint ?? null,
+        bridgeCollectionMint: data?.bridge_collection_mint ?? null,
+        lastMintCostLamports: data?.last_mint_cost_lamports ?? null,
+      };
+    },
+    isSignatureUsed,
+    async getMint(signature) {
+      const { data, error } = await supabase.from("mint_log").select("*").eq("signature", signature).maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data ? mintFromRow(data) : null;
+    },
+    async isQuoteUsed(quoteId) {
+      const { data, error } = await supabase
+        .from("mint_log")
+        .select("signature")
+        .eq("quote_id", quoteId)
+        .maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return !!data?.signature;
+    },
+    async getRemixStats(query) {
+      let q = supabase
+        .from("mint_log")
+        .select("created_at", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .limit(1);
+      if (query.originalMint) q = q.eq("original_mint", query.originalMint);
+      if (query.payer) q = q.eq("payer", query.payer);
+      if (query.machine) q = q.eq("machine", query.machine);
+      const { data, count, error } = await q;
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return { count: count ?? 0, lastAt: data?.[0]?.created_at ?? null };
+    },
+    async reserveTierSlot(reservation) {
+      const { data, error } = await supabase.rpc("reserve_tier_slot", {
+        p_id: reservation.id,
+        p_tier: reservation.tier,
+        p_cap: reservation.cap,
+        p_ttl_seconds: Math.round(RESERVATION_TTL_MS / 1000),
+      });
+      if (error) throw new Error(`Supabase reserve failed: ${error.message}`);
+      return (data as TierId | null) ?? null;
+    },
+    async releaseTierSlot(id) {
+      const { error } = await supabase.from("tier_reservations").delete().eq("id", id);
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async claimMint({ signature, jobId, quoteId }) {
+      const { data, error } = await supabase.rpc("claim_mint", {
+        p_signature: signature,
+        p_job_id: jobId,
+        p_quote_id: quoteId,
+      });
+      if (error) throw new Error(`Supabase claim failed: ${error.message}`);
+      const result = data as { mint_number?: number; conflict?: "payment" | "quote" } | null;
+      if (result?.conflict) return { ok: false, conflict: result.conflict };
+      return { ok: true, claim: { signature, jobId, quoteId, mintNumber: Number(result?.mint_number) } };
+    },
+    async getMintClaim(signature) {
+      const { data, error } = await supabase
+        .from("mint_claims")
+        .select("job_id, quote_id, mint_number")
+        .eq("signature", signature)
+        .maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data
+        ? { signature, jobId: data.job_id, quoteId: data.quote_id ?? "", mintNumber: data.mint_number }
+        : null;
+    },
+    async releaseMintClaim(signature, jobId) {
+      const { error } = await supabase.from("mint_claims").delete().eq("signature", signature).eq("job_id", jobId);
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async setCollectionMint(collectionMint) {
+      const { error } = await supabase
+        .from("remix_state")
+        .upsert({ id: 1, collection_mint: collectionMint }, { onConflict: "id" });
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async setBridgeCollectionMint(collectionMint) {
+      const { error } = await supabase
+        .from("remix_state")
+        .upsert({ id: 1, bridge_collection_mint: collectionMint }, { onConflict: "id" });
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async recordMint(entry, opts) {
+      if (await isSignatureUsed(entry.signature)) return;
+
+      const { error: mintErr } = await supabase.from("mint_log").upsert(
+        {
+          signature: entry.signature,
+          original_mint: entry.originalMint,
+          minted_mint: entry.mintedMint,
+          payer: entry.payer,
+          machine: entry.machine,
+          tier: entry.tier,
+          quote_id: entry.quoteId ?? null,
+          amount_lamports: entry.amountLamports ?? null,
+          payment_mint: entry.paymentMint ?? null,
+          mint_standard: entry.mintStandard ?? "token-metadata",
+          roll_epoch: entry.rollEpoch ?? null,
+          sold_out_tiers: entry.soldOutTiers ?? null,
+          tier_scheme: entry.tierScheme ?? LEGACY_TIER_SCHEME,
+          created_at: entry.createdAt,
+        },
+        { onConflict: "signature", ignoreDuplicates: true }
+      );
+      if (mintErr) throw new Error(`Supabase write failed: ${mintErr.message}`);
+
+      const state = await readState();
+      const { error: stateErr } = await supabase.from("remix_state").upsert(
+        {
+          id: 1,
+          mint_count: Math.max(state?.mint_count ?? 0, opts.mintNumber),
+          last_mint_cost_lamports: opts.mintCostLamports ?? state?.last_mint_cost_lamports ?? null,
+        },
+        { onConflict: "id" }
+      );
+      if (stateErr) throw new Error(`Supabase write failed: ${stateErr.message}`);
+
+      // The minted row now holds the slot; until this delete it is briefly counted twice.
+      const { error: resErr } = await supabase.from("tier_reservations").delete().eq("id", entry.signature);
+      if (resErr) throw new Error(`Supabase write failed: ${resErr.message}`);
+
+      // Written last: it is the marker that the mint is fully recorded.
+      const { error: sigErr } = await supabase
+        .from("used_signatures")
+        .upsert({ signature: entry.signature, original_mint: entry.originalMint }, { onConflict: "signature" });
+      if (sigErr) throw new Error(`Supabase write failed: ${sigErr.message}`);
+    },
+    async recordOwedPayment(owed) {
+      const now = new Date().toISOString();
+      const { error } = await supabase.from("owed_payments").upsert(
+        {
+          signature: owed.signature,
+          payer: owed.payer,
+          original_mint: owed.originalMint,
+          machine: owed.machine,
+          quote_id: owed.quoteId,
+          amount_lamports: owed.amountLamports,
+          payment_mint: owed.paymentMint ?? null,
+          reason: owed.reason,
+          status: "owed",
+          created_at: now,
+          updated_at: now,
+        },
+        { onConflict: "signature", ignoreDuplicates: true }
+      );
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async getOwedPayment(signature) {
+      const { data, error } = await supabase.from("owed_payments").select("*").eq("signature", signature).maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data ? owedFromRow(data) : null;
+    },
+    async listOwedPayments() {
+      const { data, error } = await supabase.from("owed_payments").select("*").order("created_at");
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return (data || []).map(owedFromRow);
+    },
+    async updateOwedPayment(signature, update) {
+      const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (update.status !== undefined) row.status = update.status;
+      if (update.refundSignature !== undefined) row.refund_signature = update.refundSignature;
+      if (update.refundLastValidBlockHeight !== undefined) {
+        row.refund_last_valid_block_height = update.refundLastValidBlockHeight;
+      }
+      if (update.refundedAt !== undefined) row.refunded_at = update.refundedAt;
+      const { data, error } = await supabase
+        .from("owed_payments")
+        .update(row)
+        .eq("signature", signature)
+        .select("signature");
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      if (!data?.length) throw new Error("Owed payment not found");
+    },
+    async claimRefund(signature, holder, until) {
+      const { data, error } = await supabase
+        .from("owed_payments")
+        .update({ refund_holder: holder, refund_claimed_until: until })
+        .eq("signature", signature)
+        .neq("status", "refunded")
+        .or(`refund_holder.is.null,refund_holder.eq.${holder},refund_claimed_until.lte.${Date.now()}`)
+        .select("signature");
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      return !!data?.length;
+    },
+    async releaseRefund(signature, holder) {
+      const { error } = await supabase
+        .from("owed_payments")
+        .update({ refund_holder: null, refund_claimed_until: null })
+        .eq("signature", signature)
+        .eq("refund_holder", holder);
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async saveIssuedQuote(quote, pruneBefore) {
+      const { error: pruneErr } = await supabase.from("issued_quotes").delete().lt("expires_at", pruneBefore);
+      if (pruneErr) throw new Error(`Supabase write failed: ${pruneErr.message}`);
+      const { error } = await supabase.from("issued_quotes").upsert(
+        { quote_id: quote.quoteId, token: quote.token, payer: quote.payer, expires_at: quote.expiresAt },
+        { onConflict: "quote_id" }
+      );
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async getIssuedQuote(quoteId) {
+      const { data, error } = await supabase.from("issued_quotes").select("*").eq("quote_id", quoteId).maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data
+        ? { quoteId: data.quote_id, token: data.token, payer: data.payer, expiresAt: Number(data.expires_at) }
+        : null;
+    },
+    async getIndexerCursor(name) {
+      const { data, error } = await supabase.from("indexer_cursors").select("signature").eq("name", name).maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data?.signature ?? null;
+    },
+    async setIndexerCursor(name, signature) {
+      const { error } = await supabase
+        .from("indexer_cursors")
+        .upsert({ name, signature, updated_at: new Date().toISOString() }, { onConflict: "name" });
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+    },
+    async recordBridge(entry) {
+      const { error } = await supabase.from("bridge_log").upsert(
+        {
+          escrow_signature: entry.escrowSignature,
+          signature: entry.signature,
+          source_chain: entry.sourceChain,
+          source_mint: entry.sourceMint,
+          owner: entry.owner,
+          dest_mint: entry.destMint ?? null,
+          status: entry.destMint ? "locked" : "locked-unminted",
+          created_at: entry.createdAt,
+          updated_at: entry.createdAt,
+        },
+        { onConflict: "escrow_signature", ignoreDuplicates: true }
+      );
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      if (!entry.signature) return;
+      const { error: payError } = await supabase
+        .from("bridge_log")
+        .update({ signature: entry.signature, updated_at: new Date().toISOString() })
+        .eq("escrow_signature", entry.escrowSignature)
+        .is("signature", null)
+        .eq("status", "locked-unminted");
+      if (payError) throw new Error(`Supabase write failed: ${payError.message}`);
+    },
+    async getBridgeByEscrow(escrowSignature) {
+      const { data, error } = await supabase
+        .from("bridge_log")
+        .select("*")
+        .eq("escrow_signature", escrowSignature)
+        .maybeSingle();
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data ? bridgeFromRow(data) : null;
+    },
+    async listBridgesByOwner(owner) {
+      const { data, error } = await supabase
+        .from("bridge_log")
+        .select("*")
+        .eq("owner", owner)
+        .order("created_at", { ascending: false });
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return (data || []).map(bridgeFromRow);
+    },
+    async updateBridge(escrowSignature, update) {
+      const row: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (update.status !== undefined) row.status = update.status;
+      if (update.destMint !== undefined) row.dest_mint = update.destMint;
+      if (update.burnSignature !== undefined) row.burn_signature = update.burnSignature;
+      if (update.releaseTo !== undefined) row.release_to = update.releaseTo;
+      if (update.releaseSignature !== undefined) row.release_signature = update.releaseSignature;
+      if (update.releaseLastValidBlockHeight !== undefined) {
+        row.release_last_valid_block_height = update.releaseLastValidBlockHeight;
+      }
+      if (update.unlockedAt !== undefined) row.unlocked_at = update.unlockedAt;
+      const { data, error } = await supabase
+        .from("bridge_log")
+        .update(row)
+        .eq("escrow_signature", escrowSignature)
+        .select("escrow_signature");
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      if (!data?.length) throw new Error("Bridge entry not found");
+    },
+    async insertMintJob(job) {
+      const { error } = await supabase.from("mint_jobs").insert({
+        id: job.id,
+        signature: job.request.signature,
+        state: job.state,
+        job: jobData(job),
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+      });
+      if (!error) return job;
+      // 23505: the id, or a live job for this payment, is already stored.
+      if (error.code !== "23505") throw new Error(`Supabase write failed: ${error.message}`);
+      const existing = (await readJob(job.id)) ?? (await readLiveJob(job.request.signature));
+      if (!existing) throw new Error(`Supabase write failed: ${error.message}`);
+      return existing;
+    },
+    async getMintJob(id) {
+      return readJob(id);
+    },
+    async findMintJobBySignature(signature) {
+      const { data, error } = await supabase
+        .from("mint_jobs")
+        .select("*")
+        .eq("signature", signature)
+        .order("created_at", { ascending: false })
+        .limit(1);
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return data?.length ? jobFromRow(data[0]) : null;
+    },
+    async listOpenMintJobs() {
+      const { data, error } = await supabase
+        .from("mint_jobs")
+        .select("*")
+        .not("state", "in", "(recorded,failed)")
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(`Supabase read failed: ${error.message}`);
+      return (data || []).map(jobFromRow);
+    },
+    async leaseMintJob(id, holder, until) {
+      const { data, error } = await supabase
+        .from("mint_jobs")
+        .update({ lease_holder: holder, lease_until: until })
+        .eq("id", id)
+        .not("state", "in", "(recorded,failed)")
+        .or(`lease_holder.is.null,lease_holder.eq.${holder},lease_until.lte.${Date.now()}`)
+        .select("*");
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      return data?.length ? jobFromRow(data[0]) : null;
+    },
+    async saveMintJob(job, holder) {
+      const { data, error } = await supabase
+        .from("mint_jobs")
+        .update({
+          state: job.state,
+          job: jobData(job),
+          lease_holder: null,
+          lease_until: null,
+          updated_at: job.updatedAt,
+        })
+        .eq("id", job.id)
+        .eq("lease_holder", holder)
+        .select("id");
+      if (error) throw new Error(`Supabase write failed: ${error.message}`);
+      return !!data?.length;
+    },
+  };
+}
+
+// Kept on globalThis so dev-mode module reloads reuse the same SQLite handle.
+const cached = globalThis as unknown as { __gorbageLedgerStore?: LedgerStore };
+
+export function getLedgerStore(): LedgerStore {
+  if (cached.__gorbageLedgerStore) return cached.__gorbageLedgerStore;
+  let store: LedgerStore;
+  if (LEDGER_BACKEND === "supabase") {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("LEDGER_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY");
+    }
+    store = createSupabaseLedgerStore(
+      createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    );
+  } else if (LEDGER_BACKEND === "sqlite") {
+    store = createSqliteLedgerStore(LEDGER_SQLITE_PATH);
+  } else {
+    store = createFileLedgerStore(LEDGER_PATH);
+  }
+  cached.__gorbageLedgerStore = store;
+  return store;
+}
@@ -0,0 +1,233 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { computeCid, isCid } from "./cid";
+
+// Where remix images and metadata JSON are stored. METADATA_STORAGE picks the driver:
+//   pinata  - Pinata pinning API (PINATA_JWT)
+//   kubo    - a self-hosted IPFS node's HTTP API (KUBO_API_URL)
+//   arweave - an Arweave bundler upload endpoint (ARWEAVE_UPLOAD_URL), Irys/Bundlr style
+//   local   - files under LOCAL_ASSETS_DIR, served by /api/assets/:cid (dev and tests); in
+//             production it needs PUBLIC_BASE_URL, so on-chain URIs never point at localhost
+// Every object's CID is computed here before upload; IPFS drivers must come back with
+// the same CID or the upload is rejected.
+
+export type StorageDriver = "pinata" | "kubo" | "arweave" | "local";
+
+export type StoredObject = {
+  /** Locally computed CIDv1 of the bytes. */
+  cid: string;
+  /** URI to put in on-chain / JSON metadata. */
+  uri: string;
+};
+
+export interface MetadataStorage {
+  driver: StorageDriver;
+  put(name: string, mime: string, bytes: Buffer): Promise<StoredObject>;
+}
+
+export type NftMetadataInput = {
+  name: string;
+  description: string;
+  imageBuffer: Buffer;
+  imageMime: string;
+  attributes: Array<{ trait_type: string; value: string }>;
+};
+
+const DRIVER = (process.env.METADATA_STORAGE || (process.env.PINATA_JWT ? "pinata" : "local")).toLowerCase();
+const LOCAL_ASSETS_DIR = process.env.LOCAL_ASSETS_DIR || path.join(process.cwd(), "data", "assets");
+const UPLOAD_TIMEOUT_MS = Number(process.env.METADATA_UPLOAD_TIMEOUT_MS ?? 60_000);
+
+if (!["pinata", "kubo", "arweave", "local"].includes(DRIVER)) {
+  throw new Error("Invalid METADATA_STORAGE configuration");
+}
+if (!Number.isFinite(UPLOAD_TIMEOUT_MS) || UPLOAD_TIMEOUT_MS <= 0) {
+  throw new Error("Invalid METADATA_UPLOAD_TIMEOUT_MS configuration");
+}
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required env var: ${name}`);
+  return value;
+}
+
+function checkCid(driver: string, expected: string, returned: unknown) {
+  if (returned !== expected) {
+    throw new Error(`${driver} stored different content: returned CID ${returned}, expected ${expected}`);
+  }
+}
+
+async function postForm(url: string, form: FormData, headers: Record<string, string>) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body: form,
+    signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+  });
+  const text = await res.text();
+  let data: any = null;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // leave null; the status check below reports it
+  }
+  return { res, data, text };
+}
+
+function fileForm(name: string, mime: string, bytes: Buffer) {
+  const form = new FormData();
+  form.append("file", new Blob([new Uint8Array(bytes)], { type: mime }), name);
+  return form;
+}
+
+// ---------- Pinata ----------
+
+function createPinataStorage(): MetadataStorage {
+  const jwt = requireEnv("PINATA_JWT");
+  return {
+    driver: "pinata",
+    async put(name, mime, bytes) {
+      const cid = computeCid(new Uint8Array(bytes));
+      const form = fileForm(name, mime, bytes);
+      form.append("pinataMetadata", JSON.stringify({ name }));
+      form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+      const { res, data } = await postForm("https://api.pinata.cloud/pinning/pinFileToIPFS", form, {
+        Authorization: `Bearer ${jwt}`,
+      });
+      if (!res.ok || !data?.IpfsHash) {
+        throw new Error(data?.error?.details || data?.error?.message || "Pinata upload failed");
+      }
+      checkCid("Pinata", cid, data.IpfsHash);
+      return { cid, uri: `ipfs://${cid}` };
+    },
+  };
+}
+
+// ---------- Kubo (IPFS HTTP API) ----------
+
+function createKuboStorage(): MetadataStorage {
+  const apiUrl = requireEnv("KUBO_API_URL").replace(/\/+$/, "");
+  const auth = process.env.KUBO_API_AUTH;
+  return {
+    driver: "kubo",
+    async put(name, mime, bytes) {
+      const cid = computeCid(new Uint8Array(bytes));
+      const { res, data, text } = await postForm(
+        `${apiUrl}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`,
+        fileForm(name, mime, bytes),
+        auth ? { Authorization: auth } : {}
+      );
+      if (!res.ok || !data?.Hash) throw new Error(`IPFS node upload failed: ${data?.Message || text.slice(0, 200)}`);
+      checkCid("IPFS node", cid, data.Hash);
+      return { cid, uri: `ipfs://${cid}` };
+    },
+  };
+}
+
+// ---------- Arweave ----------
+
+function createArweaveStorage(): MetadataStorage {
+  const uploadUrl = requireEnv("ARWEAVE_UPLOAD_URL");
+  const token = process.env.ARWEAVE_UPLOAD_TOKEN;
+  const gateway = (process.env.ARWEAVE_GATEWAY_URL || "https://arweave.net").replace(/\/+$/, "");
+  return {
+    driver: "arweave",
+    // Arweave addresses by transaction id, so the CID goes along as a tag instead of
+    // being checked against the response.
+    async put(name, mime, bytes) {
+      const cid = computeCid(new Uint8Array(bytes));
+      const headers: Record<string, string> = {
+        "Content-Type": mime,
+        "x-tag-content-type": mime,
+        "x-tag-file-name": name,
+        "x-tag-ipfs-cid": cid,
+      };
+      if (token) headers.Authorization = `Bearer ${token}`;
+      const res = await fetch(uploadUrl, {
+        method: "POST",
+        headers,
+        body: new Uint8Array(bytes),
+        signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS),
+      });
+      const data = await res.json().catch(() => null);
+      const id = data?.id;
+      if (!res.ok || typeof id !== "string" || !/^[A-Za-z0-9_-]{43}$/.test(id)) {
+        throw new Error(`Arweave upload failed: ${data?.error || res.status}`);
+      }
+      return { cid, uri: `${gateway}/${id}` };
+    },
+  };
+}
+
+// ---------- Local filesystem ----------
+
+/** Path of a locally stored object, or null for anything that is not a CID. */
+export function localAssetPath(cid: string) {
+  if (!isCid(cid)) return null;
+  return path.join(LOCAL_ASSETS_DIR, cid);
+}
+
+export function readLocalAsset(cid: string): { bytes: Buffer; mime: string } | null {
+  const filePath = localAssetPath(cid);
+  if (!filePath || !fs.existsSync(filePath)) return null;
+  const bytes = fs.readFileSync(filePath);
+  let mime = "application/octet-stream";
+  try {
+    mime = JSON.parse(fs.readFileSync(`${filePath}.meta.json`, "utf8"))?.mime || mime;
+  } catch {
+    // no sidecar; serve as bytes
+  }
+  return { bytes, mime };
+}
+
+function createLocalStorage(): MetadataStorage {
+  const baseUrl = (
+    process.env.NODE_ENV === "production"
+      ? requireEnv("PUBLIC_BASE_URL")
+      : process.env.PUBLIC_BASE_URL || "http://localhost:3000"
+  ).replace(/\/+$/, "");
+  return {
+    driver: "local",
+    async put(name, mime, bytes) {
+      const cid = computeCid(new Uint8Array(bytes));
+      const filePath = localAssetPath(cid)!;
+      fs.mkdirSync(LOCAL_ASSETS_DIR, { recursive: true });
+      if (!fs.existsSync(filePath)) {
+        const tmpPath = `${filePath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+        fs.writeFileSync(tmpPath, bytes);
+        fs.renameSync(tmpPath, filePath);
+      }
+      fs.writeFileSync(`${filePath}.meta.json`, JSON.stringify({ name, mime }));
+      return { cid, uri: `${baseUrl}/api/assets/${cid}` };
+    },
+  };
+}
+
+// ---------- Selection ----------
+
+function createStorage(): MetadataStorage {
+  if (DRIVER === "pinata") return createPinataStorage();
+  if (DRIVER === "kubo") return createKuboStorage();
+  if (DRIVER === "arweave") return createArweaveStorage();
+  return createLocalStorage();
+}
+
+const storage = createStorage();
+
+export function getMetadataStorage() {
+  return storage;
+}
+
+/** Stores the image, then the metadata JSON pointing at it; returns the metadata URI. */
+export async function uploadNftMetadata(input: NftMetadataInput) {
+  const image = await storage.put("remix.png", input.imageMime, input.imageBuffer);
+  const metadata = {
+    name: input.name,
+    description: input.description,
+    image: image.uri,
+    attributes: input.attributes,
+  };
+  const json = Buffer.from(JSON.stringify(metadata));
+  const stored = await storage.put(`${input.name} metadata.json`, "application/json", json);
+  return stored.uri;
+}
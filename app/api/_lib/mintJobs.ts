@@ -0,0 +1,306 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Keypair } from "@solana/web3.js";
+import { getLedgerStore } from "./ledgerStore";
+import {
+  MintRejectedError,
+  mintLandedStep,
+  mintStep,
+  pinMetadataStep,
+  recordStep,
+  releaseClaimStep,
+  releaseTierStep,
+  verifyPaymentStep,
+  type MintRequest,
+  type PaymentVerified,
+} from "./mintPipeline";
+import { recordOwedPayment } from "./refunds";
+import type { PendingRemix } from "./remixPolicy";
+
+// Mint jobs, kept in the ledger (see ./ledgerStore) so any instance can report on and
+// resume them. /api/verify enqueues, and each instance's worker leases due jobs one step
+// at a time, driving them queued → payment_verified → metadata_pinned → minted → recorded.
+// Jobs left unfinished by a restart, or by an instance that went away, are picked up again
+// once their lease runs out.
+
+export type MintJobState = "queued" | "payment_verified" | "metadata_pinned" | "minted" | "recorded" | "failed";
+
+export type MintJob = {
+  id: string;
+  state: MintJobState;
+  request: MintRequest;
+  verified?: PaymentVerified;
+  metadataUrl?: string;
+  mintSecretKey?: number[];
+  mintedMint?: string;
+  collectionMint?: string;
+  mintCostLamports?: string;
+  attempts: number;
+  nextAttemptAt?: number;
+  error?: string;
+  detail?: string;
+  /** The payment was verified but the mint failed; see ./refunds. */
+  paymentOwed?: boolean;
+  /** Worker advancing the job, and until when (epoch ms); see LedgerStore.leaseMintJob. */
+  leaseHolder?: string;
+  leaseUntil?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** Job file from when jobs were kept per instance; its jobs are moved into the ledger. */
+const LEGACY_JOBS_PATH = process.env.MINT_JOBS_PATH || path.join(process.cwd(), "data", "mint-jobs.json");
+const MAX_ATTEMPTS = Number(process.env.MINT_JOB_MAX_ATTEMPTS ?? 40);
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 30_000;
+const DEBUG_VERIFY = (process.env.DEBUG_VERIFY || "").toLowerCase() === "true";
+/** How long a worker holds a job for one step; a worker that goes away frees it after this. */
+const LEASE_MS = 10 * 60_000;
+
+if (!Number.isFinite(MAX_ATTEMPTS) || MAX_ATTEMPTS <= 0) {
+  throw new Error("Invalid MINT_JOB_MAX_ATTEMPTS configuration");
+}
+
+const RESERVING_STATES: MintJobState[] = ["payment_verified", "metadata_pinned", "minted"];
+
+type WorkerState = {
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Lease holder id of this process's worker. */
+  id?: string;
+  legacyImported?: boolean;
+};
+
+// Kept on globalThis so dev-mode module reloads don't start a second worker.
+const worker: WorkerState = ((globalThis as any).__gorbageMintWorker ??= { running: false, timer: null });
+worker.id ??= crypto.randomBytes(8).toString("hex");
+
+/** Moves the jobs of the old per-instance job file into the ledger, once. */
+async function importLegacyJobs() {
+  if (worker.legacyImported) return;
+  if (fs.existsSync(LEGACY_JOBS_PATH)) {
+    let jobs: Record<string, MintJob>;
+    try {
+      jobs = JSON.parse(fs.readFileSync(LEGACY_JOBS_PATH, "utf8"))?.jobs || {};
+    } catch (e) {
+      console.error("[mint-jobs] job file corrupted", e);
+      throw new Error("Mint job file corrupted - minting halted for safety");
+    }
+    const store = getLedgerStore();
+    for (const job of Object.values(jobs)) await store.insertMintJob(job);
+    fs.renameSync(LEGACY_JOBS_PATH, `${LEGACY_JOBS_PATH}.imported.${Date.now()}`);
+  }
+  worker.legacyImported = true;
+}
+
+/** Writes a step's outcome back and ends the lease; a job whose lease ran out is left to its new holder. */
+async function saveJob(job: MintJob, patch: Partial<MintJob>) {
+  const next = { ...job, ...patch, updatedAt: new Date().toISOString() };
+  if (!(await getLedgerStore().saveMintJob(next, worker.id!))) {
+    console.error(`[mint-jobs] job ${job.id} lost its lease; the outcome of its ${job.state} step was dropped`);
+  }
+}
+
+export function getMintJob(id: string): Promise<MintJob | null> {
+  return getLedgerStore().getMintJob(id);
+}
+
+/** Any job for this signature, failed ones included. */
+export function findMintJobBySignature(signature: string): Promise<MintJob | null> {
+  return getLedgerStore().findMintJobBySignature(signature);
+}
+
+/** Returns the existing live job for this signature, or persists a new queued one. */
+export function enqueueMintJob(request: MintRequest): Promise<MintJob> {
+  const now = new Date().toISOString();
+  return getLedgerStore().insertMintJob({
+    id: crypto.randomBytes(12).toString("hex"),
+    state: "queued",
+    request,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/** Job fields safe to hand to the client (no quote token or mint secret). */
+export function toPublicJob(job: MintJob) {
+  return {
+    id: job.id,
+    state: job.state,
+    signature: job.request.signature,
+    originalMint: job.request.originalMint,
+    machine: job.request.machine,
+    quoteId: job.verified?.quoteId,
+    tier: job.verified?.tier,
+    effect: job.verified?.effect.primary,
+    texture: job.verified?.effect.texture,
+    glow: job.verified?.effect.glow,
+    edge: job.verified?.effect.edge,
+    metadataUrl: job.metadataUrl,
+    minted: job.mintedMint,
+    mintStandard: job.verified ? job.verified.mintStandard ?? "token-metadata" : undefined,
+    collectionMint: job.collectionMint,
+    attempts: job.attempts,
+    error: job.error,
+    paymentOwed: job.paymentOwed,
+    detail: DEBUG_VERIFY ? job.detail : undefined,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+// Payment claims, mint numbers, tier slots and bridge escrow locks are all held in the
+// ledger (see verifyPaymentStep). Remixes past verification count towards the remix
+// policy before they are recorded.
+async function pendingReservations(excludeId?: string) {
+  const remixes: PendingRemix[] = [];
+  for (const job of await getLedgerStore().listOpenMintJobs()) {
+    if (job.id === excludeId || !job.verified || !RESERVING_STATES.includes(job.state)) continue;
+    const { originalMint, payer, machine } = job.request;
+    remixes.push({ originalMint, payer, machine, createdAt: job.createdAt });
+  }
+  return { remixes };
+}
+
+/** Verified remixes still being minted, for the remix policy check in /api/run. */
+export async function listPendingRemixes(): Promise<PendingRemix[]> {
+  return (await pendingReservations()).remixes;
+}
+
+async function runStep(job: MintJob): Promise<Partial<MintJob>> {
+  switch (job.state) {
+    case "queued": {
+      const verified = await verifyPaymentStep(job.request, job.id, await pendingReservations(job.id));
+      return {
+        state: "payment_verified",
+        verified,
+        mintSecretKey: Array.from(Keypair.generate().secretKey),
+      };
+    }
+    case "payment_verified":
+      return { state: "metadata_pinned", metadataUrl: await pinMetadataStep(job.request, job.verified!) };
+    case "metadata_pinned": {
+      const minted = await mintStep(job.request, job.verified!, job.metadataUrl!, job.mintSecretKey!);
+      return { state: "minted", ...minted };
+    }
+    case "minted":
+      await recordStep(job.request, job.verified!, {
+        mintedMint: job.mintedMint!,
+        collectionMint: job.collectionMint!,
+        mintCostLamports: job.mintCostLamports,
+      });
+      return { state: "recorded" };
+    default:
+      return {};
+  }
+}
+
+// Once the NFT exists we keep retrying the ledger write rather than giving up on it. A
+// mint that was sent may have landed without the job seeing it; the next mintStep finds it.
+async function canGiveUp(job: MintJob) {
+  if (job.state === "minted") return false;
+  if (job.state !== "metadata_pinned") return true;
+  try {
+    return !(await mintLandedStep(job.verified!, job.mintSecretKey!));
+  } catch (e) {
+    console.error(`[mint-jobs] job ${job.id} could not check for its mint`, e);
+    return false;
+  }
+}
+
+async function advanceJob(job: MintJob) {
+  try {
+    const patch = await runStep(job);
+    await saveJob(job, { ...patch, attempts: 0, nextAttemptAt: undefined, error: undefined, detail: undefined });
+  } catch (err: any) {
+    const detail = String(err?.message || err || "Unknown error");
+    const attempts = job.attempts + 1;
+    const rejected = err instanceof MintRejectedError;
+    if ((rejected || attempts >= MAX_ATTEMPTS) && (await canGiveUp(job))) {
+      console.error(`[mint-jobs] job ${job.id} failed in ${job.state}`, err);
+      const payment = job.verified ?? (err instanceof MintRejectedError ? err.payment : undefined);
+      try {
+        if (job.verified) await releaseTierStep(job.request);
+        if (payment) await recordOwedPayment(job.request, payment, detail);
+        await releaseClaimStep(job.request, job.id);
+      } catch (cleanupErr) {
+        // Keep the job open so neither the slot nor the payment is lost; the next pass retries.
+        console.error(`[mint-jobs] job ${job.id} could not be closed out`, cleanupErr);
+        await saveJob(job, { attempts, nextAttemptAt: Date.now() + RETRY_MAX_MS, detail });
+        return;
+      }
+      let message = rejected ? err.message : "Mint failed. Please contact support.";
+      if (payment) message = `${rejected ? err.message : "Mint failed."} Your payment will be refunded.`;
+      await saveJob(job, {
+        state: "failed",
+        attempts,
+        nextAttemptAt: undefined,
+        error: message,
+        paymentOwed: !!payment || undefined,
+        detail,
+      });
+      return;
+    }
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * Math.ceil(attempts / 3));
+    await saveJob(job, { attempts, nextAttemptAt: Date.now() + delay, detail });
+  }
+}
+
+/** Leases the oldest due job that no other worker holds. */
+async function leaseNextDueJob() {
+  const store = getLedgerStore();
+  const now = Date.now();
+  for (const job of await store.listOpenMintJobs()) {
+    if ((job.nextAttemptAt ?? 0) > now) continue;
+    if (job.leaseHolder && job.leaseHolder !== worker.id && (job.leaseUntil ?? 0) > now) continue;
+    const leased = await store.leaseMintJob(job.id, worker.id!, now + LEASE_MS);
+    if (leased) return leased;
+  }
+  return null;
+}
+
+async function scheduleWake(minDelayMs = 0) {
+  const waiting = await getLedgerStore().listOpenMintJobs();
+  if (worker.timer) clearTimeout(worker.timer);
+  worker.timer = null;
+  if (!waiting.length) return;
+  // Jobs another worker holds are its to finish; look again once the lease would run out.
+  const wakeAt = Math.min(
+    ...waiting.map((job) => {
+      const leasedElsewhere = job.leaseHolder && job.leaseHolder !== worker.id;
+      return Math.max(job.nextAttemptAt ?? 0, leasedElsewhere ? job.leaseUntil ?? 0 : 0);
+    })
+  );
+  worker.timer = setTimeout(() => void drain(), Math.max(minDelayMs, wakeAt - Date.now()));
+}
+
+async function drain() {
+  if (worker.running) return;
+  worker.running = true;
+  let failed = false;
+  try {
+    await importLegacyJobs();
+    for (let job = await leaseNextDueJob(); job; job = await leaseNextDueJob()) {
+      await advanceJob(job);
+    }
+  } catch (e) {
+    failed = true;
+    console.error("[mint-jobs] worker error", e);
+  } finally {
+    worker.running = false;
+    // Also after an error (backing off, as the failing job may still look due), so waiting
+    // jobs are retried rather than left until the next request.
+    try {
+      await scheduleWake(failed ? RETRY_BASE_MS : 0);
+    } catch (e) {
+      console.error("[mint-jobs] could not schedule the worker", e);
+    }
+  }
+}
+
+/** Starts (or nudges) the worker; safe to call on every request. */
+export function startMintWorker() {
+  void drain();
+}
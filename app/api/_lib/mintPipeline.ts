@@ -0,0 +1,1012 @@
+import { ComputeBudgetProgram, Connection, Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import fs from "fs";
+import path from "path";
+import net from "net";
+import { Metaplex, TransactionBuilder, keypairIdentity } from "@metaplex-foundation/js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { renderRemix, type RemixEffect } from "./remixRenderer";
+import { checkQuote } from "./quotes";
+import { pickEffectFromTier, rollTier } from "./fairness";
+import { loadKeypairFile } from "./keypairs";
+import { uploadNftMetadata } from "./metadataStorage";
+import { getLedgerStore, type LedgerStore, type Machine, type TierId } from "./ledgerStore";
+import { getTierCaps } from "./tierCaps";
+import { checkRemixPolicy, type PendingRemix } from "./remixPolicy";
+import { checkMintEligibility } from "./eligibility";
+import { recheckQuotedDiscounts } from "./pricingRules";
+import { getConnection, hedgedRead } from "./rpcPool";
+import {
+  compressedMintInstruction,
+  coreCollection,
+  coreCreateInstruction,
+  findCompressedMint,
+  mintMarkerInstruction,
+  mintStandardFor,
+  type MintStandard,
+} from "./mintStandards";
+import { SOURCE_CHAIN_NAMES, checkEscrowLock, type BridgeSource } from "./bridgeEscrow";
+import {
+  MEMO_PROGRAM_ID,
+  parsePaymentMemo,
+  type PaymentLeg,
+  type PaymentMemo,
+  type PaymentToken,
+} from "../../_lib/paymentLegs";
+import { LEGACY_TIER_SCHEME, TIER_SCHEME, tierName } from "../../_lib/tiers";
+
+// The remix mint pipeline behind /api/verify. Each step is safe to re-run after a
+// crash: progress lives on the MintJob (see ./mintJobs) and the ledger is only
+// written once the NFT exists on-chain.
+
+export type { Machine, TierId };
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required env var: ${name}`);
+  return value;
+}
+
+const TREASURY = requireEnv("TREASURY_WALLET");
+const MINT_AUTHORITY_KEYPAIR = requireEnv("MINT_AUTHORITY_KEYPAIR");
+
+const MAX_IMAGE_BYTES = Number(process.env.MAX_IMAGE_BYTES ?? 5 * 1024 * 1024);
+const MAX_TX_SLOT_AGE = Number(process.env.MAX_TX_SLOT_AGE ?? 300);
+const PRIORITY_FEE_MICROLAMPORTS = Number(process.env.PRIORITY_FEE_MICROLAMPORTS ?? 100000);
+const COMPUTE_UNITS = Number(process.env.MINT_COMPUTE_UNITS ?? 400000);
+
+if (!Number.isFinite(MAX_IMAGE_BYTES) || MAX_IMAGE_BYTES <= 0) {
+  throw new Error("Invalid MAX_IMAGE_BYTES configuration");
+}
+if (!Number.isFinite(MAX_TX_SLOT_AGE) || MAX_TX_SLOT_AGE <= 0) {
+  throw new Error("Invalid MAX_TX_SLOT_AGE configuration");
+}
+if (!Number.isFinite(PRIORITY_FEE_MICROLAMPORTS) || PRIORITY_FEE_MICROLAMPORTS <= 0) {
+  throw new Error("Invalid PRIORITY_FEE_MICROLAMPORTS configuration");
+}
+if (!Number.isFinite(COMPUTE_UNITS) || COMPUTE_UNITS <= 0) {
+  throw new Error("Invalid MINT_COMPUTE_UNITS configuration");
+}
+
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/;
+const ALLOWED_IMAGE_MIMES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+const DEFAULT_ALLOWED_IMAGE_HOSTS = [
+  "ipfs.io",
+  "gateway.pinata.cloud",
+  "cloudflare-ipfs.com",
+  "nftstorage.link",
+  "dweb.link",
+  "arweave.net",
+  "arweave.dev",
+  "arweave.org",
+];
+const IMAGE_HOST_ALLOWLIST = (process.env.IMAGE_HOST_ALLOWLIST || "")
+  .split(",")
+  .map((value) => value.trim())
+  .filter(Boolean);
+const ALLOWED_IMAGE_HOSTS = IMAGE_HOST_ALLOWLIST.length ? IMAGE_HOST_ALLOWLIST : DEFAULT_ALLOWED_IMAGE_HOSTS;
+
+let ledgerLock: Promise<void> = Promise.resolve();
+
+export function withLedgerLock<T>(fn: () => Promise<T>): Promise<T> {
+  let release: () => void;
+  const next = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const previous = ledgerLock;
+  ledgerLock = next;
+  return previous.then(fn).finally(() => release());
+}
+
+export function isValidSignature(sig: string) {
+  return sig.length >= 80 && sig.length <= 90 && BASE58_REGEX.test(sig);
+}
+
+export function isValidPublicKey(key: string) {
+  return key.length >= 32 && key.length <= 44 && BASE58_REGEX.test(key);
+}
+
+function sanitizeName(name: string) {
+  return name.replace(/[^\w\s\-\.]/g, "").trim().slice(0, 32) || "TrashTech";
+}
+
+function loadKeypair() {
+  return loadKeypairFile("MINT_AUTHORITY_KEYPAIR", MINT_AUTHORITY_KEYPAIR);
+}
+
+async function ownsMint(connection: Connection, owner: PublicKey, mint: PublicKey) {
+  const programIds = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+  for (const programId of programIds) {
+    const resp = await connection.getParsedTokenAccountsByOwner(owner, { mint, programId });
+    for (const { account } of resp.value) {
+      const info: any = account.data.parsed?.info;
+      const amount = Number(info?.tokenAmount?.uiAmount ?? 0);
+      const decimals = Number(info?.tokenAmount?.decimals ?? 0);
+      if (amount > 0 && decimals === 0) return true;
+    }
+  }
+  return false;
+}
+
+function hasPngMagic(buf: Buffer) {
+  return buf.length >= 8 && buf[0] === 0x89 && buf[1] === 0x50 && buf[2] === 0x4e && buf[3] === 0x47;
+}
+
+function hasJpegMagic(buf: Buffer) {
+  return buf.length >= 2 && buf[0] === 0xff && buf[1] === 0xd8;
+}
+
+function hasGifMagic(buf: Buffer) {
+  return buf.length >= 6 && buf[0] === 0x47 && buf[1] === 0x49 && buf[2] === 0x46;
+}
+
+function hasWebpMagic(buf: Buffer) {
+  return buf.length >= 12 && buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP";
+}
+
+function mimeMatchesBuffer(mime: string, data: Buffer) {
+  if (mime === "image/png") return hasPngMagic(data);
+  if (mime === "image/jpeg") return hasJpegMagic(data);
+  if (mime === "image/gif") return hasGifMagic(data);
+  if (mime === "image/webp") return hasWebpMagic(data);
+  return false;
+}
+
+function isPrivateHost(hostname: string) {
+  if (!hostname) return true;
+  if (hostname === "localhost" || hostname === "0.0.0.0" || hostname.endsWith(".local")) return true;
+  const ipType = net.isIP(hostname);
+  if (ipType === 4) {
+    const parts = hostname.split(".").map((p) => Number(p));
+    if (parts[0] === 10) return true;
+    if (parts[0] === 127) return true;
+    if (parts[0] === 169 && parts[1] === 254) return true;
+    if (parts[0] === 192 && parts[1] === 168) return true;
+    if (parts[0] === 172 && parts[1] >= 16 && parts[1] <= 31) return true;
+  }
+  if (ipType === 6) {
+    const lower = hostname.toLowerCase();
+    if (lower === "::1" || lower.startsWith("fc") || lower.startsWith("fd")) return true;
+  }
+  return false;
+}
+
+export function isAllowedImageUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "https:") return false;
+    if (isPrivateHost(parsed.hostname)) return false;
+    if (!ALLOWED_IMAGE_HOSTS.length) return true;
+    return ALLOWED_IMAGE_HOSTS.some(
+      (host) => parsed.hostname === host || parsed.hostname.endsWith(`.${host}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+export function normalizeImageUrl(url: string) {
+  if (url.startsWith("ipfs://")) {
+    return `https://ipfs.io/ipfs/${url.replace("ipfs://", "")}`;
+  }
+  return url;
+}
+
+async function resolveOriginalImageUrl(connection: Connection, mint: PublicKey, fallbackUrl?: string) {
+  try {
+    const metaplex = Metaplex.make(connection);
+    const nft: any = await metaplex.nfts().findByMint({ mintAddress: mint });
+    const image = String(nft?.json?.image || "").trim();
+    if (image) return image;
+  } catch (e) {
+    console.error("[verify] original metadata lookup failed", e);
+  }
+  return fallbackUrl;
+}
+
+async function loadImageBuffer(imageUrl?: string) {
+  if (imageUrl) {
+    const normalized = normalizeImageUrl(imageUrl);
+    if (!isAllowedImageUrl(normalized)) throw new Error("Invalid image URL");
+    const res = await fetch(normalized, { redirect: "manual" });
+    if (res.status >= 300 && res.status < 400) throw new Error("Image URL redirects are not allowed");
+    if (!res.ok) throw new Error("Failed to fetch image URL");
+    const mime = (res.headers.get("content-type") || "image/png").split(";")[0].trim();
+    if (!ALLOWED_IMAGE_MIMES.has(mime)) throw new Error("Unsupported image mime type");
+    const contentLength = Number(res.headers.get("content-length") || 0);
+    if (contentLength && contentLength > MAX_IMAGE_BYTES) throw new Error("Image too large");
+    const buf = Buffer.from(await res.arrayBuffer());
+    if (buf.length > MAX_IMAGE_BYTES) throw new Error("Image too large");
+    if (!mimeMatchesBuffer(mime, buf)) throw new Error("Image data did not match mime type");
+    return { buffer: buf, mime };
+  }
+  throw new Error("Missing original image");
+}
+
+const COLLECTIONS = {
+  remix: {
+    name: "TrashTech",
+    description:
+      "Stamped in the Gorbage Factory — a fresh TrashTech output packed with grime, glow, and hazard‑grade polish.",
+  },
+  bridge: {
+    name: "Trash Bridge",
+    description: "Remixes of NFTs locked in the Trash Bridge escrow on Solana, refurbished in the Gorbage Factory.",
+  },
+};
+
+/**
+ * The collection remixes are minted into, created on first use: TrashTech, or Trash Bridge
+ * for bridge mints. TRASHTECH_COLLECTION_MINT / BRIDGE_COLLECTION_MINT pin an existing one.
+ */
+async function ensureCollection(params: {
+  connection: Connection;
+  payer: Keypair;
+  store: LedgerStore;
+  kind: keyof typeof COLLECTIONS;
+}) {
+  const bridge = params.kind === "bridge";
+  const envCollection = bridge
+    ? process.env.BRIDGE_COLLECTION_MINT
+    : process.env.TRASHTECH_COLLECTION_MINT ||
+      process.env.COLLECTION_MINT ||
+      process.env.NEXT_PUBLIC_TRASHTECH_COLLECTION_MINT;
+  const save = (mint: string) =>
+    bridge ? params.store.setBridgeCollectionMint(mint) : params.store.setCollectionMint(mint);
+  if (envCollection) {
+    await save(envCollection);
+    return new PublicKey(envCollection);
+  }
+  const state = await params.store.getState();
+  const collectionMint = bridge ? state.bridgeCollectionMint : state.collectionMint;
+  if (collectionMint) return new PublicKey(collectionMint);
+
+  const imagePath = path.join(process.cwd(), "public", "gorbage-logo.png");
+  if (!fs.existsSync(imagePath)) throw new Error("Missing collection image at public/gorbage-logo.png");
+  const imageBuffer = fs.readFileSync(imagePath);
+
+  const collection = COLLECTIONS[params.kind];
+  const metadataUrl = await uploadNftMetadata({
+    name: collection.name,
+    description: collection.description,
+    imageBuffer,
+    imageMime: "image/png",
+    attributes: [{ trait_type: "Collection", value: collection.name }],
+  });
+
+  const metaplex = Metaplex.make(params.connection).use(keypairIdentity(params.payer));
+  const builder = await metaplex.nfts().builders().create({
+    uri: metadataUrl,
+    name: collection.name,
+    symbol: "TRASH",
+    sellerFeeBasisPoints: 0,
+    tokenOwner: params.payer.publicKey,
+    isMutable: true,
+    isCollection: true,
+  });
+  const out: any = await sendBuilderWithPolling(withComputeBudget(builder), 6);
+  const collectionAddress = out?.mintAddress;
+  if (!collectionAddress) throw new Error("Collection mint address missing");
+
+  await save(collectionAddress.toBase58());
+  return collectionAddress;
+}
+
+function withComputeBudget(builder: TransactionBuilder) {
+  return builder.prepend(
+    { instruction: ComputeBudgetProgram.setComputeUnitLimit({ units: COMPUTE_UNITS }), signers: [] },
+    {
+      instruction: ComputeBudgetProgram.setComputeUnitPrice({ microLamports: PRIORITY_FEE_MICROLAMPORTS }),
+      signers: [],
+    }
+  );
+}
+
+async function mintStandardNft(params: {
+  connection: Connection;
+  payer: Keypair;
+  mint: Keypair;
+  owner: PublicKey;
+  name: string;
+  metadataUrl: string;
+  collectionMint?: PublicKey;
+}) {
+  const metaplex = Metaplex.make(params.connection).use(keypairIdentity(params.payer));
+  const builder = await metaplex.nfts().builders().create({
+    uri: params.metadataUrl,
+    name: params.name,
+    symbol: "TRASH",
+    sellerFeeBasisPoints: 0,
+    tokenOwner: params.owner,
+    useNewMint: params.mint,
+    isMutable: true,
+    collection: params.collectionMint ?? null,
+    collectionAuthority: params.collectionMint ? params.payer : null,
+    collectionIsSized: params.collectionMint ? true : undefined,
+  });
+  const out: any = await sendBuilderWithPolling(withComputeBudget(builder), 8);
+  const mintAddress = out?.mintAddress;
+  if (!mintAddress) throw new Error("Mint address missing");
+  return mintAddress.toBase58();
+}
+
+/** A Metaplex Core asset at `asset`'s address, in the Core collection. */
+async function mintCoreAsset(params: {
+  payer: Keypair;
+  asset: Keypair;
+  owner: PublicKey;
+  name: string;
+  metadataUrl: string;
+  collection: PublicKey;
+}) {
+  const builder = TransactionBuilder.make().add({
+    instruction: coreCreateInstruction({
+      asset: params.asset.publicKey,
+      collection: params.collection,
+      authority: params.payer.publicKey,
+      owner: params.owner,
+      name: params.name,
+      uri: params.metadataUrl,
+    }),
+    signers: [params.payer, params.asset],
+  });
+  await sendBuilderWithPolling(withComputeBudget(builder), 8);
+  return params.asset.publicKey.toBase58();
+}
+
+/** A compressed NFT in the Bubblegum tree; `marker` signs a memo so retries can find it. */
+async function mintCompressedNft(params: {
+  connection: Connection;
+  payer: Keypair;
+  marker: Keypair;
+  paymentSignature: string;
+  owner: PublicKey;
+  name: string;
+  metadataUrl: string;
+  collectionMint: PublicKey;
+}) {
+  const builder = TransactionBuilder.make()
+    .add({
+      instruction: compressedMintInstruction({
+        connection: params.connection,
+        authority: params.payer.publicKey,
+        owner: params.owner,
+        collectionMint: params.collectionMint,
+        name: params.name,
+        uri: params.metadataUrl,
+      }),
+      signers: [params.payer],
+    })
+    .add({
+      instruction: mintMarkerInstruction(params.marker.publicKey, params.paymentSignature),
+      signers: [params.marker],
+    });
+  await sendBuilderWithPolling(withComputeBudget(builder), 8);
+  const assetId = await findCompressedMint(params.connection, params.marker.publicKey);
+  // Landed but not indexed yet; the job's next attempt finds it through the marker.
+  if (!assetId) throw new Error("Compressed mint sent but not visible yet");
+  return assetId;
+}
+
+/** Each attempt is a new transaction, pinned to the endpoint that is healthiest at the time. */
+async function sendBuilderWithPolling(builder: any, maxAttempts = 6) {
+  const instructions = builder.getInstructions();
+  const signerInputs: any[] = builder.getSigners?.() || [];
+  const context = builder.getContext?.() || {};
+
+  const unique = new Map<string, any>();
+  for (const signer of signerInputs) {
+    const key = signer?.publicKey?.toBase58?.();
+    if (!key) continue;
+    unique.set(key, signer);
+  }
+  const signers = Array.from(unique.values());
+  const keypairSigners = signers
+    .filter((s) => s?.secretKey)
+    .map((s) => Keypair.fromSecretKey(Uint8Array.from(s.secretKey)));
+  const identitySigners = signers.filter((s) => !s?.secretKey && typeof s?.signTransaction === "function");
+
+  if (!keypairSigners.length && !identitySigners.length) {
+    throw new Error("No signers available for mint transaction");
+  }
+
+  let lastErr: any = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const connection = getConnection();
+      const latest = await connection.getLatestBlockhash("processed");
+      const feePayer = keypairSigners[0]?.publicKey || identitySigners[0]?.publicKey;
+      if (!feePayer) throw new Error("Missing fee payer for mint transaction");
+
+      let tx = new Transaction({
+        feePayer,
+        blockhash: latest.blockhash,
+        lastValidBlockHeight: latest.lastValidBlockHeight,
+      });
+      tx.add(...instructions);
+
+      if (keypairSigners.length) tx.partialSign(...keypairSigners);
+      for (const signer of identitySigners) {
+        tx = await signer.signTransaction(tx);
+      }
+
+      const raw = tx.serialize();
+      const signature = await connection.sendRawTransaction(raw, MINT_CONFIRM_OPTIONS);
+      const started = Date.now();
+      let loops = 0;
+
+      while (Date.now() - started < 60_000) {
+        loops += 1;
+        const statusResp = await connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: false,
+        });
+        const status = statusResp?.value?.[0];
+        if (status?.err) {
+          throw new Error(`Mint transaction failed: ${JSON.stringify(status.err)}`);
+        }
+        if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+          return { ...context, signature };
+        }
+
+        if (loops % 3 === 0) {
+          // Re-broadcast same signed tx while waiting; helps when RPC propagation is delayed.
+          try {
+            await connection.sendRawTransaction(raw, MINT_CONFIRM_OPTIONS);
+          } catch {
+            // ignore rebroadcast errors
+          }
+        }
+
+        const height = await connection.getBlockHeight("processed");
+        if (height > latest.lastValidBlockHeight) {
+          throw new Error(`TransactionExpiredBlockheightExceededError: Signature ${signature} has expired: block height exceeded.`);
+        }
+        await new Promise((r) => setTimeout(r, 1200));
+      }
+
+      throw new Error(`Transaction timeout waiting confirmation: ${signature}`);
+    } catch (err: any) {
+      lastErr = err;
+      if (!isRetryableChainError(err) || attempt === maxAttempts) throw err;
+      await new Promise((r) => setTimeout(r, 1000 * attempt));
+    }
+  }
+
+  throw lastErr || new Error("Mint send failed");
+}
+
+export function isRetryableChainError(err: any) {
+  const msg = String(err?.message || err || "").toLowerCase();
+  return (
+    msg.includes("block height exceeded") ||
+    msg.includes("blockhash not found") ||
+    msg.includes("transactionexpiredblockheightexceedederror") ||
+    msg.includes("has expired") ||
+    msg.includes("could not be confirmed")
+  );
+}
+
+async function withChainRetry<T>(fn: () => Promise<T>, maxAttempts = 6): Promise<T> {
+  let lastErr: any = null;
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      lastErr = err;
+      if (!isRetryableChainError(err) || attempt === maxAttempts) {
+        throw err;
+      }
+      await new Promise((r) => setTimeout(r, 1200 * attempt));
+    }
+  }
+  throw lastErr || new Error("Chain operation failed");
+}
+
+function getFeePayer(tx: any) {
+  const keys = tx?.transaction?.message?.accountKeys;
+  if (!Array.isArray(keys) || keys.length === 0) return null;
+  const first = keys[0];
+  return first?.pubkey ? first.pubkey.toBase58() : first?.toBase58?.();
+}
+
+type PayerTransfer = {
+  /** Receiving wallet (for tokens: the owner of the receiving account); null for a token burn. */
+  destination: string | null;
+  lamports: bigint;
+};
+
+function payerTransfers(tx: any, payer: PublicKey) {
+  const transfers: PayerTransfer[] = [];
+  const instructions = tx?.transaction?.message?.instructions || [];
+  for (const ix of instructions) {
+    const program = ix?.program || ix?.programId?.toBase58?.();
+    if (program !== "system" && program !== SystemProgram.programId.toBase58()) continue;
+    if (ix?.parsed?.type !== "transfer") continue;
+    const info = ix?.parsed?.info;
+    if (!info) continue;
+    if (info.source !== payer.toBase58()) continue;
+    transfers.push({ destination: info.destination, lamports: BigInt(info.lamports || 0) });
+  }
+  return transfers;
+}
+
+/** Owner of every token account the transaction touched, from its post-token balances. */
+function tokenAccountOwners(tx: any) {
+  const keys: any[] = tx?.transaction?.message?.accountKeys || [];
+  const owners = new Map<string, string>();
+  for (const balance of tx?.meta?.postTokenBalances || []) {
+    const key = keys[balance.accountIndex];
+    const address = key?.pubkey ? key.pubkey.toBase58() : key?.toBase58?.();
+    if (address && balance.owner) owners.set(address, balance.owner);
+  }
+  return owners;
+}
+
+/**
+ * The payer's transferChecked and burnChecked instructions for `token`. Only the checked
+ * forms are accepted: they name the mint, so a transfer of another token cannot pass.
+ */
+function payerTokenTransfers(tx: any, payer: PublicKey, token: PaymentToken) {
+  const owners = tokenAccountOwners(tx);
+  const transfers: PayerTransfer[] = [];
+  const instructions = tx?.transaction?.message?.instructions || [];
+  for (const ix of instructions) {
+    if (ix?.programId?.toBase58?.() !== token.programId) continue;
+    const type = ix?.parsed?.type;
+    const info = ix?.parsed?.info;
+    if (!info || (type !== "transferChecked" && type !== "burnChecked")) continue;
+    if (info.mint !== token.mint || info.authority !== payer.toBase58()) continue;
+    const amount = BigInt(info.tokenAmount?.amount || 0);
+    if (type === "burnChecked") {
+      transfers.push({ destination: null, lamports: amount });
+      continue;
+    }
+    const owner = owners.get(info.destination);
+    if (owner) transfers.push({ destination: owner, lamports: amount });
+  }
+  return transfers;
+}
+
+/** Payment memos (../../_lib/paymentLegs) in the transaction; other memos are ignored. */
+export function paymentMemos(tx: any) {
+  const memos: PaymentMemo[] = [];
+  for (const ix of tx?.transaction?.message?.instructions || []) {
+    if (ix?.programId?.toBase58?.() !== MEMO_PROGRAM_ID.toBase58()) continue;
+    const memo = typeof ix?.parsed === "string" ? parsePaymentMemo(ix.parsed) : null;
+    if (memo) memos.push(memo);
+  }
+  return memos;
+}
+
+/**
+ * Every leg needs its own transfer from the payer to the leg's wallet of at least the
+ * leg's amount; for token payments the burn leg needs a burn instead. Returns the first
+ * leg that is missing, or null when all are paid.
+ */
+function findUnpaidLeg(tx: any, payer: PublicKey, legs: PaymentLeg[], token?: PaymentToken) {
+  const transfers = token ? payerTokenTransfers(tx, payer, token) : payerTransfers(tx, payer);
+  const largestFirst = [...legs].sort((a, b) => (BigInt(b.lamports) > BigInt(a.lamports) ? 1 : -1));
+  for (const leg of largestFirst) {
+    const destination = token && leg.role === "burn" ? null : leg.wallet;
+    const candidates = transfers
+      .filter((t) => t.destination === destination && t.lamports >= BigInt(leg.lamports))
+      .sort((a, b) => (a.lamports > b.lamports ? 1 : -1));
+    if (!candidates.length) return leg;
+    transfers.splice(transfers.indexOf(candidates[0]), 1);
+  }
+  return null;
+}
+
+const MINT_CONFIRM_OPTIONS = {
+  commitment: "processed" as const,
+  preflightCommitment: "processed" as const,
+  skipPreflight: true,
+  maxRetries: 30,
+};
+
+export type MintRequest = {
+  signature: string;
+  payer: string;
+  machine: Machine;
+  originalMint: string;
+  quoteToken: string;
+  imageUrl?: string;
+  /** Set for Trash Bridge mints: `originalMint` is then a mint on the source chain, locked in escrow. */
+  bridge?: BridgeSource;
+};
+
+/** What was paid for a quote: base units of the payment currency, and its mint for SPL tokens. */
+export type VerifiedPayment = { quoteId: string; amountLamports: string; paymentMint?: string };
+
+/** A request that can never succeed (bad payment, sold out, replay); the job fails instead of retrying. */
+export class MintRejectedError extends Error {
+  status: number;
+  /** Set when the rejection came after the payment was verified, so it is owed back. */
+  payment?: VerifiedPayment;
+
+  constructor(message: string, status = 400, payment?: VerifiedPayment) {
+    super(message);
+    this.name = "MintRejectedError";
+    this.status = status;
+    this.payment = payment;
+  }
+}
+
+export type PaymentVerified = VerifiedPayment & {
+  tier: TierId;
+  /** Fairness epoch whose secret seeded the roll, and the tiers that were sold out at the time. */
+  rollEpoch: number;
+  soldOutTiers: TierId[];
+  /** Tier scheme of the roll; missing on jobs verified before the five-tier switch. */
+  tierScheme?: number;
+  effect: RemixEffect;
+  mintNumber: number;
+  remixName: string;
+  /** What the remix is minted as (see ./mintStandards); missing on jobs from before it was configurable. */
+  mintStandard?: MintStandard;
+};
+
+const TIER_RESERVE_ATTEMPTS = 5;
+
+const REMIX_DESCRIPTION =
+  "Stamped in the Gorbage Factory — a fresh TrashTech output packed with grime, glow, and hazard‑grade polish.";
+
+/** The payment transaction from whichever endpoint has it first (see ./rpcPool), with that endpoint. */
+async function fetchPaymentTransaction(sig: string) {
+  const found = await hedgedRead(
+    async (connection) => ({
+      tx: (await connection.getParsedTransaction(sig, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      })) as any,
+      connection,
+    }),
+    { accept: (result) => !!result.tx }
+  );
+  return found.tx ? found : null;
+}
+
+/**
+ * Checks the payment against its quote, claims it for job `jobId` (which gives the mint
+ * number), rolls the tier and reserves a slot in it. `pending` carries the remixes of jobs
+ * that are not recorded yet, for the remix policy.
+ */
+export async function verifyPaymentStep(
+  request: MintRequest,
+  jobId: string,
+  pending: { remixes: PendingRemix[] }
+): Promise<PaymentVerified> {
+  const sig = request.signature;
+  return withLedgerLock(async () => {
+    const store = getLedgerStore();
+    if (await store.isSignatureUsed(sig)) {
+      throw new MintRejectedError("Signature already used", 409);
+    }
+    if (await store.getOwedPayment(sig)) {
+      throw new MintRejectedError("This payment is owed a refund and cannot be used to mint", 409);
+    }
+
+    const payer = new PublicKey(request.payer);
+    const treasury = new PublicKey(TREASURY);
+
+    const found = await fetchPaymentTransaction(sig);
+    if (!found) throw new Error("Transaction not found yet. Try again in a moment.");
+    const { tx, connection } = found;
+    if (tx.meta?.err) throw new MintRejectedError("Payment transaction failed");
+
+    const feePayer = getFeePayer(tx);
+    if (!feePayer || feePayer !== payer.toBase58()) {
+      throw new MintRejectedError("Payer is not the fee payer for this transaction");
+    }
+
+    const paidAt = tx.blockTime ? tx.blockTime * 1000 : Date.now();
+    const quoteCheck = checkQuote(request.quoteToken, {
+      payer: payer.toBase58(),
+      originalMint: request.originalMint,
+      machine: request.machine,
+      treasury: treasury.toBase58(),
+      paidAt,
+      sourceChain: request.bridge?.sourceChain,
+    });
+    if (quoteCheck.ok === false) throw new MintRejectedError(quoteCheck.error);
+    const quote = quoteCheck.quote;
+
+    // The memo is signed with the payment, so the request cannot name another NFT or machine.
+    const memos = paymentMemos(tx);
+    if (memos.length !== 1) throw new MintRejectedError("Payment must carry exactly one payment memo");
+    const [memo] = memos;
+    if (
+      memo.quoteId !== quote.id ||
+      memo.originalMint !== request.originalMint ||
+      memo.machine !== request.machine
+    ) {
+      throw new MintRejectedError("Payment memo does not match this request", 403);
+    }
+
+    const legs: PaymentLeg[] = quote.legs?.length
+      ? quote.legs
+      : [{ role: "treasury", label: "Treasury", wallet: treasury.toBase58(), lamports: quote.amountLamports }];
+    const unpaid = findUnpaidLeg(tx, payer, legs, quote.token);
+    if (unpaid) throw new MintRejectedError(`Payment verification failed: ${unpaid.label} transfer missing or short`);
+
+    const originalMint = new PublicKey(request.originalMint);
+    const payment: VerifiedPayment = {
+      quoteId: quote.id,
+      amountLamports: quote.amountLamports,
+      paymentMint: quote.token?.mint,
+    };
+    // Before anything that can record the payment as owed: the job holding the claim may be
+    // minting it. A second payment on the same quote paid in full, so it is owed instead.
+    const claimed = await store.claimMint({ signature: sig, jobId, quoteId: quote.id });
+    if (claimed.ok === false) {
+      if (claimed.conflict === "quote") throw new MintRejectedError("Quote already used", 409, payment);
+      throw new MintRejectedError("This payment is already being minted", 409);
+    }
+    // checkQuote already judged an issued quote's expiry by blockTime; the treasury indexer
+    // and resumed jobs reach those payments long after they landed. Only payments for a
+    // quote this server never stored are held to MAX_TX_SLOT_AGE, and are owed when too old.
+    if (tx.slot !== null && tx.slot !== undefined && !(await store.getIssuedQuote(quote.id))) {
+      const currentSlot = await connection.getSlot("confirmed");
+      if (currentSlot - tx.slot > MAX_TX_SLOT_AGE) {
+        throw new MintRejectedError("Transaction too old. Please submit a new payment.", 400, payment);
+      }
+    }
+    if (request.bridge) {
+      // The source lives on another chain: the escrow lock stands in for ownership. The
+      // lock is usually recorded when it confirms (/api/bridge/escrow); this payment takes
+      // it before anything else can fail, so a failed mint can release it.
+      const { escrowSignature } = request.bridge;
+      const alreadyBridged = async (unpaidOk: boolean) => {
+        const bridged = await store.getBridgeByEscrow(escrowSignature);
+        if (!bridged) return false;
+        if (bridged.status !== "locked-unminted") return true;
+        return bridged.signature === null ? !unpaidOk : bridged.signature !== sig;
+      };
+      if (await alreadyBridged(true)) {
+        throw new MintRejectedError("This escrow lock has already been bridged", 409, payment);
+      }
+      const lock = await checkEscrowLock({ escrowSignature, sourceMint: request.originalMint, owner: payer.toBase58() });
+      if (lock.ok === false) {
+        if (lock.pending) throw new Error(lock.error);
+        throw new MintRejectedError(lock.error, 403, payment);
+      }
+      await store.recordBridge({
+        signature: sig,
+        sourceChain: request.bridge.sourceChain,
+        sourceMint: request.originalMint,
+        escrowSignature,
+        owner: payer.toBase58(),
+        createdAt: new Date().toISOString(),
+      });
+      // Another payment may have taken the lock first, or it may have been reclaimed.
+      if (await alreadyBridged(false)) {
+        throw new MintRejectedError("This escrow lock has already been bridged", 409, payment);
+      }
+    } else {
+      const owns = await ownsMint(connection, payer, originalMint);
+      if (!owns) throw new MintRejectedError("Payer does not own the selected NFT", 403, payment);
+      const eligibility = await checkMintEligibility(connection, originalMint);
+      if (eligibility.eligible === false) throw new MintRejectedError(eligibility.reason, 403, payment);
+    }
+    const pricing = await recheckQuotedDiscounts(quote, connection);
+    if (pricing.ok === false) throw new MintRejectedError(pricing.error, 409, payment);
+    // /api/run checked this before quoting; another remix may have landed since.
+    const policy = await checkRemixPolicy(
+      { originalMint: request.originalMint, payer: payer.toBase58(), machine: request.machine },
+      pending.remixes
+    );
+    if (policy.ok === false) throw new MintRejectedError(policy.error, 409, payment);
+
+    // Another instance can take the rolled slot between the count and the reserve;
+    // re-roll against fresh counts when that happens.
+    const caps = getTierCaps();
+    let tier: TierId | null = null;
+    let rollEpoch = 0;
+    let tierScheme = TIER_SCHEME;
+    let soldOutTiers: TierId[] = [];
+    for (let attempt = 0; attempt < TIER_RESERVE_ATTEMPTS && !tier; attempt++) {
+      const counts = await store.getTierCounts({ includeReserved: true });
+      soldOutTiers = (Object.keys(caps) as TierId[]).filter((t) => counts[t] >= caps[t]);
+      let rolled: TierId;
+      try {
+        ({ epoch: rollEpoch, tier: rolled, tierScheme } = rollTier(request.machine, sig, paidAt, soldOutTiers));
+      } catch (e: any) {
+        throw new MintRejectedError(String(e?.message || "All tiers are sold out."), 409, payment);
+      }
+      tier = await store.reserveTierSlot({ id: sig, tier: rolled, cap: caps[rolled] });
+    }
+    if (!tier) throw new MintRejectedError("This tier is sold out", 409, payment);
+
+    const { mintNumber } = claimed.claim;
+    return {
+      ...payment,
+      tier,
+      rollEpoch,
+      soldOutTiers,
+      tierScheme,
+      effect: pickEffectFromTier(tier, sig),
+      mintNumber,
+      remixName: `TrashTech ${String(mintNumber).padStart(3, "0")}`,
+      mintStandard: outputStandard(request, tier),
+    };
+  });
+}
+
+/**
+ * Bridge mints always use Token Metadata: Core assets can only join the Core collection,
+ * and compressed remixes have no token account to burn when unlocking (see ./bridgeUnlock).
+ */
+function outputStandard(request: MintRequest, tier: TierId): MintStandard {
+  return request.bridge ? "token-metadata" : mintStandardFor(request.machine, tier);
+}
+
+/** Frees the tier slot held for a payment whose mint will not go ahead. */
+export async function releaseTierStep(request: MintRequest) {
+  await getLedgerStore().releaseTierSlot(request.signature);
+}
+
+/** Gives up job `jobId`'s claim on a payment it will not mint; a no-op when another job holds it. */
+export async function releaseClaimStep(request: MintRequest, jobId: string) {
+  await getLedgerStore().releaseMintClaim(request.signature, jobId);
+}
+
+/** Renders the remix from the original artwork and stores image + metadata (see ./metadataStorage). */
+export async function pinMetadataStep(request: MintRequest, verified: PaymentVerified) {
+  // Bridge sources are read from the chain they are locked on.
+  const connection = getConnection(request.bridge ? request.bridge.sourceChain : "gorbagana");
+  const originalImageUrl = await resolveOriginalImageUrl(
+    connection,
+    new PublicKey(request.originalMint),
+    request.imageUrl
+  );
+  const original = await loadImageBuffer(originalImageUrl);
+  const remixPng = await renderRemix({ source: original.buffer, effect: verified.effect, seed: request.signature });
+
+  const { effect } = verified;
+  const attributes = [
+    { trait_type: "Collection", value: COLLECTIONS[request.bridge ? "bridge" : "remix"].name },
+    { trait_type: "Machine", value: request.machine },
+    { trait_type: "Tier", value: verified.tier },
+    { trait_type: "Rarity", value: tierName(verified.tier) },
+    { trait_type: "Primary Effect", value: effect.primary },
+    { trait_type: "Texture", value: effect.texture },
+    { trait_type: "Glow", value: effect.glow },
+    { trait_type: "Edge", value: effect.edge },
+  ];
+  if (request.bridge) {
+    attributes.push({ trait_type: "Source Chain", value: SOURCE_CHAIN_NAMES[request.bridge.sourceChain] });
+  }
+
+  return uploadNftMetadata({
+    name: sanitizeName(verified.remixName),
+    description: REMIX_DESCRIPTION,
+    imageBuffer: remixPng,
+    imageMime: "image/png",
+    attributes,
+  });
+}
+
+/** The mint or Core asset account, or the compressed mint signed by `mint`, if it landed. */
+async function findSentMint(connection: Connection, standard: MintStandard, mint: PublicKey) {
+  if (standard === "bubblegum") return findCompressedMint(connection, mint);
+  return (await connection.getAccountInfo(mint, "confirmed")) ? mint.toBase58() : null;
+}
+
+/** Whether a mint sent for this job's `mintSecretKey` has landed, so the job must not give up. */
+export async function mintLandedStep(verified: PaymentVerified, mintSecretKey: number[]) {
+  const mint = Keypair.fromSecretKey(Uint8Array.from(mintSecretKey));
+  return !!(await findSentMint(getConnection(), verified.mintStandard ?? "token-metadata", mint.publicKey));
+}
+
+/**
+ * Mints the remix to the payer in the job's standard. `mintSecretKey` is generated once per
+ * job, so a retry after a crash either finds the mint (the mint or Core asset account, or
+ * the compressed mint signed by that key) or re-sends the same mint.
+ */
+export async function mintStep(
+  request: MintRequest,
+  verified: PaymentVerified,
+  metadataUrl: string,
+  mintSecretKey: number[]
+) {
+  const connection = getConnection();
+  const treasury = new PublicKey(TREASURY);
+  const payerKeypair = loadKeypair();
+  const mint = Keypair.fromSecretKey(Uint8Array.from(mintSecretKey));
+  const standard = verified.mintStandard ?? "token-metadata";
+  const owner = new PublicKey(request.payer);
+
+  const store = getLedgerStore();
+  if (request.bridge && !(await findSentMint(connection, standard, mint.publicKey))) {
+    // The original goes back once a bridge mint has failed (see ./bridgeUnlock).
+    const bridged = await store.getBridgeByEscrow(request.bridge.escrowSignature);
+    if (bridged && (bridged.signature !== request.signature || bridged.status !== "locked-unminted")) {
+      throw new MintRejectedError("This escrow lock is no longer held for this mint", 409);
+    }
+  }
+  const collectionMint =
+    standard === "core"
+      ? coreCollection()
+      : await withLedgerLock(() =>
+          withChainRetry(
+            () => ensureCollection({ connection, payer: payerKeypair, store, kind: request.bridge ? "bridge" : "remix" }),
+            4
+          )
+        );
+
+  const treasuryBalanceBefore = await connection.getBalance(treasury, "confirmed");
+  let sentMint = false;
+  const minted = await withChainRetry(async () => {
+    const existing = await findSentMint(connection, standard, mint.publicKey);
+    if (existing) return existing;
+    sentMint = true;
+    const asset = { payer: payerKeypair, owner, name: verified.remixName, metadataUrl };
+    if (standard === "core") return mintCoreAsset({ ...asset, asset: mint, collection: collectionMint });
+    if (standard === "bubblegum") {
+      return mintCompressedNft({
+        ...asset,
+        connection,
+        marker: mint,
+        paymentSignature: request.signature,
+        collectionMint,
+      });
+    }
+    return mintStandardNft({ ...asset, connection, mint, collectionMint });
+  }, 6);
+  const treasuryBalanceAfter = await connection.getBalance(treasury, "confirmed");
+
+  return {
+    mintedMint: minted,
+    collectionMint: collectionMint.toBase58(),
+    mintCostLamports: sentMint ? String(Math.max(0, treasuryBalanceBefore - treasuryBalanceAfter)) : undefined,
+  };
+}
+
+/** Writes the mint to the ledger; re-running it for an already recorded signature is a no-op. */
+export async function recordStep(
+  request: MintRequest,
+  verified: PaymentVerified,
+  minted: { mintedMint: string; collectionMint: string; mintCostLamports?: string }
+) {
+  await withLedgerLock(() =>
+    getLedgerStore().recordMint(
+      {
+        originalMint: request.originalMint,
+        mintedMint: minted.mintedMint,
+        signature: request.signature,
+        payer: request.payer,
+        machine: request.machine,
+        tier: verified.tier,
+        quoteId: verified.quoteId,
+        amountLamports: verified.amountLamports,
+        paymentMint: verified.paymentMint,
+        mintStandard: verified.mintStandard ?? "token-metadata",
+        rollEpoch: verified.rollEpoch,
+        soldOutTiers: verified.soldOutTiers,
+        tierScheme: verified.tierScheme ?? LEGACY_TIER_SCHEME,
+        createdAt: new Date().toISOString(),
+      },
+      { mintNumber: verified.mintNumber, mintCostLamports: minted.mintCostLamports }
+    )
+  );
+  if (request.bridge) {
+    const { sourceChain, escrowSignature } = request.bridge;
+    await withLedgerLock(async () => {
+      const store = getLedgerStore();
+      const bridged = await store.getBridgeByEscrow(escrowSignature);
+      if (bridged?.status === "locked-unminted") {
+        await store.updateBridge(escrowSignature, { status: "locked", destMint: minted.mintedMint });
+      } else if (!bridged) {
+        // Jobs verified before locks were recorded at verification.
+        await store.recordBridge({
+          signature: request.signature,
+          sourceChain,
+          sourceMint: request.originalMint,
+          escrowSignature,
+          owner: request.payer,
+          destMint: minted.mintedMint,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    });
+  }
+}
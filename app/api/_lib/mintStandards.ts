@@ -0,0 +1,236 @@
+import bs58 from "bs58";
+import { PublicKey, SystemProgram, TransactionInstruction, type Connection } from "@solana/web3.js";
+import { Metaplex } from "@metaplex-foundation/js";
+import {
+  PROGRAM_ID as BUBBLEGUM_PROGRAM_ID,
+  TokenProgramVersion,
+  TokenStandard,
+  createMintToCollectionV1Instruction,
+} from "@metaplex-foundation/mpl-bubblegum";
+import { SPL_ACCOUNT_COMPRESSION_PROGRAM_ID, SPL_NOOP_PROGRAM_ID } from "@solana/spl-account-compression";
+import { MACHINES, type MachineId } from "../../_lib/machineCatalog";
+import { MEMO_PROGRAM_ID } from "../../_lib/paymentLegs";
+import { TIERS, tierRank, type TierId } from "../../_lib/tiers";
+
+// What kind of asset a remix is minted as:
+//   token-metadata - a Token Metadata NFT in the sized TrashTech collection (the original)
+//   core           - a Metaplex Core asset in the Core collection CORE_COLLECTION
+//   bubblegum      - a compressed NFT in the pre-created tree BUBBLEGUM_TREE, verified
+//                    into the TrashTech collection
+// MINT_STANDARD sets the default, MINT_STANDARD_<MACHINE> overrides it per machine and
+// MINT_STANDARD_TIER<n> per tier (tier wins). The mint authority must be the Core
+// collection's update authority and the tree's delegate. The standard is picked when the
+// payment is verified and stays with the job, so a retry mints the same kind of asset.
+
+export type MintStandard = "token-metadata" | "core" | "bubblegum";
+
+export const MINT_STANDARDS: MintStandard[] = ["token-metadata", "core", "bubblegum"];
+
+export const CORE_PROGRAM_ID = new PublicKey("CoREENxT6tW1HoK8ypY1SxRMZTcVPm7R94rH4PZNhX7d");
+
+export function isMintStandard(value: unknown): value is MintStandard {
+  return MINT_STANDARDS.includes(value as MintStandard);
+}
+
+function readStandard(name: string, fallback: MintStandard | null) {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) return fallback;
+  if (!isMintStandard(raw)) throw new Error(`Invalid ${name} configuration`);
+  return raw;
+}
+
+function readAddress(name: string) {
+  const raw = process.env[name]?.trim();
+  if (!raw) return null;
+  try {
+    return new PublicKey(raw);
+  } catch {
+    throw new Error(`Invalid ${name} configuration`);
+  }
+}
+
+const DEFAULT_STANDARD = readStandard("MINT_STANDARD", "token-metadata")!;
+const MACHINE_STANDARDS = new Map<MachineId, MintStandard>();
+for (const machine of MACHINES) {
+  const standard = readStandard(`MINT_STANDARD_${machine.id}`, null);
+  if (standard) MACHINE_STANDARDS.set(machine.id, standard);
+}
+const TIER_STANDARDS = new Map<TierId, MintStandard>();
+for (const tier of TIERS) {
+  const standard = readStandard(`MINT_STANDARD_TIER${tierRank(tier.id)}`, null);
+  if (standard) TIER_STANDARDS.set(tier.id, standard);
+}
+
+const CORE_COLLECTION = readAddress("CORE_COLLECTION");
+const BUBBLEGUM_TREE = readAddress("BUBBLEGUM_TREE");
+
+const configured = new Set([
+  DEFAULT_STANDARD,
+  ...Array.from(MACHINE_STANDARDS.values()),
+  ...Array.from(TIER_STANDARDS.values()),
+]);
+if (configured.has("core") && !CORE_COLLECTION) {
+  throw new Error("Invalid MINT_STANDARD configuration: core needs CORE_COLLECTION");
+}
+if (configured.has("bubblegum") && !BUBBLEGUM_TREE) {
+  throw new Error("Invalid MINT_STANDARD configuration: bubblegum needs BUBBLEGUM_TREE");
+}
+
+/** The standard a remix of `machine` that rolled `tier` is minted as. */
+export function mintStandardFor(machine: MachineId, tier: TierId): MintStandard {
+  return TIER_STANDARDS.get(tier) ?? MACHINE_STANDARDS.get(machine) ?? DEFAULT_STANDARD;
+}
+
+export function coreCollection() {
+  if (!CORE_COLLECTION) throw new Error("CORE_COLLECTION is not configured");
+  return CORE_COLLECTION;
+}
+
+function bubblegumTree() {
+  if (!BUBBLEGUM_TREE) throw new Error("BUBBLEGUM_TREE is not configured");
+  return BUBBLEGUM_TREE;
+}
+
+/** Borsh string: u32 little-endian byte length, then the UTF-8 bytes. */
+function borshString(value: string) {
+  const bytes = Array.from(Buffer.from(value, "utf8"));
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return [...Array.from(length), ...bytes];
+}
+
+/**
+ * Core CreateV1 for `asset` (a new keypair, which signs) in the Core collection. The
+ * asset takes its update authority from the collection, so `authority` must be the
+ * collection's update authority. Optional accounts left out are passed as the program id.
+ */
+export function coreCreateInstruction(params: {
+  asset: PublicKey;
+  collection: PublicKey;
+  authority: PublicKey;
+  owner: PublicKey;
+  name: string;
+  uri: string;
+}) {
+  return new TransactionInstruction({
+    programId: CORE_PROGRAM_ID,
+    keys: [
+      { pubkey: params.asset, isSigner: true, isWritable: true },
+      { pubkey: params.collection, isSigner: false, isWritable: true },
+      { pubkey: params.authority, isSigner: true, isWritable: false },
+      { pubkey: params.authority, isSigner: true, isWritable: true },
+      { pubkey: params.owner, isSigner: false, isWritable: false },
+      { pubkey: CORE_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: CORE_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([
+      // CreateV1, DataState::AccountState
+      0,
+      0,
+      ...borshString(params.name),
+      ...borshString(params.uri),
+      // No plugins
+      0,
+    ]),
+  });
+}
+
+/**
+ * Bubblegum MintToCollectionV1 into BUBBLEGUM_TREE. `authority` pays, is the tree
+ * delegate and the collection's update authority, and is the verified creator.
+ */
+export function compressedMintInstruction(params: {
+  connection: Connection;
+  authority: PublicKey;
+  owner: PublicKey;
+  collectionMint: PublicKey;
+  name: string;
+  uri: string;
+}) {
+  const metaplex = Metaplex.make(params.connection);
+  const tree = bubblegumTree();
+  const [treeAuthority] = PublicKey.findProgramAddressSync([tree.toBuffer()], BUBBLEGUM_PROGRAM_ID);
+  const [bubblegumSigner] = PublicKey.findProgramAddressSync([Buffer.from("collection_cpi")], BUBBLEGUM_PROGRAM_ID);
+  return createMintToCollectionV1Instruction(
+    {
+      treeAuthority,
+      leafOwner: params.owner,
+      leafDelegate: params.owner,
+      merkleTree: tree,
+      payer: params.authority,
+      treeDelegate: params.authority,
+      collectionAuthority: params.authority,
+      collectionAuthorityRecordPda: BUBBLEGUM_PROGRAM_ID,
+      collectionMint: params.collectionMint,
+      collectionMetadata: metaplex.nfts().pdas().metadata({ mint: params.collectionMint }),
+      editionAccount: metaplex.nfts().pdas().masterEdition({ mint: params.collectionMint }),
+      bubblegumSigner,
+      logWrapper: SPL_NOOP_PROGRAM_ID,
+      compressionProgram: SPL_ACCOUNT_COMPRESSION_PROGRAM_ID,
+      tokenMetadataProgram: metaplex.programs().getTokenMetadata().address,
+    },
+    {
+      metadataArgs: {
+        name: params.name,
+        symbol: "TRASH",
+        uri: params.uri,
+        sellerFeeBasisPoints: 0,
+        primarySaleHappened: false,
+        isMutable: true,
+        editionNonce: null,
+        tokenStandard: TokenStandard.NonFungible,
+        collection: { key: params.collectionMint, verified: false },
+        uses: null,
+        tokenProgramVersion: TokenProgramVersion.Original,
+        creators: [{ address: params.authority, verified: true, share: 100 }],
+      },
+    }
+  );
+}
+
+/**
+ * A memo signed by the job's mint keypair. Compressed mints create no account of their
+ * own, so this is how a retry finds a mint that already landed (findCompressedMint).
+ */
+export function mintMarkerInstruction(marker: PublicKey, paymentSignature: string) {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: marker, isSigner: true, isWritable: false }],
+    data: Buffer.from(`gorbage-factory:mint:${paymentSignature}`, "utf8"),
+  });
+}
+
+/**
+ * The asset id of the compressed NFT minted in `tx`, read from the leaf Bubblegum logs
+ * through the noop program: AccountCompressionEvent::ApplicationData (1), V1 (0), a u32
+ * length, BubblegumEventType::LeafSchemaEvent (1), Version::V1 (0), then LeafSchema::V1
+ * whose first field is the id.
+ */
+export function compressedAssetIdFromTransaction(tx: any): string | null {
+  for (const group of tx?.meta?.innerInstructions || []) {
+    for (const ix of group.instructions || []) {
+      const programId = ix.programId?.toBase58?.() ?? String(ix.programId || "");
+      if (programId !== SPL_NOOP_PROGRAM_ID.toBase58() || typeof ix.data !== "string") continue;
+      const data = Buffer.from(bs58.decode(ix.data));
+      if (data.length < 41 || data[0] !== 1 || data[1] !== 0 || data[6] !== 1 || data[8] !== 0) continue;
+      return new PublicKey(data.subarray(9, 41)).toBase58();
+    }
+  }
+  return null;
+}
+
+/** The compressed NFT an earlier attempt minted with `marker`, if one landed. */
+export async function findCompressedMint(connection: Connection, marker: PublicKey) {
+  const signatures = await connection.getSignaturesForAddress(marker, { limit: 10 }, "confirmed");
+  for (const info of signatures) {
+    if (info.err) continue;
+    const tx = await connection.getParsedTransaction(info.signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    const assetId = compressedAssetIdFromTransaction(tx);
+    if (assetId) return assetId;
+  }
+  return null;
+}
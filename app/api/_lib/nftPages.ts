@@ -0,0 +1,126 @@
+import { PublicKey } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { hedgedRead, type RpcPoolName } from "./rpcPool";
+
+// Cursor pagination for the wallet NFT routes (/api/nfts, /api/bridge/nfts). A cursor is
+// opaque to the client: base64url JSON naming where the next page comes from.
+//   das      - a DAS getAssetsByOwner page, by page number or keyset (before/after an asset id)
+//   accounts - an offset into the owner's NFT-like mints, read from their token accounts
+//              and sorted by mint so offsets stay put between requests
+// Each page is cached on its own, keyed by owner, cursor and limit.
+
+export type NftCursor =
+  | { source: "das"; page?: number; before?: string; after?: string }
+  | { source: "accounts"; offset: number };
+
+export type NftPage<T> = { items: T[]; nextCursor: string | null };
+
+export type PageCacheEntry<T> = NftPage<T> & { updatedAt: number };
+
+const MAX_CACHED_PAGES = 500;
+
+export function encodeNftCursor(cursor: NftCursor) {
+  return Buffer.from(JSON.stringify(cursor))
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/** The cursor in `raw`, or null when it is malformed. */
+export function decodeNftCursor(raw: string): NftCursor | null {
+  let cursor: any;
+  try {
+    // Node's base64 decoder also reads the URL-safe alphabet.
+    cursor = JSON.parse(Buffer.from(raw, "base64").toString("utf8"));
+  } catch {
+    return null;
+  }
+  const isId = (value: unknown) => value === undefined || (typeof value === "string" && value.length <= 64);
+  if (cursor?.source === "accounts") {
+    if (!Number.isInteger(cursor.offset) || cursor.offset < 0) return null;
+    return { source: "accounts", offset: cursor.offset };
+  }
+  if (cursor?.source === "das") {
+    if (cursor.page !== undefined && !(Number.isInteger(cursor.page) && cursor.page >= 1)) return null;
+    if (!isId(cursor.before) || !isId(cursor.after)) return null;
+    return { source: "das", page: cursor.page, before: cursor.before, after: cursor.after };
+  }
+  return null;
+}
+
+/** Page size from the `limit` query parameter: `max` when missing, null when invalid. */
+export function parsePageLimit(raw: string | null, max: number) {
+  if (raw === null || raw === "") return max;
+  const limit = Number(raw);
+  return Number.isInteger(limit) && limit >= 1 && limit <= max ? limit : null;
+}
+
+/** Stores a page (or mint list), dropping the oldest entries once the cache is full. */
+export function rememberPage<V>(cache: Map<string, V>, key: string, entry: V) {
+  cache.delete(key);
+  cache.set(key, entry);
+  while (cache.size > MAX_CACHED_PAGES) cache.delete(cache.keys().next().value!);
+}
+
+/** Rejects with "<label> timeout" when `promise` has not settled within `timeoutMs`. */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timeout`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+type MintList = { mints: string[]; updatedAt: number };
+const mintLists = new Map<string, MintList>();
+
+/**
+ * Every mint `owner` holds whole, non-divisible tokens of (NFT-like), sorted. The list is
+ * cached for `ttlMs` so paging through a large wallet reads its token accounts once.
+ */
+export async function ownedNftMints(
+  owner: PublicKey,
+  opts: { pool?: RpcPoolName; ttlMs: number; timeoutMs: number }
+): Promise<string[]> {
+  const key = `${opts.pool ?? "gorbagana"}:${owner.toBase58()}`;
+  const cached = mintLists.get(key);
+  if (cached && Date.now() - cached.updatedAt < opts.ttlMs) return cached.mints;
+
+  const mints = new Set<string>();
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const parsed = await withTimeout(
+      hedgedRead((connection) => connection.getParsedTokenAccountsByOwner(owner, { programId }, "confirmed"), {
+        pool: opts.pool,
+      }),
+      opts.timeoutMs,
+      "token accounts"
+    );
+    for (const row of parsed.value) {
+      const info: any = (row.account.data as any)?.parsed?.info;
+      const mint = String(info?.mint || "");
+      const amount = Number(info?.tokenAmount?.uiAmount ?? 0);
+      const decimals = Number(info?.tokenAmount?.decimals ?? 0);
+      if (mint && amount > 0 && decimals === 0) mints.add(mint);
+    }
+  }
+  const sorted = Array.from(mints).sort();
+  rememberPage(mintLists, key, { mints: sorted, updatedAt: Date.now() });
+  return sorted;
+}
+
+/** One page of `owner`'s NFT-like mints from an accounts cursor, with the cursor after it. */
+export async function pageOwnedMints(
+  owner: PublicKey,
+  offset: number,
+  limit: number,
+  opts: Parameters<typeof ownedNftMints>[1]
+): Promise<NftPage<string>> {
+  const mints = await ownedNftMints(owner, opts);
+  const items = mints.slice(offset, offset + limit);
+  const next = offset + items.length;
+  return {
+    items,
+    nextCursor: next < mints.length ? encodeNftCursor({ source: "accounts", offset: next }) : null,
+  };
+}
@@ -0,0 +1,74 @@
+import { PublicKey } from "@solana/web3.js";
+import { tokenAccountFor, type PaymentLeg, type PaymentToken } from "../../_lib/paymentLegs";
+
+// How a quoted amount is divided between payment legs:
+//   BURN_SPLIT_BPS - share sent to BURN_WALLET (default: the incinerator, whose lamports
+//                    nobody can spend)
+//   PAYMENT_SHARES - extra shares as label:wallet:bps, comma-separated (creators, partners)
+// The treasury (TREASURY_WALLET) takes what is left, including rounding dust.
+// Token payments use the same split; their burn leg is burned outright (burnChecked)
+// instead of being sent to BURN_WALLET.
+
+const INCINERATOR = "1nc1nerator11111111111111111111111111111111";
+const BPS = 10_000;
+
+type Share = { role: PaymentLeg["role"]; label: string; wallet: string; bps: number };
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required env var: ${name}`);
+  return value;
+}
+
+function checkAddress(name: string, value: string) {
+  try {
+    new PublicKey(value);
+  } catch {
+    throw new Error(`Invalid ${name} configuration: ${value} is not an address`);
+  }
+}
+
+const TREASURY = requireEnv("TREASURY_WALLET");
+const BURN_SPLIT_BPS = Number(process.env.BURN_SPLIT_BPS ?? 0);
+const BURN_WALLET = process.env.BURN_WALLET || INCINERATOR;
+
+if (!Number.isInteger(BURN_SPLIT_BPS) || BURN_SPLIT_BPS < 0 || BURN_SPLIT_BPS > BPS) {
+  throw new Error("Invalid BURN_SPLIT_BPS configuration");
+}
+checkAddress("BURN_WALLET", BURN_WALLET);
+
+const SHARES: Share[] = [];
+if (BURN_SPLIT_BPS) SHARES.push({ role: "burn", label: "Burn", wallet: BURN_WALLET, bps: BURN_SPLIT_BPS });
+for (const entry of (process.env.PAYMENT_SHARES || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+  const [label, wallet, bps] = entry.split(":").map((s) => s.trim());
+  const share = Number(bps);
+  if (!label || !wallet || !Number.isInteger(share) || share <= 0) {
+    throw new Error(`Invalid PAYMENT_SHARES configuration: ${entry}`);
+  }
+  checkAddress("PAYMENT_SHARES", wallet);
+  SHARES.push({ role: "share", label, wallet, bps: share });
+}
+if (SHARES.reduce((sum, s) => sum + s.bps, 0) >= BPS) {
+  throw new Error("Invalid payment split: burn and shares must leave the treasury something");
+}
+
+/**
+ * Splits `amountLamports` (base units of the payment currency) into legs; legs that round
+ * to zero are left out. With a `token`, legs that receive funds carry the recipient's ATA.
+ */
+export function splitPayment(amountLamports: string, token?: PaymentToken): PaymentLeg[] {
+  const total = BigInt(amountLamports);
+  let rest = total;
+  const legs: PaymentLeg[] = [];
+  for (const share of SHARES) {
+    const lamports = (total * BigInt(share.bps)) / BigInt(BPS);
+    if (lamports <= BigInt(0)) continue;
+    rest -= lamports;
+    legs.push({ role: share.role, label: share.label, wallet: share.wallet, lamports: lamports.toString() });
+  }
+  legs.unshift({ role: "treasury", label: "Treasury", wallet: TREASURY, lamports: rest.toString() });
+  if (!token) return legs;
+  return legs.map((leg) =>
+    leg.role === "burn" ? leg : { ...leg, ata: tokenAccountFor(new PublicKey(leg.wallet), token).toBase58() }
+  );
+}
@@ -0,0 +1,88 @@
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, getMint } from "@solana/spl-token";
+import { MACHINES, type MachineId } from "../../_lib/machineCatalog";
+import type { PaymentToken } from "../../_lib/paymentLegs";
+
+// SPL tokens machines can be paid in, next to native $GOR:
+//   PAYMENT_TOKENS           - SYMBOL:mint pairs, comma-separated (Token or Token-2022 mints)
+//   PRICE_<MACHINE>_<SYMBOL> - a machine's price in that token, in whole tokens ("2.5")
+// A machine without a price for a token cannot be paid in it. Decimals and the owning
+// token program are read from the mint account once and cached.
+
+export const NATIVE_CURRENCY = "GOR";
+
+const TOKENS = new Map<string, string>();
+for (const entry of (process.env.PAYMENT_TOKENS || "").split(",").map((s) => s.trim()).filter(Boolean)) {
+  const [symbol, mint] = entry.split(":").map((s) => s.trim());
+  if (!symbol || !/^[A-Z][A-Z0-9]*$/.test(symbol) || symbol === NATIVE_CURRENCY || TOKENS.has(symbol)) {
+    throw new Error(`Invalid PAYMENT_TOKENS configuration: ${entry}`);
+  }
+  try {
+    new PublicKey(mint);
+  } catch {
+    throw new Error(`Invalid PAYMENT_TOKENS configuration: ${mint} is not an address`);
+  }
+  TOKENS.set(symbol, mint);
+}
+
+const TOKEN_PRICES = new Map<string, string>();
+for (const machine of MACHINES) {
+  for (const symbol of Array.from(TOKENS.keys())) {
+    const raw = process.env[`PRICE_${machine.id}_${symbol}`]?.trim();
+    if (!raw) continue;
+    if (!/^\d+(\.\d+)?$/.test(raw) || Number(raw) <= 0) {
+      throw new Error(`Invalid PRICE_${machine.id}_${symbol} configuration`);
+    }
+    TOKEN_PRICES.set(`${machine.id}:${symbol}`, raw);
+  }
+}
+
+const resolved = new Map<string, PaymentToken>();
+
+export function isPaymentCurrency(value: unknown): value is string {
+  return value === NATIVE_CURRENCY || (typeof value === "string" && TOKENS.has(value));
+}
+
+/** Currencies `machine` can be paid in, native first. */
+export function currenciesFor(machine: MachineId) {
+  return [NATIVE_CURRENCY, ...Array.from(TOKENS.keys()).filter((symbol) => TOKEN_PRICES.has(`${machine}:${symbol}`))];
+}
+
+/** The machine's price in whole `symbol` tokens, as configured, or null when it has none. */
+export function tokenPriceFor(machine: MachineId, symbol: string) {
+  return TOKEN_PRICES.get(`${machine}:${symbol}`) ?? null;
+}
+
+/** Every token price of `machine`, keyed by symbol. */
+export function tokenPricesFor(machine: MachineId) {
+  return Object.fromEntries(currenciesFor(machine).slice(1).map((symbol) => [symbol, tokenPriceFor(machine, symbol)!]));
+}
+
+/** Mint, decimals and program for a configured token, read from chain on first use. */
+export async function getPaymentToken(connection: Connection, symbol: string): Promise<PaymentToken> {
+  const cached = resolved.get(symbol);
+  if (cached) return cached;
+  const mint = TOKENS.get(symbol);
+  if (!mint) throw new Error(`Unknown payment token: ${symbol}`);
+  const token = await describeMint(connection, mint, symbol);
+  resolved.set(symbol, token);
+  return token;
+}
+
+/** Reads decimals and the owning program of any SPL mint. */
+export async function describeMint(connection: Connection, mint: string, symbol = ""): Promise<PaymentToken> {
+  const address = new PublicKey(mint);
+  const account = await connection.getAccountInfo(address, "confirmed");
+  if (!account) throw new Error(`Token mint ${mint} not found`);
+  const programId = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].find((id) => account.owner.equals(id));
+  if (!programId) throw new Error(`Account ${mint} is not an SPL token mint`);
+  const info = await getMint(connection, address, "confirmed", programId);
+  return { symbol, mint, decimals: info.decimals, programId: programId.toBase58() };
+}
+
+/** "2.5" with 6 decimals -> 2500000n. Extra fractional digits are rejected, not rounded. */
+export function toBaseUnits(amount: string, decimals: number) {
+  const [whole, fraction = ""] = amount.split(".");
+  if (fraction.length > decimals) throw new Error(`Price ${amount} has more than ${decimals} decimals`);
+  return BigInt(whole + fraction.padEnd(decimals, "0"));
+}
@@ -0,0 +1,38 @@
+import { ComputeBudgetProgram, PublicKey, Transaction, type Connection } from "@solana/web3.js";
+import { paymentInstructions, paymentMemoInstruction } from "../../_lib/paymentLegs";
+import type { Quote } from "./quotes";
+
+// The payment transaction /api/run hands the client when asked to build it: compute budget,
+// one instruction set per leg (../../_lib/paymentLegs) and the payment memo binding it to
+// the quote. The client only signs, so what lands on-chain is exactly what verify expects.
+//   PAYMENT_COMPUTE_UNITS               - compute unit limit (default 200000)
+//   PAYMENT_PRIORITY_FEE_MICROLAMPORTS  - priority fee per unit, paid by the payer (0 = none)
+
+const COMPUTE_UNITS = Number(process.env.PAYMENT_COMPUTE_UNITS ?? 200000);
+const PRIORITY_FEE_MICROLAMPORTS = Number(process.env.PAYMENT_PRIORITY_FEE_MICROLAMPORTS ?? 10000);
+
+if (!Number.isInteger(COMPUTE_UNITS) || COMPUTE_UNITS <= 0 || COMPUTE_UNITS > 1_400_000) {
+  throw new Error("Invalid PAYMENT_COMPUTE_UNITS configuration");
+}
+if (!Number.isInteger(PRIORITY_FEE_MICROLAMPORTS) || PRIORITY_FEE_MICROLAMPORTS < 0) {
+  throw new Error("Invalid PAYMENT_PRIORITY_FEE_MICROLAMPORTS configuration");
+}
+
+/** Unsigned payment transaction for `quote`, base64-encoded, with the blockhash it expires with. */
+export async function buildPaymentTransaction(connection: Connection, quote: Quote) {
+  const payer = new PublicKey(quote.payer);
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+  const tx = new Transaction({ feePayer: payer, blockhash, lastValidBlockHeight });
+  tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: COMPUTE_UNITS }));
+  if (PRIORITY_FEE_MICROLAMPORTS) {
+    tx.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: PRIORITY_FEE_MICROLAMPORTS }));
+  }
+  tx.add(
+    ...paymentInstructions(payer, quote),
+    paymentMemoInstruction(payer, { quoteId: quote.id, originalMint: quote.originalMint, machine: quote.machine })
+  );
+  return {
+    transaction: tx.serialize({ requireAllSignatures: false, verifySignatures: false }).toString("base64"),
+    lastValidBlockHeight,
+  };
+}
@@ -0,0 +1,40 @@
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { getLedgerStore } from "./ledgerStore";
+import { MACHINES, type MachineId } from "../../_lib/machineCatalog";
+
+// Machine prices in $GOR. The catalog holds the defaults; PRICE_<ID>_GOR (or the older
+// PRICE_<ID>_GGOR) overrides one per deployment. A price of 0 means "charge what the
+// last mint cost", for running a machine at cost.
+
+export const GOR_LAMPORTS = Number(process.env.GOR_LAMPORTS ?? LAMPORTS_PER_SOL);
+
+if (!Number.isFinite(GOR_LAMPORTS) || GOR_LAMPORTS <= 0) {
+  throw new Error("Invalid GOR_LAMPORTS configuration");
+}
+
+const PRICES: Record<MachineId, number> = Object.fromEntries(
+  MACHINES.map((m) => {
+    const raw = process.env[`PRICE_${m.id}_GOR`] ?? process.env[`PRICE_${m.id}_GGOR`];
+    return [m.id, raw === undefined ? m.priceGor : Number(raw)];
+  })
+);
+
+for (const [id, price] of Object.entries(PRICES)) {
+  if (!Number.isFinite(price) || price < 0) throw new Error(`Invalid PRICE_${id}_GOR configuration`);
+}
+
+async function loadLastMintCostLamports(): Promise<number | null> {
+  const { lastMintCostLamports } = await getLedgerStore().getState();
+  const val = Number(lastMintCostLamports ?? 0);
+  return Number.isFinite(val) && val > 0 ? val : null;
+}
+
+/** The machine's price in $GOR. */
+export async function priceFor(machine: MachineId) {
+  const price = PRICES[machine];
+  if (price === undefined) throw new Error(`Unknown machine: ${machine}`);
+  if (price > 0) return price;
+  const last = await loadLastMintCostLamports();
+  if (!last) throw new Error(`No mint cost recorded yet. Set PRICE_${machine}_GOR or run one mint.`);
+  return last / GOR_LAMPORTS;
+}
@@ -0,0 +1,84 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Connection } from "@solana/web3.js";
+
+const PAYER = "11111111111111111111111111111111";
+const connection = {} as Connection;
+const HOUR = 3_600_000;
+
+function promo(id: string, percentOff: number) {
+  return {
+    id,
+    type: "promo",
+    percentOff,
+    startsAt: new Date(Date.now() - HOUR).toISOString(),
+    endsAt: new Date(Date.now() + HOUR).toISOString(),
+  };
+}
+
+const scarcity = { id: "low", type: "scarcity", tier: "tier5", steps: [{ remainingBelow: 0.6, percentUp: 20 }] };
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "pricing-rules-"));
+  vi.resetModules();
+  delete (globalThis as any).__gorbageLedgerStore;
+  vi.stubEnv("LEDGER_BACKEND", "file");
+  vi.stubEnv("REMIX_LEDGER_PATH", path.join(dir, "ledger.json"));
+  vi.stubEnv("PRICE_CONVEYOR_GOR", "100");
+  vi.stubEnv("PRICING_MAX_DISCOUNT_PERCENT", "50");
+  vi.stubEnv("TIER5_CAP", "2");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function quote(rules: unknown[]) {
+  vi.stubEnv("PRICING_RULES", JSON.stringify(rules));
+  const { quotePrice } = await import("./pricingRules");
+  return quotePrice({ machine: "CONVEYOR", payer: PAYER, connection });
+}
+
+/** Takes one of the two tier5 slots, so half its supply is left. */
+async function reserveHalfOfTier5() {
+  const { getLedgerStore } = await import("./ledgerStore");
+  await getLedgerStore().reserveTierSlot({ id: "held", tier: "tier5", cap: 2 });
+}
+
+describe("quotePrice", () => {
+  it("charges the base price without rules", async () => {
+    const priced = await quote([]);
+    expect(priced.price).toBe(100);
+    expect(priced.rules).toEqual([]);
+  });
+
+  it("stacks discounts on the running price", async () => {
+    const priced = await quote([promo("a", 20), promo("b", 10)]);
+    expect(priced.price).toBe(72);
+    expect(priced.rules.map((rule) => rule.percent)).toEqual([-20, -10]);
+  });
+
+  it("caps the total discount", async () => {
+    expect((await quote([promo("a", 60), promo("b", 40)])).price).toBe(50);
+  });
+
+  it("caps a 100% discount instead of failing", async () => {
+    expect((await quote([promo("free", 100)])).price).toBe(50);
+  });
+
+  it("charges markups in full on top of the capped price", async () => {
+    await reserveHalfOfTier5();
+    const priced = await quote([promo("free", 100), scarcity]);
+    expect(priced.price).toBe(60);
+    expect(priced.rules.map((rule) => rule.percent)).toEqual([-100, 20]);
+  });
+
+  it("rejects a percentOff above 100", async () => {
+    await expect(quote([promo("too-much", 101)])).rejects.toThrow("Invalid PRICING_RULES configuration");
+  });
+});
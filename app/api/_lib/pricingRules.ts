@@ -0,0 +1,286 @@
+import fs from "fs";
+import { Metaplex } from "@metaplex-foundation/js";
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { getLedgerStore } from "./ledgerStore";
+import { GOR_LAMPORTS, priceFor } from "./pricing";
+import { getTierCaps } from "./tierCaps";
+import { NATIVE_CURRENCY, getPaymentToken, toBaseUnits, tokenPriceFor } from "./paymentTokens";
+import { isMachineId, type MachineId } from "../../_lib/machineCatalog";
+import { TIER_IDS, isTierId, type TierId } from "../../_lib/tiers";
+import type { PaymentToken } from "../../_lib/paymentLegs";
+
+// Price adjustments on top of the machine price (./pricing). Rules come from
+// PRICING_RULES_PATH (a JSON file) or PRICING_RULES (inline JSON): an array of
+//   { type: "holder_discount", percentOff, collection?, minHeld? } - payer holds TrashTech
+//       (or `collection`) NFTs
+//   { type: "bulk", fromRemix, percentOff }            - the payer's Nth remix onwards
+//   { type: "promo", startsAt, endsAt, percentOff }    - ISO time window
+//   { type: "scarcity", tier?, steps: [{ remainingBelow, percentUp }] } - markup once the
+//       share of `tier` (or of all supply) left drops below a step
+// each with an `id`, an optional `label` and an optional `machines` list. Rules apply in
+// order, each scaling the running price; total discount is capped at
+// PRICING_MAX_DISCOUNT_PERCENT. The quote lists what applied, and verify re-checks the
+// discounts (a holder who sold between quote and payment is refunded instead of minted).
+// Rules apply the same way whatever currency (./paymentTokens) the machine is paid in.
+
+type RuleBase = { id: string; label?: string; machines?: MachineId[] };
+
+export type PricingRule =
+  | (RuleBase & { type: "holder_discount"; percentOff: number; collection?: string; minHeld?: number })
+  | (RuleBase & { type: "bulk"; fromRemix: number; percentOff: number })
+  | (RuleBase & { type: "promo"; startsAt: string; endsAt: string; percentOff: number })
+  | (RuleBase & { type: "scarcity"; tier?: TierId; steps: Array<{ remainingBelow: number; percentUp: number }> });
+
+export type AppliedRule = {
+  id: string;
+  type: PricingRule["type"];
+  label: string;
+  /** Signed: -10 is 10% off, 25 is a 25% markup. */
+  percent: number;
+};
+
+export type PriceQuote = {
+  currency: string;
+  /** Set when paying in an SPL token rather than native $GOR. */
+  token?: PaymentToken;
+  /** Prices in whole units of `currency`. */
+  basePrice: number;
+  price: number;
+  /** Base units of `currency` (lamports for $GOR). */
+  amountLamports: string;
+  rules: AppliedRule[];
+};
+
+type RuleContext = {
+  machine: MachineId;
+  payer: string;
+  /** Time the rules are evaluated at (the quote's issue time when re-checking). */
+  at: number;
+  connection: Connection;
+};
+
+const MAX_DISCOUNT_PERCENT = Number(process.env.PRICING_MAX_DISCOUNT_PERCENT ?? 50);
+
+if (!Number.isFinite(MAX_DISCOUNT_PERCENT) || MAX_DISCOUNT_PERCENT < 0 || MAX_DISCOUNT_PERCENT > 100) {
+  throw new Error("Invalid PRICING_MAX_DISCOUNT_PERCENT configuration");
+}
+
+function invalid(message: string): never {
+  throw new Error(`Invalid PRICING_RULES configuration: ${message}`);
+}
+
+function isPercent(value: unknown, max: number) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= max;
+}
+
+function validateRule(rule: any, seen: Set<string>): PricingRule {
+  if (!rule || typeof rule.id !== "string" || !rule.id) invalid("every rule needs an id");
+  if (seen.has(rule.id)) invalid(`duplicate id ${rule.id}`);
+  seen.add(rule.id);
+  if (rule.machines !== undefined) {
+    if (!Array.isArray(rule.machines) || !rule.machines.every(isMachineId)) invalid(`${rule.id} has unknown machines`);
+  }
+  switch (rule.type) {
+    case "holder_discount":
+      if (!isPercent(rule.percentOff, 100)) invalid(`${rule.id} percentOff must be in (0, 100]`);
+      if (rule.collection !== undefined) {
+        try {
+          new PublicKey(rule.collection);
+        } catch {
+          invalid(`${rule.id} collection is not an address`);
+        }
+      }
+      if (rule.minHeld !== undefined && !(Number.isInteger(rule.minHeld) && rule.minHeld > 0)) {
+        invalid(`${rule.id} minHeld must be a positive integer`);
+      }
+      break;
+    case "bulk":
+      if (!isPercent(rule.percentOff, 100)) invalid(`${rule.id} percentOff must be in (0, 100]`);
+      if (!(Number.isInteger(rule.fromRemix) && rule.fromRemix > 1)) invalid(`${rule.id} fromRemix must be 2 or more`);
+      break;
+    case "promo":
+      if (!isPercent(rule.percentOff, 100)) invalid(`${rule.id} percentOff must be in (0, 100]`);
+      if (!(Date.parse(rule.startsAt) < Date.parse(rule.endsAt))) invalid(`${rule.id} needs startsAt before endsAt`);
+      break;
+    case "scarcity":
+      if (rule.tier !== undefined && !isTierId(rule.tier)) invalid(`${rule.id} has an unknown tier`);
+      if (!Array.isArray(rule.steps) || !rule.steps.length) invalid(`${rule.id} needs steps`);
+      for (const step of rule.steps) {
+        if (!(step?.remainingBelow > 0 && step.remainingBelow <= 1)) {
+          invalid(`${rule.id} remainingBelow must be in (0, 1]`);
+        }
+        if (!isPercent(step.percentUp, 1000)) invalid(`${rule.id} percentUp must be in (0, 1000]`);
+      }
+      break;
+    default:
+      invalid(`${rule.id} has unknown type ${rule.type}`);
+  }
+  return rule as PricingRule;
+}
+
+function loadRules(): PricingRule[] {
+  const filePath = process.env.PRICING_RULES_PATH;
+  const raw = filePath ? fs.readFileSync(filePath, "utf8") : process.env.PRICING_RULES || "";
+  if (!raw.trim()) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    invalid("not valid JSON");
+  }
+  if (!Array.isArray(parsed)) invalid("expected an array of rules");
+  const seen = new Set<string>();
+  return parsed.map((rule) => validateRule(rule, seen));
+}
+
+const RULES = loadRules();
+
+const DEFAULT_LABELS: Record<PricingRule["type"], string> = {
+  holder_discount: "TrashTech holder discount",
+  bulk: "Repeat remixer discount",
+  promo: "Promo",
+  scarcity: "Low supply",
+};
+
+async function trashTechCollection() {
+  const envCollection =
+    process.env.TRASHTECH_COLLECTION_MINT ||
+    process.env.COLLECTION_MINT ||
+    process.env.NEXT_PUBLIC_TRASHTECH_COLLECTION_MINT;
+  if (envCollection) return envCollection;
+  return (await getLedgerStore().getState()).collectionMint;
+}
+
+/** Mints per metadata lookup (one getMultipleAccounts call). */
+const METADATA_BATCH = 100;
+
+/** Whether `owner` holds at least `min` NFTs in the verified collection `collection`. */
+async function holdsFromCollection(connection: Connection, owner: PublicKey, collection: string, min: number) {
+  const mints: PublicKey[] = [];
+  for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+    const resp = await connection.getParsedTokenAccountsByOwner(owner, { programId }, "confirmed");
+    for (const { account } of resp.value) {
+      const info: any = account.data.parsed?.info;
+      if (Number(info?.tokenAmount?.uiAmount ?? 0) > 0 && Number(info?.tokenAmount?.decimals ?? 0) === 0) {
+        mints.push(new PublicKey(info.mint));
+      }
+    }
+  }
+  // Every holding counts, read a batch at a time; stops once `min` is reached or out of reach.
+  let held = 0;
+  for (let start = 0; start < mints.length && held + (mints.length - start) >= min; start += METADATA_BATCH) {
+    const batch = mints.slice(start, start + METADATA_BATCH);
+    const metas: any[] = await Metaplex.make(connection).nfts().findAllByMintList({ mints: batch });
+    held += metas.filter(
+      (meta) => meta?.collection?.verified && meta.collection.address?.toBase58?.() === collection
+    ).length;
+    if (held >= min) return true;
+  }
+  return false;
+}
+
+function remainingShare(counts: Record<TierId, number>, caps: Record<TierId, number>, tier?: TierId) {
+  const tiers = tier ? [tier] : TIER_IDS;
+  const cap = tiers.reduce((sum, t) => sum + caps[t], 0);
+  if (!cap) return 0;
+  return tiers.reduce((sum, t) => sum + Math.max(0, caps[t] - counts[t]), 0) / cap;
+}
+
+/** The rule's signed percent for this context, or null when it does not apply. */
+async function evaluateRule(rule: PricingRule, ctx: RuleContext): Promise<number | null> {
+  if (rule.machines && !rule.machines.includes(ctx.machine)) return null;
+  switch (rule.type) {
+    case "holder_discount": {
+      const collection = rule.collection || (await trashTechCollection());
+      if (!collection) return null;
+      const holds = await holdsFromCollection(ctx.connection, new PublicKey(ctx.payer), collection, rule.minHeld ?? 1);
+      return holds ? -rule.percentOff : null;
+    }
+    case "bulk": {
+      const { count } = await getLedgerStore().getRemixStats({ payer: ctx.payer });
+      return count + 1 >= rule.fromRemix ? -rule.percentOff : null;
+    }
+    case "promo":
+      return ctx.at >= Date.parse(rule.startsAt) && ctx.at < Date.parse(rule.endsAt) ? -rule.percentOff : null;
+    case "scarcity": {
+      const counts = await getLedgerStore().getTierCounts({ includeReserved: true });
+      const share = remainingShare(counts, getTierCaps(), rule.tier);
+      const steps = rule.steps.filter((step) => share < step.remainingBelow);
+      return steps.length ? Math.max(...steps.map((step) => step.percentUp)) : null;
+    }
+  }
+}
+
+function scale(lamports: bigint, percent: number) {
+  return (lamports * BigInt(10_000 + Math.round(percent * 100))) / BigInt(10_000);
+}
+
+/** The machine's price before rules, in base units of `currency`. */
+async function basePriceIn(machine: MachineId, currency: string, connection: Connection) {
+  if (currency === NATIVE_CURRENCY) {
+    return { units: GOR_LAMPORTS, base: BigInt(Math.round((await priceFor(machine)) * GOR_LAMPORTS)) };
+  }
+  const amount = tokenPriceFor(machine, currency);
+  if (!amount) throw new Error(`${machine} is not priced in ${currency}`);
+  const token = await getPaymentToken(connection, currency);
+  return { token, units: 10 ** token.decimals, base: toBaseUnits(amount, token.decimals) };
+}
+
+/** Machine price for this payer with every applicable rule, as quoted by /api/run. */
+export async function quotePrice(params: {
+  machine: MachineId;
+  payer: string;
+  connection: Connection;
+  currency?: string;
+}): Promise<PriceQuote> {
+  const currency = params.currency || NATIVE_CURRENCY;
+  const { token, units, base } = await basePriceIn(params.machine, currency, params.connection);
+  const ctx: RuleContext = { machine: params.machine, payer: params.payer, connection: params.connection, at: Date.now() };
+
+  let lamports = base;
+  let discounted = base;
+  const markups: number[] = [];
+  const rules: AppliedRule[] = [];
+  for (const rule of RULES) {
+    const percent = await evaluateRule(rule, ctx);
+    if (percent === null) continue;
+    lamports = scale(lamports, percent);
+    if (percent < 0) discounted = scale(discounted, percent);
+    else markups.push(percent);
+    rules.push({ id: rule.id, type: rule.type, label: rule.label || DEFAULT_LABELS[rule.type], percent });
+  }
+  // The cap applies to discounts only; markups are charged in full on top of it.
+  const floor = scale(base, -MAX_DISCOUNT_PERCENT);
+  if (discounted < floor) lamports = markups.reduce(scale, floor);
+  if (lamports <= BigInt(0)) lamports = BigInt(1);
+
+  return {
+    currency,
+    token,
+    basePrice: Number(base) / units,
+    price: Number(lamports) / units,
+    amountLamports: lamports.toString(),
+    rules,
+  };
+}
+
+/**
+ * Re-checks the discounts a quote was priced with, as of when it was issued. Rules that
+ * were removed from the configuration since are honoured.
+ */
+export async function recheckQuotedDiscounts(
+  quote: { machine: string; payer: string; issuedAt: number; rules?: string[] },
+  connection: Connection
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!isMachineId(quote.machine)) return { ok: true };
+  const ctx: RuleContext = { machine: quote.machine, payer: quote.payer, at: quote.issuedAt, connection };
+  for (const id of quote.rules || []) {
+    const rule = RULES.find((r) => r.id === id);
+    if (!rule || rule.type === "scarcity") continue;
+    if ((await evaluateRule(rule, ctx)) === null) {
+      return { ok: false, error: `${rule.label || DEFAULT_LABELS[rule.type]} no longer applies to this payment.` };
+    }
+  }
+  return { ok: true };
+}
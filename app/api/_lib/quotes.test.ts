@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { checkQuote as CheckQuote, issueQuote as IssueQuote } from "./quotes";
+
+let issueQuote: typeof IssueQuote;
+let checkQuote: typeof CheckQuote;
+
+const params = {
+  payer: "payer",
+  originalMint: "mint",
+  machine: "CONVEYOR",
+  treasury: "treasury",
+  amountLamports: "1000",
+};
+
+beforeAll(async () => {
+  vi.stubEnv("QUOTE_SECRET", "x".repeat(48));
+  vi.stubEnv("QUOTE_TTL_SECONDS", "300");
+  ({ issueQuote, checkQuote } = await import("./quotes"));
+});
+
+function expected(paidAt = Date.now()) {
+  return { payer: "payer", originalMint: "mint", machine: "CONVEYOR", treasury: "treasury", paidAt };
+}
+
+describe("checkQuote", () => {
+  it("accepts the token it issued", () => {
+    const { quote, token } = issueQuote(params);
+    expect(checkQuote(token, expected())).toEqual({ ok: true, quote });
+  });
+
+  it("rejects a token whose payload was changed", () => {
+    const { quote, token } = issueQuote(params);
+    const [, mac] = token.split(".");
+    const cheaper = Buffer.from(JSON.stringify({ ...quote, amountLamports: "1" })).toString("base64");
+    expect(checkQuote(`${cheaper}.${mac}`, expected())).toEqual({ ok: false, error: "Invalid quote signature" });
+  });
+
+  it("rejects a token signed with another secret", () => {
+    vi.stubEnv("QUOTE_SECRET", "y".repeat(48));
+    const { token } = issueQuote(params);
+    vi.stubEnv("QUOTE_SECRET", "x".repeat(48));
+    expect(checkQuote(token, expected())).toEqual({ ok: false, error: "Invalid quote signature" });
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(checkQuote("no-mac", expected())).toEqual({ ok: false, error: "Malformed quote" });
+  });
+
+  it("binds the quote to payer, NFT, machine and source chain", () => {
+    const { token } = issueQuote(params);
+    expect(checkQuote(token, { ...expected(), payer: "other" }).ok).toBe(false);
+    expect(checkQuote(token, { ...expected(), originalMint: "other" }).ok).toBe(false);
+    expect(checkQuote(token, { ...expected(), machine: "HAZMAT" }).ok).toBe(false);
+    expect(checkQuote(token, { ...expected(), sourceChain: "solana" }).ok).toBe(false);
+  });
+
+  it("only accepts payments inside the quote window", () => {
+    const { quote, token } = issueQuote(params);
+    expect(checkQuote(token, expected(quote.expiresAt + 1))).toEqual({
+      ok: false,
+      error: "Quote expired before payment",
+    });
+    expect(checkQuote(token, expected(quote.issuedAt - 61_000))).toEqual({
+      ok: false,
+      error: "Payment predates quote",
+    });
+    expect(checkQuote(token, expected(quote.issuedAt - 30_000)).ok).toBe(true);
+  });
+
+  it("refuses to sign with a weak secret", () => {
+    vi.stubEnv("QUOTE_SECRET", "short");
+    expect(() => issueQuote(params)).toThrow("QUOTE_SECRET must be set to a strong random value");
+    vi.stubEnv("QUOTE_SECRET", "x".repeat(48));
+  });
+});
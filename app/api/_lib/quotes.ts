@@ -0,0 +1,100 @@
+import crypto from "crypto";
+import type { PaymentLeg, PaymentToken } from "../../_lib/paymentLegs";
+import type { BridgeSourceChain } from "./bridgeEscrow";
+
+// Signed payment quotes: /api/run issues one per (payer, originalMint, machine)
+// and /api/verify only mints against a payment that matches an unexpired quote.
+
+export type Quote = {
+  id: string;
+  payer: string;
+  originalMint: string;
+  machine: string;
+  treasury: string;
+  amountLamports: string;
+  /** SPL token the payment is made in (see ./paymentTokens); native $GOR when missing. */
+  token?: PaymentToken;
+  /** Transfers that make up the payment (see ./paymentSplit); missing on older quotes. */
+  legs?: PaymentLeg[];
+  /** Ids of the pricing rules (./pricingRules) the amount was computed with. */
+  rules?: string[];
+  /** Set on Trash Bridge quotes: `originalMint` lives on this chain (see ./bridgeEscrow). */
+  sourceChain?: BridgeSourceChain;
+  issuedAt: number;
+  expiresAt: number;
+};
+
+export type QuoteCheck = { ok: true; quote: Quote } | { ok: false; error: string };
+
+const QUOTE_TTL_SECONDS = Number(process.env.QUOTE_TTL_SECONDS ?? 300);
+
+if (!Number.isFinite(QUOTE_TTL_SECONDS) || QUOTE_TTL_SECONDS <= 0) {
+  throw new Error("Invalid QUOTE_TTL_SECONDS configuration");
+}
+
+function quoteSecret() {
+  const secret = process.env.QUOTE_SECRET || "";
+  if (!secret || secret === "CHANGE_ME_TO_A_LONG_RANDOM_SECRET" || secret.length < 32) {
+    throw new Error("QUOTE_SECRET must be set to a strong random value");
+  }
+  return secret;
+}
+
+function sign(payload: string) {
+  return crypto.createHmac("sha256", quoteSecret()).update(payload).digest("hex");
+}
+
+export function issueQuote(params: Omit<Quote, "id" | "issuedAt" | "expiresAt">) {
+  const issuedAt = Date.now();
+  const quote: Quote = {
+    id: crypto.randomBytes(12).toString("hex"),
+    ...params,
+    issuedAt,
+    expiresAt: issuedAt + QUOTE_TTL_SECONDS * 1000,
+  };
+  const payload = Buffer.from(JSON.stringify(quote)).toString("base64");
+  return { quote, token: `${payload}.${sign(payload)}` };
+}
+
+/**
+ * Checks the token signature and that it was issued for this payer, mint and machine.
+ * `paidAt` is when the payment landed (block time), which must fall inside the quote window.
+ */
+export function checkQuote(
+  token: string,
+  expected: {
+    payer: string;
+    originalMint: string;
+    machine: string;
+    treasury: string;
+    paidAt: number;
+    sourceChain?: BridgeSourceChain;
+  }
+): QuoteCheck {
+  const [payload, mac] = token.split(".");
+  if (!payload || !mac) return { ok: false, error: "Malformed quote" };
+  const macBuf = new Uint8Array(Buffer.from(mac));
+  const expectedBuf = new Uint8Array(Buffer.from(sign(payload)));
+  if (macBuf.length !== expectedBuf.length || !crypto.timingSafeEqual(macBuf, expectedBuf)) {
+    return { ok: false, error: "Invalid quote signature" };
+  }
+
+  let quote: Quote;
+  try {
+    quote = JSON.parse(Buffer.from(payload, "base64").toString("utf8"));
+  } catch {
+    return { ok: false, error: "Malformed quote" };
+  }
+
+  if (quote.payer !== expected.payer) return { ok: false, error: "Quote was issued to a different payer" };
+  if (quote.originalMint !== expected.originalMint) return { ok: false, error: "Quote was issued for a different NFT" };
+  if (quote.machine !== expected.machine) return { ok: false, error: "Quote was issued for a different machine" };
+  if (quote.treasury !== expected.treasury) return { ok: false, error: "Quote treasury mismatch" };
+  if (quote.sourceChain !== expected.sourceChain) {
+    return { ok: false, error: "Quote was issued for a different source chain" };
+  }
+  if (expected.paidAt > quote.expiresAt) return { ok: false, error: "Quote expired before payment" };
+  // Block times are second-granular and may lag the server clock slightly.
+  if (expected.paidAt < quote.issuedAt - 60_000) return { ok: false, error: "Payment predates quote" };
+  return { ok: true, quote };
+}
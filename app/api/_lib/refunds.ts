@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import { PublicKey, SystemProgram, TransactionInstruction, type Connection } from "@solana/web3.js";
+import { createAssociatedTokenAccountIdempotentInstruction, createTransferCheckedInstruction } from "@solana/spl-token";
+import { getLedgerStore, type OwedPayment } from "./ledgerStore";
+import { loadKeypairFile } from "./keypairs";
+import type { MintRequest, VerifiedPayment } from "./mintPipeline";
+import { getConnection } from "./rpcPool";
+import { sendResumable, serialLock } from "./resumableSend";
+import { describeMint } from "./paymentTokens";
+import { MEMO_PROGRAM_ID, tokenAccountFor } from "../../_lib/paymentLegs";
+
+// Refunds for payments that were verified but never turned into a mint. A failed mint
+// job records the payment as owed (which also bars its signature from minting), and
+// refundPayment sends the quoted amount back to the payer from REFUND_KEYPAIR, in the
+// currency it was paid in (SPL payments from REFUND_KEYPAIR's token account). With
+// REFUND_MODE=auto that happens as soon as the job fails; otherwise an operator
+// triggers it through /api/refunds. Each refund carries a memo naming the payment, so a
+// refund that landed without its status showing up is found before another is sent, and
+// the ledger claim on it keeps two instances from sending it at once.
+
+const REFUND_MODE = (process.env.REFUND_MODE || "manual").toLowerCase();
+const REFUND_MEMO_PREFIX = "gorbage-factory:refund";
+/** How long one instance holds a refund it is sending. */
+const REFUND_CLAIM_MS = 5 * 60_000;
+const HISTORY_PAGE_SIZE = 100;
+
+if (!["manual", "auto"].includes(REFUND_MODE)) {
+  throw new Error("Invalid REFUND_MODE configuration");
+}
+
+export class RefundError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RefundError";
+    this.status = status;
+  }
+}
+
+const withRefundLock = serialLock();
+// Kept on globalThis so dev-mode module reloads keep holding the claims they made.
+const refundHolder: string = ((globalThis as any).__gorbageRefundHolder ??= crypto.randomBytes(8).toString("hex"));
+
+function loadRefundKeypair() {
+  const file = process.env.REFUND_KEYPAIR;
+  if (!file) throw new RefundError("REFUND_KEYPAIR is not configured", 500);
+  return loadKeypairFile("REFUND_KEYPAIR", file);
+}
+
+/** Marks a verified payment as owed and, in auto mode, starts its refund. */
+export async function recordOwedPayment(request: MintRequest, payment: VerifiedPayment, reason: string) {
+  await getLedgerStore().recordOwedPayment({
+    signature: request.signature,
+    payer: request.payer,
+    originalMint: request.originalMint,
+    machine: request.machine,
+    quoteId: payment.quoteId,
+    amountLamports: payment.amountLamports,
+    paymentMint: payment.paymentMint,
+    reason,
+  });
+  if (REFUND_MODE === "auto") {
+    refundPayment(request.signature).catch((e) => console.error("[refunds] automatic refund failed", e));
+  }
+}
+
+function refundMemo(signature: string) {
+  return `${REFUND_MEMO_PREFIX}:${signature}`;
+}
+
+/**
+ * Whether a refund of `owed` already landed: a successful transaction from the refund
+ * wallet carrying its memo, looking back to when the payment was owed.
+ */
+async function refundLanded(connection: Connection, from: PublicKey, owed: OwedPayment) {
+  const memo = refundMemo(owed.signature);
+  const since = Math.floor(Date.parse(owed.createdAt) / 1000);
+  let before: string | undefined;
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(from, { before, limit: HISTORY_PAGE_SIZE }, "confirmed");
+    for (const info of page) {
+      if (info.blockTime != null && info.blockTime < since) return false;
+      if (!info.err && info.memo?.includes(memo)) return true;
+    }
+    if (page.length < HISTORY_PAGE_SIZE) return false;
+    before = page[page.length - 1].signature;
+  }
+}
+
+/**
+ * The transfer back to the payer (lamports, or the paid token into the payer's ATA) with
+ * its memo, or null when an earlier send of it has landed.
+ */
+async function refundInstructions(
+  connection: Connection,
+  from: PublicKey,
+  owed: OwedPayment
+): Promise<TransactionInstruction[] | null> {
+  if (owed.refundSignature && (await refundLanded(connection, from, owed))) return null;
+  const memo = new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: [{ pubkey: from, isSigner: true, isWritable: false }],
+    data: Buffer.from(refundMemo(owed.signature), "utf8"),
+  });
+  const payer = new PublicKey(owed.payer);
+  const amount = BigInt(owed.amountLamports);
+  if (!owed.paymentMint) {
+    return [SystemProgram.transfer({ fromPubkey: from, toPubkey: payer, lamports: amount }), memo];
+  }
+
+  const token = await describeMint(connection, owed.paymentMint);
+  const mint = new PublicKey(token.mint);
+  const programId = new PublicKey(token.programId);
+  const source = tokenAccountFor(from, token);
+  const destination = tokenAccountFor(payer, token);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(from, destination, payer, mint, programId),
+    createTransferCheckedInstruction(source, mint, destination, from, amount, token.decimals, [], programId),
+    memo,
+  ];
+}
+
+/** Sends (or finishes) the refund for an owed payment; see ./resumableSend for retries. */
+export function refundPayment(signature: string): Promise<OwedPayment> {
+  return withRefundLock(async () => {
+    const store = getLedgerStore();
+    const owed = await store.getOwedPayment(signature);
+    if (!owed) throw new RefundError("No owed payment for this signature", 404);
+    if (owed.status === "refunded") return owed;
+    if (!(await store.claimRefund(signature, refundHolder, Date.now() + REFUND_CLAIM_MS))) {
+      const current = (await store.getOwedPayment(signature))!;
+      if (current.status === "refunded") return current;
+      throw new RefundError("This refund is being sent by another instance", 409);
+    }
+
+    try {
+      // Read again under the claim: another instance may have sent it in the meantime.
+      const claimed = (await store.getOwedPayment(signature))!;
+      if (claimed.status === "refunded") return claimed;
+      const connection = getConnection();
+      const outcome = await sendResumable({
+        connection,
+        sent: { signature: claimed.refundSignature, lastValidBlockHeight: claimed.refundLastValidBlockHeight },
+        signer: loadRefundKeypair,
+        build: (from) => refundInstructions(connection, from, claimed),
+        save: (refundSignature, lastValidBlockHeight) =>
+          store.updateOwedPayment(signature, {
+            status: "refunding",
+            refundSignature,
+            refundLastValidBlockHeight: lastValidBlockHeight,
+          }),
+      });
+      if (outcome === "pending") return claimed;
+      if (outcome === "failed") throw new RefundError("Refund transaction failed", 502);
+
+      await store.updateOwedPayment(signature, { status: "refunded", refundedAt: new Date().toISOString() });
+      return (await store.getOwedPayment(signature))!;
+    } finally {
+      await store.releaseRefund(signature, refundHolder);
+    }
+  });
+}
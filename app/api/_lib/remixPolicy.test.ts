@@ -0,0 +1,113 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Machine } from "./ledgerStore";
+import type { RemixPolicyCheck } from "./remixPolicy";
+
+const MINUTE = 60_000;
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "remix-policy-"));
+  vi.resetModules();
+  delete (globalThis as any).__gorbageLedgerStore;
+  vi.stubEnv("LEDGER_BACKEND", "file");
+  vi.stubEnv("REMIX_LEDGER_PATH", path.join(dir, "ledger.json"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  delete (globalThis as any).__gorbageLedgerStore;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Loads the policy with `limits` in the environment (they are read once, at import). */
+async function policy(limits: Record<string, string>) {
+  for (const [name, value] of Object.entries(limits)) vi.stubEnv(name, value);
+  return import("./remixPolicy");
+}
+
+async function recordRemix(signature: string, originalMint: string, payer: string, machine: Machine, agoMs = 0) {
+  const { getLedgerStore } = await import("./ledgerStore");
+  await getLedgerStore().recordMint(
+    {
+      originalMint,
+      mintedMint: `remix-${signature}`,
+      signature,
+      payer,
+      machine,
+      tier: "tier1",
+      quoteId: `quote-${signature}`,
+      createdAt: new Date(Date.now() - agoMs).toISOString(),
+    },
+    { mintNumber: 1 }
+  );
+}
+
+const attempt = { originalMint: "mint", payer: "payer", machine: "CONVEYOR" as const };
+
+describe("checkRemixPolicy", () => {
+  it("allows everything without limits", async () => {
+    const { checkRemixPolicy } = await policy({});
+    await recordRemix("sig-a", "mint", "payer", "CONVEYOR");
+    expect(await checkRemixPolicy(attempt)).toEqual({ ok: true });
+  });
+
+  it("allows one remix per original", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_MAX_PER_ORIGINAL: "1" });
+    expect(await checkRemixPolicy(attempt)).toEqual({ ok: true });
+    await recordRemix("sig-a", "mint", "someone-else", "HAZMAT");
+    expect(await checkRemixPolicy(attempt)).toEqual({ ok: false, error: "This NFT has already been remixed." });
+    expect(await checkRemixPolicy({ ...attempt, originalMint: "other" })).toEqual({ ok: true });
+  });
+
+  it("limits remixes of an original per machine", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_MAX_PER_MACHINE: "1" });
+    await recordRemix("sig-a", "mint", "payer", "CONVEYOR");
+    expect((await checkRemixPolicy(attempt)).ok).toBe(false);
+    expect(await checkRemixPolicy({ ...attempt, machine: "HAZMAT" })).toEqual({ ok: true });
+  });
+
+  it("limits remixes per wallet", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_MAX_PER_WALLET: "2" });
+    await recordRemix("sig-a", "mint-a", "payer", "CONVEYOR");
+    expect(await checkRemixPolicy(attempt)).toEqual({ ok: true });
+    await recordRemix("sig-b", "mint-b", "payer", "HAZMAT");
+    expect(await checkRemixPolicy(attempt)).toEqual({
+      ok: false,
+      error: "This wallet has reached its limit of 2 remixes.",
+    });
+  });
+
+  it("counts pending remixes of the same original or wallet only", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_MAX_PER_ORIGINAL: "1", REMIX_MAX_PER_WALLET: "1" });
+    const createdAt = new Date().toISOString();
+    const elsewhere = { originalMint: "other", payer: "other", machine: "CONVEYOR" as const, createdAt };
+    expect(await checkRemixPolicy(attempt, [elsewhere])).toEqual({ ok: true });
+    expect((await checkRemixPolicy(attempt, [{ ...elsewhere, originalMint: "mint" }])).ok).toBe(false);
+    expect((await checkRemixPolicy(attempt, [{ ...elsewhere, payer: "payer" }])).ok).toBe(false);
+  });
+
+  it("asks the caller to wait out a cooldown", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_COOLDOWN_ORIGINAL_SECONDS: "600" });
+    await recordRemix("sig-a", "mint", "payer", "CONVEYOR", 4 * MINUTE);
+    const check = await checkRemixPolicy(attempt);
+    expect(check).toMatchObject({ ok: false, error: "This NFT was remixed recently. Try again later." });
+    const { retryAfterSeconds } = check as Extract<RemixPolicyCheck, { ok: false }>;
+    expect(retryAfterSeconds).toBeGreaterThan(355);
+    expect(retryAfterSeconds).toBeLessThanOrEqual(360);
+    expect(await checkRemixPolicy({ ...attempt, originalMint: "other" })).toEqual({ ok: true });
+  });
+
+  it("lets a remix through once the cooldown has passed", async () => {
+    const { checkRemixPolicy } = await policy({ REMIX_COOLDOWN_WALLET_SECONDS: "60" });
+    await recordRemix("sig-a", "mint", "payer", "CONVEYOR", 2 * MINUTE);
+    expect(await checkRemixPolicy(attempt)).toEqual({ ok: true });
+  });
+
+  it("rejects a limit that is not a whole number", async () => {
+    await expect(policy({ REMIX_MAX_PER_WALLET: "1.5" })).rejects.toThrow("Invalid REMIX_MAX_PER_WALLET configuration");
+  });
+});
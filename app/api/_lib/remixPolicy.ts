@@ -0,0 +1,114 @@
+import { getLedgerStore, type Machine, type RemixStats } from "./ledgerStore";
+
+// How often an NFT may go through the factory. Every limit is optional (0 = none):
+//   REMIX_MAX_PER_ORIGINAL          - remixes of one original, across all machines
+//   REMIX_MAX_PER_MACHINE           - remixes of one original through the same machine
+//   REMIX_MAX_PER_WALLET            - remixes paid for by one wallet
+//   REMIX_COOLDOWN_ORIGINAL_SECONDS - wait between remixes of the same original
+//   REMIX_COOLDOWN_WALLET_SECONDS   - wait between remixes paid for by one wallet
+// Set REMIX_MAX_PER_ORIGINAL=1 for one remix per original. /api/run checks the policy
+// before quoting, and the mint pipeline again once the payment is in (a payment that
+// no longer fits is refunded).
+
+export type RemixAttempt = { originalMint: string; payer: string; machine: Machine };
+
+/** A remix that is being minted but is not in the ledger yet (see ./mintJobs). */
+export type PendingRemix = RemixAttempt & { createdAt: string };
+
+export type RemixPolicyCheck = { ok: true } | { ok: false; error: string; retryAfterSeconds?: number };
+
+function readLimit(name: string) {
+  const value = Number(process.env[name] ?? 0);
+  if (!Number.isInteger(value) || value < 0) throw new Error(`Invalid ${name} configuration`);
+  return value;
+}
+
+const MAX_PER_ORIGINAL = readLimit("REMIX_MAX_PER_ORIGINAL");
+const MAX_PER_MACHINE = readLimit("REMIX_MAX_PER_MACHINE");
+const MAX_PER_WALLET = readLimit("REMIX_MAX_PER_WALLET");
+const COOLDOWN_ORIGINAL_SECONDS = readLimit("REMIX_COOLDOWN_ORIGINAL_SECONDS");
+const COOLDOWN_WALLET_SECONDS = readLimit("REMIX_COOLDOWN_WALLET_SECONDS");
+
+/** Limits in effect, for clients that want to explain them. */
+export function getRemixPolicy() {
+  return {
+    maxPerOriginal: MAX_PER_ORIGINAL || null,
+    maxPerMachine: MAX_PER_MACHINE || null,
+    maxPerWallet: MAX_PER_WALLET || null,
+    cooldownOriginalSeconds: COOLDOWN_ORIGINAL_SECONDS || null,
+    cooldownWalletSeconds: COOLDOWN_WALLET_SECONDS || null,
+  };
+}
+
+/** Adds in-flight remixes to recorded stats. */
+function withPending(stats: RemixStats, pending: PendingRemix[]) {
+  let { count, lastAt } = stats;
+  for (const remix of pending) {
+    count += 1;
+    if (!lastAt || Date.parse(remix.createdAt) > Date.parse(lastAt)) lastAt = remix.createdAt;
+  }
+  return { count, lastAt };
+}
+
+function remixes(n: number) {
+  return n === 1 ? "1 remix" : `${n} remixes`;
+}
+
+function cooldownLeft(lastAt: string | null, seconds: number, now: number) {
+  if (!seconds || !lastAt) return 0;
+  const left = Date.parse(lastAt) + seconds * 1000 - now;
+  return left > 0 ? Math.ceil(left / 1000) : 0;
+}
+
+/**
+ * Checks `attempt` against the limits, counting recorded remixes plus `pending` ones.
+ * Pending entries for other NFTs or wallets are ignored.
+ */
+export async function checkRemixPolicy(
+  attempt: RemixAttempt,
+  pending: PendingRemix[] = []
+): Promise<RemixPolicyCheck> {
+  const now = Date.now();
+  const store = getLedgerStore();
+  const sameOriginal = pending.filter((p) => p.originalMint === attempt.originalMint);
+  const sameWallet = pending.filter((p) => p.payer === attempt.payer);
+
+  if (MAX_PER_ORIGINAL || COOLDOWN_ORIGINAL_SECONDS) {
+    const stats = withPending(await store.getRemixStats({ originalMint: attempt.originalMint }), sameOriginal);
+    if (MAX_PER_ORIGINAL && stats.count >= MAX_PER_ORIGINAL) {
+      return {
+        ok: false,
+        error:
+          MAX_PER_ORIGINAL === 1
+            ? "This NFT has already been remixed."
+            : `This NFT has reached its limit of ${MAX_PER_ORIGINAL} remixes.`,
+      };
+    }
+    const wait = cooldownLeft(stats.lastAt, COOLDOWN_ORIGINAL_SECONDS, now);
+    if (wait) return { ok: false, error: "This NFT was remixed recently. Try again later.", retryAfterSeconds: wait };
+  }
+
+  if (MAX_PER_MACHINE) {
+    const stats = withPending(
+      await store.getRemixStats({ originalMint: attempt.originalMint, machine: attempt.machine }),
+      sameOriginal.filter((p) => p.machine === attempt.machine)
+    );
+    if (stats.count >= MAX_PER_MACHINE) {
+      return {
+        ok: false,
+        error: `This NFT has reached its limit of ${remixes(MAX_PER_MACHINE)} on this machine. Try another machine.`,
+      };
+    }
+  }
+
+  if (MAX_PER_WALLET || COOLDOWN_WALLET_SECONDS) {
+    const stats = withPending(await store.getRemixStats({ payer: attempt.payer }), sameWallet);
+    if (MAX_PER_WALLET && stats.count >= MAX_PER_WALLET) {
+      return { ok: false, error: `This wallet has reached its limit of ${remixes(MAX_PER_WALLET)}.` };
+    }
+    const wait = cooldownLeft(stats.lastAt, COOLDOWN_WALLET_SECONDS, now);
+    if (wait) return { ok: false, error: "This wallet remixed recently. Try again later.", retryAfterSeconds: wait };
+  }
+
+  return { ok: true };
+}
@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import { createCanvas, loadImage, type Image } from "@napi-rs/canvas";
+import { REMIX_SIZE, TRASH_ITEM_SOURCES, drawRemix, type TierId } from "../../_lib/remixArt";
+
+export type RemixEffect = {
+  tier: TierId;
+  primary: string;
+  texture: string;
+  glow: string;
+  edge: string;
+};
+
+const trashImages = new Map<string, Image>();
+let trashImagesLoading: Promise<void> | null = null;
+
+function loadTrashImages() {
+  if (!trashImagesLoading) {
+    trashImagesLoading = Promise.all(
+      Object.entries(TRASH_ITEM_SOURCES).map(async ([name, src]) => {
+        const file = path.join(process.cwd(), "public", src);
+        trashImages.set(name, await loadImage(fs.readFileSync(file)));
+      })
+    )
+      .then(() => undefined)
+      .catch((err) => {
+        trashImagesLoading = null;
+        throw err;
+      });
+  }
+  return trashImagesLoading;
+}
+
+/**
+ * Renders the remix PNG from the original NFT artwork and the server-rolled effect,
+ * using the same drawing code as the client preview.
+ */
+export async function renderRemix(opts: { source: Buffer; effect: RemixEffect; seed: string }): Promise<Buffer> {
+  await loadTrashImages();
+  const img = await loadImage(opts.source);
+  if (!img.width || !img.height) throw new Error("Original image could not be decoded");
+
+  const canvas = createCanvas(REMIX_SIZE, REMIX_SIZE);
+  const ctx = canvas.getContext("2d");
+  drawRemix(
+    ctx as unknown as CanvasRenderingContext2D,
+    img as unknown as HTMLImageElement,
+    opts.effect.tier,
+    opts.effect.primary,
+    opts.seed,
+    (name) => (trashImages.get(name) as unknown as CanvasImageSource) ?? null
+  );
+  return canvas.encode("png");
+}
@@ -0,0 +1,72 @@
+import bs58 from "bs58";
+import {
+  Transaction,
+  type Connection,
+  type Keypair,
+  type PublicKey,
+  type TransactionInstruction,
+} from "@solana/web3.js";
+
+// Transfers the server signs and must land exactly once: refunds (./refunds) and bridge
+// releases (./bridgeUnlock). The signature is stored before broadcasting, so a retry
+// checks that transaction and only sends a new one once the old one has failed or its
+// blockhash has expired. Callers run their sends one at a time through a serialLock.
+
+/** What the caller stored about its last send. */
+export type SentTransaction = { signature?: string; lastValidBlockHeight?: number };
+
+/** pending: an earlier send may still land; try again after its blockhash expires. */
+export type SendOutcome = "confirmed" | "pending" | "failed";
+
+/** Runs callbacks one at a time, in call order. */
+export function serialLock() {
+  let tail: Promise<void> = Promise.resolve();
+  return function withLock<T>(fn: () => Promise<T>): Promise<T> {
+    let release: () => void;
+    const next = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const previous = tail;
+    tail = next;
+    return previous.then(fn).finally(() => release());
+  };
+}
+
+/**
+ * Finishes or (re)sends one transfer. `build` gets the signer's key and returns the
+ * instructions, or null when the transfer is already visible on-chain (a send that landed
+ * but whose status lookup came back empty). `save` stores the new signature before it is
+ * broadcast.
+ */
+export async function sendResumable(params: {
+  connection: Connection;
+  sent: SentTransaction;
+  signer: () => Keypair;
+  build: (feePayer: PublicKey) => Promise<TransactionInstruction[] | null>;
+  save: (signature: string, lastValidBlockHeight: number) => Promise<void>;
+}): Promise<SendOutcome> {
+  const { connection, sent } = params;
+  if (sent.signature) {
+    const { value } = await connection.getSignatureStatuses([sent.signature], { searchTransactionHistory: true });
+    const status = value[0];
+    if (status && !status.err && status.confirmationStatus && status.confirmationStatus !== "processed") {
+      return "confirmed";
+    }
+    const height = await connection.getBlockHeight("confirmed");
+    if (!status?.err && height <= (sent.lastValidBlockHeight ?? 0)) return "pending";
+  }
+
+  const signer = params.signer();
+  const instructions = await params.build(signer.publicKey);
+  if (!instructions) return "confirmed";
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash("confirmed");
+  const tx = new Transaction({ feePayer: signer.publicKey, blockhash, lastValidBlockHeight }).add(...instructions);
+  tx.sign(signer);
+  const signature = bs58.encode(new Uint8Array(tx.signature!));
+  await params.save(signature, lastValidBlockHeight);
+
+  await connection.sendRawTransaction(tx.serialize(), { maxRetries: 5 });
+  const confirmed = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+  return confirmed.value.err ? "failed" : "confirmed";
+}
@@ -0,0 +1,243 @@
+import { Connection, type FetchFn } from "@solana/web3.js";
+import { parseRpcList, pickRpcUrl } from "../../_lib/rpcEndpoints";
+
+// Every server-side Connection comes from here. Each pool holds the endpoints configured
+// for one chain and scores them on latency and error rate, measured on every RPC call:
+//   gorbagana - GORBAGANA_RPC_URL (or the NEXT_PUBLIC_ variants) plus GORBAGANA_RPC_FALLBACKS
+//   solana    - SOLANA_RPC_URL plus SOLANA_RPC_FALLBACKS (bridge sources)
+// getConnection pins one healthy endpoint, for anything that must stay on the same node
+// (sending a transaction and confirming it). hedgedRead runs a read on the best endpoint
+// and, if it has not answered within RPC_HEDGE_DELAY_MS, on the next one too; the first
+// good answer wins. An endpoint that fails RPC_COOLDOWN_AFTER_ERRORS calls in a row sits
+// out for a while. /api/health/rpc reports the scores.
+
+export type RpcPoolName = "gorbagana" | "solana";
+
+export type RpcEndpointHealth = {
+  /** Origin only; paths and query strings can carry API keys. */
+  endpoint: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastOkAt: string | null;
+  cooldownUntil: string | null;
+};
+
+type Endpoint = {
+  url: string;
+  connection: Connection;
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveErrors: number;
+  lastError: string | null;
+  lastOkAt: number | null;
+  cooldownUntil: number;
+};
+
+const HEDGE_DELAY_MS = Number(process.env.RPC_HEDGE_DELAY_MS ?? 400);
+const COOLDOWN_AFTER_ERRORS = Number(process.env.RPC_COOLDOWN_AFTER_ERRORS ?? 3);
+const COOLDOWN_BASE_MS = 5_000;
+const COOLDOWN_MAX_MS = 60_000;
+/** Weight of the newest sample in the latency and error-rate averages. */
+const SMOOTHING = 0.2;
+
+if (!Number.isFinite(HEDGE_DELAY_MS) || HEDGE_DELAY_MS < 0) {
+  throw new Error("Invalid RPC_HEDGE_DELAY_MS configuration");
+}
+if (!Number.isInteger(COOLDOWN_AFTER_ERRORS) || COOLDOWN_AFTER_ERRORS <= 0) {
+  throw new Error("Invalid RPC_COOLDOWN_AFTER_ERRORS configuration");
+}
+
+function endpointUrls(name: RpcPoolName) {
+  const primary =
+    name === "solana"
+      ? process.env.SOLANA_RPC_URL || process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com"
+      : pickRpcUrl(
+          process.env.GORBAGANA_RPC_URL,
+          process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL,
+          process.env.NEXT_PUBLIC_RPC_URL
+        );
+  const fallbacks =
+    name === "solana"
+      ? parseRpcList(process.env.SOLANA_RPC_FALLBACKS)
+      : parseRpcList(process.env.GORBAGANA_RPC_FALLBACKS || process.env.NEXT_PUBLIC_GORBAGANA_RPC_FALLBACKS);
+  return [primary, ...fallbacks.filter((url) => url !== primary)];
+}
+
+function record(endpoint: Endpoint, ok: boolean, ms: number, error?: string) {
+  endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + (ok ? 0 : SMOOTHING);
+  if (ok) {
+    endpoint.latencyMs = endpoint.latencyMs === null ? ms : endpoint.latencyMs * (1 - SMOOTHING) + ms * SMOOTHING;
+    endpoint.consecutiveErrors = 0;
+    endpoint.lastOkAt = Date.now();
+    return;
+  }
+  endpoint.consecutiveErrors += 1;
+  endpoint.lastError = error || "Unknown error";
+  const over = endpoint.consecutiveErrors - COOLDOWN_AFTER_ERRORS;
+  if (over >= 0) endpoint.cooldownUntil = Date.now() + Math.min(COOLDOWN_MAX_MS, COOLDOWN_BASE_MS * 2 ** over);
+}
+
+/** Measures every call made through the endpoint's Connection. Rate limits and 5xx count as errors. */
+function measuredFetch(endpoint: Endpoint): FetchFn {
+  return (async (input: any, init: any) => {
+    const started = Date.now();
+    try {
+      const res = await fetch(input, init);
+      const failed = res.status === 429 || res.status >= 500;
+      record(endpoint, !failed, Date.now() - started, failed ? `HTTP ${res.status}` : undefined);
+      return res;
+    } catch (e: any) {
+      record(endpoint, false, Date.now() - started, String(e?.message || e));
+      throw e;
+    }
+  }) as FetchFn;
+}
+
+function createEndpoint(url: string): Endpoint {
+  const endpoint = {
+    url,
+    latencyMs: null,
+    errorRate: 0,
+    consecutiveErrors: 0,
+    lastError: null,
+    lastOkAt: null,
+    cooldownUntil: 0,
+  } as Endpoint;
+  endpoint.connection = new Connection(url, { commitment: "confirmed", fetch: measuredFetch(endpoint) });
+  return endpoint;
+}
+
+function isHealthy(endpoint: Endpoint) {
+  return Date.now() >= endpoint.cooldownUntil;
+}
+
+/** Expected cost of a call: latency inflated by the error rate. Unmeasured endpoints come last. */
+function score(endpoint: Endpoint) {
+  return endpoint.latencyMs === null ? Infinity : endpoint.latencyMs * (1 + 4 * endpoint.errorRate);
+}
+
+// Kept on globalThis so dev-mode module reloads keep the measurements.
+const pools: Partial<Record<RpcPoolName, Endpoint[]>> = ((globalThis as any).__gorbageRpcPools ??= {});
+
+function poolEndpoints(name: RpcPoolName) {
+  return (pools[name] ??= endpointUrls(name).map(createEndpoint));
+}
+
+/** Endpoints best first: healthy before cooling down, then by score, then in configured order. */
+function ranked(name: RpcPoolName) {
+  return poolEndpoints(name)
+    .map((endpoint, index) => ({ endpoint, index }))
+    .sort(
+      (a, b) =>
+        Number(isHealthy(b.endpoint)) - Number(isHealthy(a.endpoint)) ||
+        score(a.endpoint) - score(b.endpoint) ||
+        a.index - b.index
+    )
+    .map(({ endpoint }) => endpoint);
+}
+
+/** A Connection to the best endpoint right now. Keep it for the whole of one transaction. */
+export function getConnection(pool: RpcPoolName = "gorbagana") {
+  return ranked(pool)[0].connection;
+}
+
+/**
+ * Runs `read` against the best endpoint, hedging onto the next one every RPC_HEDGE_DELAY_MS
+ * while no answer is in, and at once when one fails. An answer `accept` rejects (say, a
+ * transaction this node has not seen yet) moves on like a failure but is returned if no
+ * endpoint does better. Throws the last error when every endpoint failed.
+ */
+export function hedgedRead<T>(
+  read: (connection: Connection) => Promise<T>,
+  opts: { pool?: RpcPoolName; accept?: (value: T) => boolean } = {}
+): Promise<T> {
+  const order = ranked(opts.pool ?? "gorbagana");
+  const accept = opts.accept ?? (() => true);
+  return new Promise<T>((resolve, reject) => {
+    let next = 0;
+    let pending = 0;
+    let settled = false;
+    let lastError: unknown = null;
+    let fallback: { value: T } | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = (fn: () => void) => {
+      settled = true;
+      if (timer) clearTimeout(timer);
+      fn();
+    };
+    const moveOn = () => {
+      if (settled) return;
+      if (next < order.length) return launch();
+      if (pending) return;
+      settle(() => (fallback ? resolve(fallback.value) : reject(lastError)));
+    };
+    function launch() {
+      const endpoint = order[next++];
+      pending += 1;
+      if (timer) clearTimeout(timer);
+      if (next < order.length) timer = setTimeout(moveOn, HEDGE_DELAY_MS);
+      read(endpoint.connection).then(
+        (value) => {
+          pending -= 1;
+          if (settled) return;
+          if (accept(value)) return settle(() => resolve(value));
+          fallback = { value };
+          moveOn();
+        },
+        (err) => {
+          pending -= 1;
+          lastError = err;
+          moveOn();
+        }
+      );
+    }
+    launch();
+  });
+}
+
+function originOf(url: string) {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "invalid url";
+  }
+}
+
+function describe(endpoint: Endpoint): RpcEndpointHealth {
+  return {
+    endpoint: originOf(endpoint.url),
+    healthy: isHealthy(endpoint),
+    latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+    errorRate: Math.round(endpoint.errorRate * 1000) / 1000,
+    consecutiveErrors: endpoint.consecutiveErrors,
+    lastError: endpoint.lastError,
+    lastOkAt: endpoint.lastOkAt ? new Date(endpoint.lastOkAt).toISOString() : null,
+    cooldownUntil: isHealthy(endpoint) ? null : new Date(endpoint.cooldownUntil).toISOString(),
+  };
+}
+
+/** Pings every endpoint of `pool` (getSlot) so the scores are fresh, then reports them best first. */
+export async function probeRpcPool(pool: RpcPoolName, timeoutMs = 3_000) {
+  await Promise.all(
+    poolEndpoints(pool).map(async (endpoint) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("probe timed out")), timeoutMs);
+      });
+      const started = Date.now();
+      try {
+        await Promise.race([endpoint.connection.getSlot("confirmed"), timeout]);
+      } catch (e: any) {
+        // A timeout never reaches measuredFetch, so count it here.
+        if (String(e?.message) === "probe timed out") record(endpoint, false, Date.now() - started, e.message);
+      } finally {
+        if (timer) clearTimeout(timer);
+      }
+    })
+  );
+  return ranked(pool).map(describe);
+}
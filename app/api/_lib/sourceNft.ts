@@ -0,0 +1,61 @@
+import { AccountNotFoundError, Metaplex } from "@metaplex-foundation/js";
+import type { Connection, PublicKey } from "@solana/web3.js";
+
+// On-chain facts about an NFT offered as a remix source: its collection and creators
+// from the Token Metadata account, or from a DAS index (./assetIndexer).
+// /api/collection-from-mint, /api/nfts and the eligibility check (./eligibility) all
+// read them through here.
+
+export type SourceNft = {
+  mint: string;
+  name: string;
+  symbol: string;
+  collectionMint: string | null;
+  collectionVerified: boolean;
+  creators: Array<{ address: string; verified: boolean }>;
+};
+
+/** Shapes a Metaplex Metadata / Nft object (from findByMint or findAllByMintList). */
+export function sourceFromMetadata(mint: string, meta: any): SourceNft {
+  return {
+    mint,
+    name: String(meta?.name || "").trim(),
+    symbol: String(meta?.symbol || "").trim(),
+    collectionMint: meta?.collection?.address?.toBase58?.() || null,
+    collectionVerified: !!meta?.collection?.verified,
+    creators: (meta?.creators || []).map((c: any) => ({
+      address: c?.address?.toBase58?.() || "",
+      verified: !!c?.verified,
+    })),
+  };
+}
+
+/**
+ * Shapes a DAS asset (getAssetsByOwner / getAsset). DAS lists only verified collections in
+ * `grouping` unless asked for unverified ones, which then carry `verified: false`.
+ */
+export function sourceFromDas(asset: any): SourceNft {
+  const collection = (asset?.grouping || []).find((g: any) => g?.group_key === "collection");
+  return {
+    mint: String(asset?.id || ""),
+    name: String(asset?.content?.metadata?.name || "").trim(),
+    symbol: String(asset?.content?.metadata?.symbol || "").trim(),
+    collectionMint: collection?.group_value ? String(collection.group_value) : null,
+    collectionVerified: !!collection?.group_value && collection.verified !== false,
+    creators: (asset?.creators || []).map((c: any) => ({
+      address: String(c?.address || ""),
+      verified: !!c?.verified,
+    })),
+  };
+}
+
+/** Loads the metadata for `mint`; null when it has none (not a Metaplex NFT). */
+export async function lookupSourceNft(connection: Connection, mint: PublicKey): Promise<SourceNft | null> {
+  try {
+    const nft = await Metaplex.make(connection).nfts().findByMint({ mintAddress: mint, loadJsonMetadata: false });
+    return sourceFromMetadata(mint.toBase58(), nft);
+  } catch (e) {
+    if (e instanceof AccountNotFoundError) return null;
+    throw e;
+  }
+}
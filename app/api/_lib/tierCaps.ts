@@ -0,0 +1,20 @@
+import { TIERS, tierRank, type TierId } from "../../_lib/tiers";
+
+// Global supply cap per tier: TIER<n>_CAP, or the tier's default. A cap of 0 keeps a
+// tier out of rolls entirely (it counts as sold out from the start).
+
+const TIER_CAPS = Object.fromEntries(
+  TIERS.map((t) => [t.id, Number(process.env[`TIER${tierRank(t.id)}_CAP`] ?? t.defaultCap)])
+) as Record<TierId, number>;
+
+for (const t of TIERS) {
+  const cap = TIER_CAPS[t.id];
+  if (!Number.isInteger(cap) || cap < 0) throw new Error(`Invalid TIER${tierRank(t.id)}_CAP configuration`);
+}
+if (!Object.values(TIER_CAPS).some((cap) => cap > 0)) {
+  throw new Error("Invalid tier cap configuration: every tier is capped at 0");
+}
+
+export function getTierCaps(): Record<TierId, number> {
+  return { ...TIER_CAPS };
+}
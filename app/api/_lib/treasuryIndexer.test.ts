@@ -0,0 +1,80 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The chain and the mint pipeline are stubbed out: these tests follow the cursor over a
+// treasury history of `history` signatures, newest first as the RPC returns them.
+
+let history: string[] = [];
+const indexed: string[] = [];
+
+const connection = {
+  async getSignaturesForAddress(_address: unknown, opts: { until?: string; before?: string; limit: number }) {
+    const start = opts.before ? history.indexOf(opts.before) + 1 : 0;
+    const end = opts.until ? history.indexOf(opts.until) : history.length;
+    return history.slice(start, end).slice(0, opts.limit).map((signature) => ({ signature, err: null }));
+  },
+  async getParsedTransaction(signature: string) {
+    indexed.push(signature);
+    return {};
+  },
+};
+
+vi.mock("./rpcPool", () => ({ getConnection: () => connection }));
+vi.mock("./mintPipeline", () => ({ paymentMemos: () => [] }));
+vi.mock("./mintJobs", () => ({
+  enqueueMintJob: vi.fn(),
+  findMintJobBySignature: async () => null,
+  startMintWorker: vi.fn(),
+}));
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "treasury-indexer-"));
+  vi.resetModules();
+  delete (globalThis as any).__gorbageLedgerStore;
+  vi.stubEnv("LEDGER_BACKEND", "file");
+  vi.stubEnv("REMIX_LEDGER_PATH", path.join(dir, "ledger.json"));
+  vi.stubEnv("TREASURY_WALLET", "11111111111111111111111111111111");
+  indexed.length = 0;
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  delete (globalThis as any).__gorbageLedgerStore;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** `count` signatures, newest first. */
+function signatures(count: number, prefix = "sig") {
+  return Array.from({ length: count }, (_, i) => `${prefix}-${String(count - i).padStart(5, "0")}`);
+}
+
+describe("pollTreasury", () => {
+  it("starts from the newest page when there is no cursor", async () => {
+    history = signatures(250);
+    const { pollTreasury } = await import("./treasuryIndexer");
+    await pollTreasury();
+    expect(indexed).toEqual(history.slice(0, 100).reverse());
+  });
+
+  it("works off a backlog oldest first without skipping any", async () => {
+    const { pollTreasury } = await import("./treasuryIndexer");
+    const { getLedgerStore } = await import("./ledgerStore");
+    await getLedgerStore().setIndexerCursor("treasury", "cursor");
+    const backlog = signatures(2_300);
+    history = [...backlog, "cursor"];
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await pollTreasury();
+    expect(indexed).toEqual(backlog.slice(-1_000).reverse());
+    expect(await getLedgerStore().getIndexerCursor("treasury")).toBe(indexed[indexed.length - 1]);
+
+    await pollTreasury();
+    await pollTreasury();
+    expect(indexed).toEqual([...backlog].reverse());
+    expect(await getLedgerStore().getIndexerCursor("treasury")).toBe(backlog[0]);
+  });
+});
@@ -0,0 +1,130 @@
+import { PublicKey, type Connection } from "@solana/web3.js";
+import { getLedgerStore } from "./ledgerStore";
+import { paymentMemos } from "./mintPipeline";
+import { getConnection } from "./rpcPool";
+import { enqueueMintJob, findMintJobBySignature, startMintWorker } from "./mintJobs";
+import type { Quote } from "./quotes";
+import { isMachineId } from "../../_lib/machineCatalog";
+
+// Mints for payments whose browser never called /api/verify (tab closed after paying).
+// Every TREASURY_INDEXER_INTERVAL_SECONDS (0 = off) the indexer walks the treasury's new
+// signatures, oldest first, and queues a mint job for each payment whose memo names a
+// quote /api/run issued. The job runs the same verification as /api/verify. The last
+// processed signature is kept in the ledger, so a restart resumes where it stopped, and a
+// backlog too large for one pass is worked off oldest first over the following passes.
+
+const CURSOR_NAME = "treasury";
+const PAGE_SIZE = 100;
+/** Signatures handled per pass; the cursor only moves past those. */
+const MAX_PER_PASS = 1_000;
+/** Issued quotes are kept this long after expiry; a payment found later is not minted. */
+const ISSUED_QUOTE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const INTERVAL_SECONDS = Number(process.env.TREASURY_INDEXER_INTERVAL_SECONDS ?? 30);
+
+if (!Number.isFinite(INTERVAL_SECONDS) || INTERVAL_SECONDS < 0) {
+  throw new Error("Invalid TREASURY_INDEXER_INTERVAL_SECONDS configuration");
+}
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required env var: ${name}`);
+  return value;
+}
+
+const TREASURY = requireEnv("TREASURY_WALLET");
+
+type IndexerState = { running: boolean; timer: ReturnType<typeof setTimeout> | null };
+
+// Kept on globalThis so dev-mode module reloads don't start a second poller.
+const indexer: IndexerState = ((globalThis as any).__gorbageTreasuryIndexer ??= { running: false, timer: null });
+
+/** Stores a quote /api/run issued so the indexer can match its payment. */
+export async function rememberQuote(quote: Quote, token: string) {
+  await getLedgerStore().saveIssuedQuote(
+    { quoteId: quote.id, token, payer: quote.payer, expiresAt: quote.expiresAt },
+    Date.now() - ISSUED_QUOTE_RETENTION_MS
+  );
+}
+
+/**
+ * Treasury signatures after the cursor, oldest first, paging back all the way to it.
+ * Without a cursor only the newest page is read.
+ */
+async function newSignatures(connection: Connection, cursor: string | null) {
+  const treasury = new PublicKey(TREASURY);
+  const found: Array<{ signature: string; err: unknown }> = [];
+  let before: string | undefined;
+  for (;;) {
+    const batch = await connection.getSignaturesForAddress(
+      treasury,
+      { until: cursor ?? undefined, before, limit: PAGE_SIZE },
+      "confirmed"
+    );
+    found.push(...batch);
+    if (batch.length < PAGE_SIZE || !cursor) break;
+    before = batch[batch.length - 1].signature;
+  }
+  return found.reverse();
+}
+
+/** Queues a mint for `signature` when it pays an issued quote and nothing has claimed it yet. */
+async function indexPayment(connection: Connection, signature: string) {
+  const store = getLedgerStore();
+  if (await findMintJobBySignature(signature)) return;
+  if ((await store.isSignatureUsed(signature)) || (await store.getOwedPayment(signature))) return;
+
+  const tx = await connection.getParsedTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0,
+  });
+  if (!tx) throw new Error(`Transaction ${signature} not found yet`);
+  const memos = paymentMemos(tx);
+  if (memos.length !== 1 || !isMachineId(memos[0].machine)) return;
+  const [memo] = memos;
+  const issued = await store.getIssuedQuote(memo.quoteId);
+  if (!issued) return;
+
+  await enqueueMintJob({
+    signature,
+    payer: issued.payer,
+    machine: memo.machine,
+    originalMint: memo.originalMint,
+    quoteToken: issued.token,
+  });
+  startMintWorker();
+}
+
+/** One pass over new treasury signatures. A failure stops the pass; the next one resumes from the cursor. */
+export async function pollTreasury() {
+  const store = getLedgerStore();
+  const connection = getConnection();
+  const cursor = await store.getIndexerCursor(CURSOR_NAME);
+  const pending = await newSignatures(connection, cursor);
+  if (pending.length > MAX_PER_PASS) {
+    console.warn(`[treasury-indexer] ${pending.length} new signatures; handling the oldest ${MAX_PER_PASS} this pass`);
+  }
+  for (const info of pending.slice(0, MAX_PER_PASS)) {
+    if (!info.err) await indexPayment(connection, info.signature);
+    await store.setIndexerCursor(CURSOR_NAME, info.signature);
+  }
+}
+
+async function tick() {
+  if (indexer.running) return;
+  indexer.running = true;
+  try {
+    await pollTreasury();
+  } catch (e) {
+    console.error("[treasury-indexer] poll failed", e);
+  } finally {
+    indexer.running = false;
+    indexer.timer = setTimeout(() => void tick(), INTERVAL_SECONDS * 1000);
+  }
+}
+
+/** Starts polling unless disabled or already running. */
+export function startTreasuryIndexer() {
+  if (!INTERVAL_SECONDS || indexer.timer || indexer.running) return;
+  void tick();
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { isCid } from "../../_lib/cid";
+import { readLocalAsset } from "../../_lib/metadataStorage";
+
+export const runtime = "nodejs";
+
+/** Serves objects stored by the local metadata storage driver. */
+export async function GET(req: Request, { params }: { params: { cid: string } }) {
+  try {
+    if (!rateLimit(req, "assets", 300, 60_000)) return rateLimitResponse();
+    const cid = (params?.cid || "").trim();
+    if (!isCid(cid)) return NextResponse.json({ error: "Invalid CID" }, { status: 400 });
+
+    const asset = readLocalAsset(cid);
+    if (!asset) return NextResponse.json({ error: "Asset not found" }, { status: 404 });
+    return new NextResponse(new Uint8Array(asset.bytes), {
+      headers: {
+        "Content-Type": asset.mime,
+        // Content-addressed, so it never changes.
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (e) {
+    console.error("[/api/assets] error", e);
+    return NextResponse.json({ error: "Failed to load asset" }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { isValidPublicKey, isValidSignature } from "../../_lib/mintPipeline";
+import { getLedgerStore } from "../../_lib/ledgerStore";
+import { BridgeError, buildEscrowTransaction, checkEscrowLock, isBridgeEnabled } from "../../_lib/bridgeEscrow";
+import { createBridgeOp } from "../../_lib/bridgeOps";
+
+export const runtime = "nodejs";
+
+/**
+ * Locks `sourceMint` in bridge escrow in two calls. Without `escrowSignature`, builds the
+ * Solana transaction and opens a bridge operation (`opId`, see /api/bridge/ops/:id). Once
+ * the owner has sent it, `escrowSignature` records the confirmed lock as locked-unminted,
+ * so the original can be reclaimed through /api/bridge/unlock if the remix is never paid
+ * for. The owner then pays with a `sourceChain: "solana"` quote and passes the lock
+ * signature and `opId` to /api/verify as `bridge.escrowSignature` and `bridge.opId`.
+ */
+export async function POST(req: Request) {
+  if (!isBridgeEnabled()) return NextResponse.json({ error: "Bridge is disabled" }, { status: 404 });
+  if (!rateLimit(req, "bridge-escrow", 10, 60_000)) return rateLimitResponse();
+
+  try {
+    const body = (await req.json()) as { owner?: string; sourceMint?: string; escrowSignature?: string };
+    const owner = body?.owner?.trim();
+    const sourceMint = body?.sourceMint?.trim();
+    const escrowSignature = body?.escrowSignature?.trim();
+    if (!owner || !isValidPublicKey(owner)) return NextResponse.json({ error: "Invalid owner" }, { status: 400 });
+    if (!sourceMint || !isValidPublicKey(sourceMint)) {
+      return NextResponse.json({ error: "Invalid sourceMint" }, { status: 400 });
+    }
+    if (escrowSignature !== undefined && !isValidSignature(escrowSignature)) {
+      return NextResponse.json({ error: "Invalid escrowSignature" }, { status: 400 });
+    }
+
+    if (escrowSignature) {
+      const lock = await checkEscrowLock({ escrowSignature, sourceMint, owner });
+      if (lock.ok === false) return NextResponse.json({ error: lock.error }, { status: lock.pending ? 409 : 403 });
+      await getLedgerStore().recordBridge({
+        signature: null,
+        sourceChain: "solana",
+        sourceMint,
+        escrowSignature,
+        owner,
+        createdAt: new Date().toISOString(),
+      });
+      return NextResponse.json({ ok: true });
+    }
+
+    const built = await buildEscrowTransaction(new PublicKey(owner), new PublicKey(sourceMint));
+    const op = await createBridgeOp({ owner, sourceMint });
+    return NextResponse.json({ ok: true, opId: op.id, ...built });
+  } catch (e: any) {
+    if (e instanceof BridgeError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[/api/bridge/escrow] error", e);
+    return NextResponse.json({ error: "Failed to build escrow transaction" }, { status: 500 });
+  }
+}
@@ -1,19 +1,55 @@
 import { NextResponse } from "next/server";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { hedgedRead, probeRpcPool, type RpcEndpointHealth } from "../../_lib/rpcPool";
+import { bridgeEscrowWallet, isBridgeEnabled } from "../../_lib/bridgeEscrow";
+import { bridgeQueueDepth } from "../../_lib/bridgeOps";
 
 export const runtime = "nodejs";
 
-export async function GET() {
-  const enabled =
-    (process.env.BRIDGE_ENABLED || process.env.NEXT_PUBLIC_BRIDGE_ENABLED || "false").toLowerCase() === "true";
+/** A pool is reachable when at least one endpoint answered the probe. */
+function reachability(endpoints: RpcEndpointHealth[]) {
+  const reachable = endpoints.filter((endpoint) => endpoint.healthy && endpoint.consecutiveErrors === 0);
+  return { reachable: reachable.length > 0, endpoints: endpoints.length, up: reachable.length };
+}
+
+export async function GET(req: Request) {
+  const enabled = isBridgeEnabled();
+  const base = { feature: "bridge", enabled, phase: "B", mode: "escrow", sourceChains: ["solana"] };
+  if (!enabled) return NextResponse.json({ ok: true, ...base }, { status: 200 });
+
+  try {
+    if (!rateLimit(req, "bridge-health", 12, 60_000)) return rateLimitResponse();
+    const escrow = bridgeEscrowWallet();
+    const [gorbagana, solana] = await Promise.all([probeRpcPool("gorbagana"), probeRpcPool("solana")]);
+    const rpc = { gorbagana: reachability(gorbagana), solana: reachability(solana) };
+
+    let escrowBalance: { lamports: number; sol: number } | null = null;
+    if (rpc.solana.reachable) {
+      try {
+        const lamports = await hedgedRead((connection) => connection.getBalance(escrow, "confirmed"), {
+          pool: "solana",
+        });
+        escrowBalance = { lamports, sol: lamports / LAMPORTS_PER_SOL };
+      } catch (e) {
+        console.error("[/api/bridge/health] escrow balance failed", e);
+      }
+    }
 
-  return NextResponse.json(
-    {
-      ok: true,
-      feature: "bridge",
-      enabled,
-      phase: "A",
-      mode: "scaffold",
-    },
-    { status: 200 }
-  );
+    // Releases are paid from the escrow wallet, so it needs SOL as well as both chains.
+    const ok = rpc.gorbagana.reachable && rpc.solana.reachable && !!escrowBalance?.lamports;
+    return NextResponse.json(
+      {
+        ok,
+        ...base,
+        escrow: { wallet: escrow.toBase58(), balance: escrowBalance },
+        rpc,
+        queue: await bridgeQueueDepth(),
+      },
+      { status: ok ? 200 : 503 }
+    );
+  } catch (e: any) {
+    console.error("[/api/bridge/health] error", e);
+    return NextResponse.json({ error: "Failed to check bridge health" }, { status: 500 });
+  }
 }
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { isValidPublicKey } from "../../_lib/mintPipeline";
+import { getLedgerStore } from "../../_lib/ledgerStore";
+import { isBridgeEnabled } from "../../_lib/bridgeEscrow";
+import { toPublicBridge } from "../../_lib/bridgeUnlock";
+
+export const runtime = "nodejs";
+
+/** Bridge mints locked by `owner`, newest first, with their lock/unlock status. */
+export async function GET(req: Request) {
+  if (!isBridgeEnabled()) return NextResponse.json({ error: "Bridge is disabled" }, { status: 404 });
+  if (!rateLimit(req, "bridge-items", 60, 60_000)) return rateLimitResponse();
+
+  const owner = new URL(req.url).searchParams.get("owner")?.trim();
+  if (!owner || !isValidPublicKey(owner)) return NextResponse.json({ error: "Invalid owner" }, { status: 400 });
+
+  try {
+    const entries = await getLedgerStore().listBridgesByOwner(owner);
+    return NextResponse.json({ ok: true, items: entries.map(toPublicBridge) });
+  } catch (e: any) {
+    console.error("[/api/bridge/items] error", e);
+    return NextResponse.json({ error: "Failed to load bridged items" }, { status: 500 });
+  }
+}
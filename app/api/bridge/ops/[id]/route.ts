@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../../_lib/rateLimit";
+import { startMintWorker } from "../../../_lib/mintJobs";
+import { isBridgeEnabled } from "../../../_lib/bridgeEscrow";
+import { getBridgeOp, isBridgeOpFinished, toBridgeOpView } from "../../../_lib/bridgeOps";
+
+export const runtime = "nodejs";
+
+const OP_ID_REGEX = /^[0-9a-f]{24}$/;
+const POLL_MS = 1_000;
+const HEARTBEAT_MS = 15_000;
+/** Streams end after this long; EventSource reconnects on its own. */
+const MAX_STREAM_MS = 10 * 60_000;
+
+/**
+ * The operation's current view as JSON, or, for `Accept: text/event-stream` (EventSource),
+ * an `op` event on every change until it completes or fails.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  if (!isBridgeEnabled()) return NextResponse.json({ error: "Bridge is disabled" }, { status: 404 });
+  try {
+    if (!rateLimit(req, "bridge-ops", 120, 60_000)) return rateLimitResponse();
+    const id = (params?.id || "").trim();
+    if (!OP_ID_REGEX.test(id)) return NextResponse.json({ error: "Invalid operation id" }, { status: 400 });
+    const op = getBridgeOp(id);
+    if (!op) return NextResponse.json({ error: "Operation not found" }, { status: 404 });
+
+    // Like job polling, watching an operation wakes jobs left behind by a restart.
+    startMintWorker();
+    if (!(req.headers.get("accept") || "").includes("text/event-stream")) {
+      return NextResponse.json({ ok: true, op: await toBridgeOpView(op) });
+    }
+
+    const encoder = new TextEncoder();
+    let poll: ReturnType<typeof setInterval> | undefined;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    // Set once the stream is closed or cancelled (client gone); nothing is written after that.
+    let closed = false;
+    const stop = () => {
+      closed = true;
+      clearInterval(poll);
+      clearInterval(heartbeat);
+      clearTimeout(deadline);
+      if (onAbort) req.signal.removeEventListener("abort", onAbort);
+    };
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let last = "";
+        const close = () => {
+          if (closed) return;
+          stop();
+          controller.close();
+        };
+        onAbort = close;
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+        // Polls may outlast the interval (the job is read from the ledger); one runs at a time.
+        let pushing = false;
+        const push = async () => {
+          if (pushing || closed) return;
+          pushing = true;
+          try {
+            const current = getBridgeOp(id);
+            if (!current) return close();
+            const view = await toBridgeOpView(current);
+            const data = JSON.stringify(view);
+            if (data !== last) {
+              last = data;
+              send(`event: op\ndata: ${data}\n\n`);
+            }
+            if (isBridgeOpFinished(view)) close();
+          } catch (e) {
+            console.error("[/api/bridge/ops] stream error", e);
+            close();
+          } finally {
+            pushing = false;
+          }
+        };
+        send(`retry: ${POLL_MS * 3}\n\n`);
+        void push();
+        poll = setInterval(() => void push(), POLL_MS);
+        heartbeat = setInterval(() => send(": keep-alive\n\n"), HEARTBEAT_MS);
+        deadline = setTimeout(close, MAX_STREAM_MS);
+        req.signal.addEventListener("abort", close);
+      },
+      cancel: stop,
+    });
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (e) {
+    console.error("[/api/bridge/ops] error", e);
+    return NextResponse.json({ error: "Failed to load operation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { PublicKey } from "@solana/web3.js";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { isValidPublicKey, isValidSignature } from "../../_lib/mintPipeline";
+import { getLedgerStore } from "../../_lib/ledgerStore";
+import { BridgeError, isBridgeEnabled } from "../../_lib/bridgeEscrow";
+import { buildBurnTransaction, toPublicBridge, unlockBridge } from "../../_lib/bridgeUnlock";
+
+export const runtime = "nodejs";
+
+/**
+ * Unlocks a bridge mint in two calls. Without `burnSignature`, returns the Gorbagana
+ * transaction burning the remix for `owner` to sign and send. With it, checks the burn and
+ * releases the original from escrow. A bridge mint already unlocking just resumes, and an
+ * escrow lock never paid for, or whose mint failed, is released to its owner without a burn.
+ */
+export async function POST(req: Request) {
+  if (!isBridgeEnabled()) return NextResponse.json({ error: "Bridge is disabled" }, { status: 404 });
+  if (!rateLimit(req, "bridge-unlock", 10, 60_000)) return rateLimitResponse();
+
+  try {
+    const body = (await req.json()) as { owner?: string; escrowSignature?: string; burnSignature?: string };
+    const owner = body?.owner?.trim();
+    const escrowSignature = body?.escrowSignature?.trim();
+    const burnSignature = body?.burnSignature?.trim();
+    if (!owner || !isValidPublicKey(owner)) return NextResponse.json({ error: "Invalid owner" }, { status: 400 });
+    if (!escrowSignature || !isValidSignature(escrowSignature)) {
+      return NextResponse.json({ error: "Invalid escrowSignature" }, { status: 400 });
+    }
+    if (burnSignature !== undefined && !isValidSignature(burnSignature)) {
+      return NextResponse.json({ error: "Invalid burnSignature" }, { status: 400 });
+    }
+
+    if (!burnSignature) {
+      const current = await getLedgerStore().getBridgeByEscrow(escrowSignature);
+      if (current?.status === "locked") {
+        const built = await buildBurnTransaction(new PublicKey(owner), escrowSignature);
+        return NextResponse.json({ ok: true, ...built });
+      }
+    }
+
+    const entry = await unlockBridge({ escrowSignature, owner, burnSignature });
+    return NextResponse.json({ ok: true, bridge: toPublicBridge(entry) });
+  } catch (e: any) {
+    if (e instanceof BridgeError) return NextResponse.json({ error: e.message }, { status: e.status });
+    console.error("[/api/bridge/unlock] error", e);
+    return NextResponse.json({ error: "Unlock failed. Please try again." }, { status: 500 });
+  }
+}
@@ -1,16 +1,13 @@
-import fs from "fs";
-import path from "path";
 import { NextResponse } from "next/server";
+import { getLedgerStore } from "../_lib/ledgerStore";
 
-const LEDGER_PATH = process.env.REMIX_LEDGER_PATH || path.join(process.cwd(), "data", "remix-ledger.json");
+export const runtime = "nodejs";
 
-function readLedgerCollection(): string | null {
+async function readLedgerCollection(): Promise<string | null> {
   try {
-    if (!fs.existsSync(LEDGER_PATH)) return null;
-    const raw = fs.readFileSync(LEDGER_PATH, "utf8");
-    const parsed = JSON.parse(raw);
-    return typeof parsed?.collectionMint === "string" ? parsed.collectionMint : null;
-  } catch {
+    return (await getLedgerStore().getState()).collectionMint;
+  } catch (e) {
+    console.error("[/api/collection] ledger read failed", e);
     return null;
   }
 }
@@ -22,7 +19,7 @@ export async function GET() {
     process.env.NEXT_PUBLIC_TRASHTECH_COLLECTION_MINT ||
     "";
 
-  const ledgerMint = readLedgerCollection() || "";
+  const ledgerMint = (await readLedgerCollection()) || "";
   const collectionMint = envMint || ledgerMint || "";
 
   return NextResponse.json({
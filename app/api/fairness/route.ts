@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../_lib/rateLimit";
+import { BASE_ODDS, FAIRNESS_FORMULA, LEGACY_ODDS, describeEpoch, epochAt } from "../_lib/fairness";
+
+export const runtime = "nodejs";
+
+const REVEALED_HISTORY = 14;
+
+/** Current and next epoch commitments, plus the most recently revealed epoch secrets. */
+export async function GET(req: Request) {
+  try {
+    if (!rateLimit(req, "fairness", 60, 60_000)) return rateLimitResponse();
+    const now = Date.now();
+    const current = epochAt(now);
+    const revealed = [];
+    for (let epoch = current - 1; epoch >= current - REVEALED_HISTORY; epoch--) {
+      revealed.push(describeEpoch(epoch, now));
+    }
+    return NextResponse.json({
+      ok: true,
+      current: describeEpoch(current, now),
+      next: describeEpoch(current + 1, now),
+      revealed,
+      odds: BASE_ODDS,
+      legacyOdds: LEGACY_ODDS,
+      formula: FAIRNESS_FORMULA,
+    });
+  } catch (e: any) {
+    console.error("[/api/fairness] error", e);
+    return NextResponse.json({ error: "Failed to load fairness epochs" }, { status: 500 });
+  }
+}
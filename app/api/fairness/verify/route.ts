@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { getLedgerStore } from "../../_lib/ledgerStore";
+import { isValidSignature } from "../../_lib/mintPipeline";
+import {
+  FAIRNESS_FORMULA,
+  describeEpoch,
+  pickEffectFromTier,
+  rollValue,
+  tierForRoll,
+} from "../../_lib/fairness";
+import { getMachine, isMachineId, oddsForScheme } from "../../../_lib/machineCatalog";
+import { LEGACY_TIER_SCHEME } from "../../../_lib/tiers";
+
+export const runtime = "nodejs";
+
+/** Recomputes the tier roll and effect picks for a past mint from its revealed epoch secret. */
+export async function GET(req: Request) {
+  try {
+    if (!rateLimit(req, "fairness-verify", 30, 60_000)) return rateLimitResponse();
+    const signature = new URL(req.url).searchParams.get("signature")?.trim() || "";
+    if (!isValidSignature(signature)) return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+
+    const mint = await getLedgerStore().getMint(signature);
+    if (!mint) return NextResponse.json({ error: "No mint found for this signature" }, { status: 404 });
+    if (mint.rollEpoch === undefined) {
+      return NextResponse.json({ error: "This mint predates provably fair rolls" }, { status: 409 });
+    }
+
+    const epoch = describeEpoch(mint.rollEpoch);
+    const recorded = {
+      machine: mint.machine,
+      tier: mint.tier,
+      mintedMint: mint.mintedMint,
+      soldOutTiers: mint.soldOutTiers || [],
+      tierScheme: mint.tierScheme ?? LEGACY_TIER_SCHEME,
+    };
+    if (!epoch.secret) {
+      return NextResponse.json({ ok: true, revealed: false, signature, epoch, recorded });
+    }
+
+    const odds = isMachineId(mint.machine) ? oddsForScheme(getMachine(mint.machine), recorded.tierScheme) : null;
+    if (!odds) {
+      return NextResponse.json({ error: "This mint's machine is no longer in the catalog" }, { status: 409 });
+    }
+    const roll = rollValue(signature, mint.machine, epoch.secret);
+    const tier = tierForRoll(mint.machine, roll, recorded.soldOutTiers, recorded.tierScheme);
+    return NextResponse.json({
+      ok: true,
+      revealed: true,
+      signature,
+      epoch,
+      recorded,
+      odds,
+      roll,
+      tier,
+      effect: pickEffectFromTier(tier, signature),
+      matches: tier === mint.tier,
+      formula: FAIRNESS_FORMULA,
+    });
+  } catch (e: any) {
+    console.error("[/api/fairness/verify] error", e);
+    return NextResponse.json({ error: "Failed to verify roll" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { probeRpcPool } from "../../_lib/rpcPool";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  try {
+    if (!rateLimit(req, "health-rpc", 12, 60_000)) return rateLimitResponse();
+    const [gorbagana, solana] = await Promise.all([probeRpcPool("gorbagana"), probeRpcPool("solana")]);
+    // Gorbagana is the one minting depends on; the Solana pool only serves bridge listings.
+    const ok = gorbagana.some((endpoint) => endpoint.healthy);
+    return NextResponse.json({ ok, pools: { gorbagana, solana } }, { status: ok ? 200 : 503 });
+  } catch (e: any) {
+    console.error("[/api/health/rpc] error", e);
+    return NextResponse.json({ error: "Failed to check RPC health" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../../_lib/rateLimit";
+import { getMintJob, startMintWorker, toPublicJob } from "../../_lib/mintJobs";
+
+export const runtime = "nodejs";
+
+const JOB_ID_REGEX = /^[0-9a-f]{24}$/;
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    if (!rateLimit(req, "jobs", 120, 60_000)) return rateLimitResponse();
+    const id = (params?.id || "").trim();
+    if (!JOB_ID_REGEX.test(id)) return NextResponse.json({ error: "Invalid job id" }, { status: 400 });
+
+    // Polling doubles as a wake-up for jobs left behind by a restart.
+    startMintWorker();
+    const job = await getMintJob(id);
+    if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, job: toPublicJob(job) });
+  } catch (e) {
+    console.error("[/api/jobs] error", e);
+    return NextResponse.json({ error: "Failed to load job" }, { status: 500 });
+  }
+}
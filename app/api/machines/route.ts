@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../_lib/rateLimit";
+import { priceFor } from "../_lib/pricing";
+import { getRemixPolicy } from "../_lib/remixPolicy";
+import { tokenPricesFor } from "../_lib/paymentTokens";
+import { EFFECT_POOLS, MACHINES } from "../../_lib/machineCatalog";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  try {
+    if (!rateLimit(req, "machines", 60, 60_000)) return rateLimitResponse();
+    const machines = await Promise.all(
+      MACHINES.map(async (m) => {
+        // A machine priced at last mint cost has no price until the first mint.
+        const priceGor = await priceFor(m.id).catch(() => null);
+        // SPL prices are fixed amounts of whole tokens, keyed by symbol (see paymentTokens).
+        return { ...m, priceGor, tokenPrices: tokenPricesFor(m.id) };
+      })
+    );
+    return NextResponse.json({ ok: true, machines, effects: EFFECT_POOLS, remixPolicy: getRemixPolicy() });
+  } catch (e: any) {
+    console.error("[/api/machines] error", e);
+    return NextResponse.json({ error: "Failed to load machines" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { rateLimit, rateLimitResponse } from "../_lib/rateLimit";
+import { adminUnauthorizedResponse, isAdminRequest } from "../_lib/adminAuth";
+import { getLedgerStore, type RefundStatus } from "../_lib/ledgerStore";
+import { isValidSignature } from "../_lib/mintPipeline";
+import { RefundError, refundPayment } from "../_lib/refunds";
+
+export const runtime = "nodejs";
+
+const STATUSES: RefundStatus[] = ["owed", "refunding", "refunded"];
+
+/** Lists owed payments, optionally filtered with ?status=owed|refunding|refunded. */
+export async function GET(req: Request) {
+  try {
+    if (!rateLimit(req, "refunds", 30, 60_000)) return rateLimitResponse();
+    if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+    const status = new URL(req.url).searchParams.get("status") as RefundStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+    const owed = await getLedgerStore().listOwedPayments();
+    return NextResponse.json({ ok: true, payments: status ? owed.filter((p) => p.status === status) : owed });
+  } catch (e: any) {
+    console.error("[/api/refunds] error", e);
+    return NextResponse.json({ error: "Failed to load refunds" }, { status: 500 });
+  }
+}
+
+/** Sends (or finishes) the refund for `{ signature }`. */
+export async function POST(req: Request) {
+  try {
+    if (!rateLimit(req, "refunds", 30, 60_000)) return rateLimitResponse();
+    if (!isAdminRequest(req)) return adminUnauthorizedResponse();
+
+    const body = (await req.json()) as { signature?: string };
+    const signature = body?.signature?.trim();
+    if (!signature || !isValidSignature(signature)) {
+      return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+    }
+    const payment = await refundPayment(signature);
+    return NextResponse.json({ ok: true, payment });
+  } catch (e: any) {
+    if (e instanceof RefundError) {
+      return NextResponse.json({ error: e.message }, { status: e.status });
+    }
+    console.error("[/api/refunds] error", e);
+    return NextResponse.json({ error: "Refund failed" }, { status: 500 });
+  }
+}
@@ -1,12 +1,29 @@
 import { NextResponse } from "next/server";
-import { LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
-import fs from "fs";
-import path from "path";
+import { PublicKey } from "@solana/web3.js";
 import { rateLimit, rateLimitResponse } from "../_lib/rateLimit";
+import { issueQuote } from "../_lib/quotes";
+import { getLedgerStore } from "../_lib/ledgerStore";
+import { quotePrice } from "../_lib/pricingRules";
+import { splitPayment } from "../_lib/paymentSplit";
+import { buildPaymentTransaction } from "../_lib/paymentTransaction";
+import { rememberQuote } from "../_lib/treasuryIndexer";
+import { NATIVE_CURRENCY, currenciesFor, isPaymentCurrency } from "../_lib/paymentTokens";
+import { getTierCaps } from "../_lib/tierCaps";
+import { getConnection } from "../_lib/rpcPool";
+import { checkRemixPolicy } from "../_lib/remixPolicy";
+import { listPendingRemixes } from "../_lib/mintJobs";
+import { checkMintEligibility } from "../_lib/eligibility";
+import { isBridgeEnabled } from "../_lib/bridgeEscrow";
+import { TIER_IDS } from "../../_lib/tiers";
+import { isMachineId, type MachineId } from "../../_lib/machineCatalog";
 
 export const runtime = "nodejs";
 
-type Machine = "CONVEYOR" | "COMPACTOR" | "HAZMAT";
+const BASE58_REGEX = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+function isValidPublicKey(key: string) {
+  return key.length >= 32 && key.length <= 44 && BASE58_REGEX.test(key);
+}
 
 function requireEnv(name: string) {
   const value = process.env[name];
@@ -15,103 +32,100 @@ function requireEnv(name: string) {
 }
 
 const TREASURY = requireEnv("TREASURY_WALLET");
-const GOR_LAMPORTS = Number(process.env.GOR_LAMPORTS ?? LAMPORTS_PER_SOL);
-
-if (!Number.isFinite(GOR_LAMPORTS) || GOR_LAMPORTS <= 0) {
-  throw new Error("Invalid GOR_LAMPORTS configuration");
-}
-
-// New pricing: $5 / $7 / $9 => 2500 / 3500 / 4500 $GOR
-const PRICE_CONVEYOR_RAW = process.env.PRICE_CONVEYOR_GOR ?? process.env.PRICE_CONVEYOR_GGOR ?? "3000";
-const PRICE_CONVEYOR = Number(PRICE_CONVEYOR_RAW);
-const PRICE_COMPACTOR = Number(process.env.PRICE_COMPACTOR_GOR ?? process.env.PRICE_COMPACTOR_GGOR ?? "4250");
-const PRICE_HAZMAT = Number(process.env.PRICE_HAZMAT_GOR ?? process.env.PRICE_HAZMAT_GGOR ?? "5000");
-const TIER1_CAP = Number(process.env.TIER1_CAP ?? "3000");
-const TIER2_CAP = Number(process.env.TIER2_CAP ?? "999");
-const TIER3_CAP = Number(process.env.TIER3_CAP ?? "444");
-const LEDGER_PATH = process.env.REMIX_LEDGER_PATH || path.join(process.cwd(), "data", "remix-ledger.json");
-
-function loadLastMintCostLamports(): number | null {
-  if (!fs.existsSync(LEDGER_PATH)) return null;
-  try {
-    const raw = fs.readFileSync(LEDGER_PATH, "utf8");
-    const parsed = JSON.parse(raw);
-    const val = Number(parsed?.lastMintCostLamports ?? 0);
-    return Number.isFinite(val) && val > 0 ? val : null;
-  } catch (e) {
-    console.error("[/api/run] ledger parse failed", e);
-    throw new Error("Ledger corrupted");
-  }
-}
-
-function loadTierCounts(): { tier1: number; tier2: number; tier3: number } {
-  if (!fs.existsSync(LEDGER_PATH)) return { tier1: 0, tier2: 0, tier3: 0 };
-  try {
-    const raw = fs.readFileSync(LEDGER_PATH, "utf8");
-    const parsed = JSON.parse(raw);
-    const used = parsed?.usedMints || {};
-    const counts = { tier1: 0, tier2: 0, tier3: 0 };
-    for (const key of Object.keys(used)) {
-      const tier = used[key]?.tier as "tier1" | "tier2" | "tier3" | undefined;
-      if (tier && (tier in counts)) (counts as any)[tier] += 1;
-    }
-    return counts;
-  } catch (e) {
-    console.error("[/api/run] ledger parse failed", e);
-    throw new Error("Ledger corrupted");
-  }
-}
-
-function priceFor(machine: Machine) {
-  if (machine === "CONVEYOR") {
-    if (!isFinite(PRICE_CONVEYOR) || PRICE_CONVEYOR <= 0) {
-      const last = loadLastMintCostLamports();
-      if (!last) throw new Error("No mint cost recorded yet. Set PRICE_CONVEYOR_GOR or run one mint.");
-      return last / GOR_LAMPORTS;
-    }
-    return PRICE_CONVEYOR;
-  }
-  const p = machine === "COMPACTOR" ? PRICE_COMPACTOR : PRICE_HAZMAT;
-  if (!isFinite(p) || p <= 0) throw new Error("Invalid machine price config");
-  return p;
-}
 
 export async function POST(req: Request) {
   try {
     if (!rateLimit(req, "run", 30, 60_000)) return rateLimitResponse();
     if (!TREASURY) return NextResponse.json({ error: "Missing TREASURY_WALLET env var" }, { status: 500 });
-    if (!isFinite(GOR_LAMPORTS) || GOR_LAMPORTS <= 0) {
-      return NextResponse.json({ error: "Invalid GOR_LAMPORTS" }, { status: 500 });
-    }
 
-    const body = (await req.json()) as { machine?: Machine };
-    const machine = body?.machine as Machine;
+    const body = (await req.json()) as {
+      machine?: MachineId;
+      payer?: string;
+      originalMint?: string;
+      currency?: string;
+      /** "solana" for a Trash Bridge remix: `originalMint` is a Solana mint to be locked in escrow. */
+      sourceChain?: string;
+      /** Also return the unsigned payment transaction, ready for the payer to sign. */
+      buildTransaction?: boolean;
+    };
+    const machine = body?.machine;
+    const payer = body?.payer?.trim();
+    const originalMint = body?.originalMint?.trim();
 
-    if (!machine || !["CONVEYOR", "COMPACTOR", "HAZMAT"].includes(machine)) {
+    if (!isMachineId(machine)) {
       return NextResponse.json({ error: "Invalid machine" }, { status: 400 });
     }
+    if (!payer || !isValidPublicKey(payer)) return NextResponse.json({ error: "Invalid payer" }, { status: 400 });
+    if (!originalMint || !isValidPublicKey(originalMint)) {
+      return NextResponse.json({ error: "Invalid originalMint" }, { status: 400 });
+    }
+    if (body?.sourceChain !== undefined && (body.sourceChain !== "solana" || !isBridgeEnabled())) {
+      return NextResponse.json({ error: "Invalid sourceChain" }, { status: 400 });
+    }
+    const sourceChain = body?.sourceChain === "solana" ? body.sourceChain : undefined;
+    const currency = body?.currency || NATIVE_CURRENCY;
+    if (!isPaymentCurrency(currency) || !currenciesFor(machine).includes(currency)) {
+      return NextResponse.json({ error: `This machine cannot be paid in ${currency}` }, { status: 400 });
+    }
 
-    const counts = loadTierCounts();
-    const caps = { tier1: TIER1_CAP, tier2: TIER2_CAP, tier3: TIER3_CAP };
-    const remaining = {
-      tier1: Math.max(0, caps.tier1 - counts.tier1),
-      tier2: Math.max(0, caps.tier2 - counts.tier2),
-      tier3: Math.max(0, caps.tier3 - counts.tier3),
-    };
-    if (remaining.tier1 + remaining.tier2 + remaining.tier3 <= 0) {
+    const counts = await getLedgerStore().getTierCounts({ includeReserved: true });
+    const caps = getTierCaps();
+    const remaining = TIER_IDS.reduce((sum, tier) => sum + Math.max(0, caps[tier] - counts[tier]), 0);
+    if (remaining <= 0) {
       return NextResponse.json({ error: "All tiers are sold out." }, { status: 409 });
     }
 
+    const connection = getConnection();
+    // Bridge sources are not on Gorbagana; the escrow lock is checked when the mint is verified.
+    if (!sourceChain) {
+      const eligibility = await checkMintEligibility(connection, new PublicKey(originalMint));
+      if (eligibility.eligible === false) {
+        return NextResponse.json({ error: eligibility.reason }, { status: 403 });
+      }
+    }
+
+    const policy = await checkRemixPolicy({ originalMint, payer, machine }, await listPendingRemixes());
+    if (policy.ok === false) {
+      return NextResponse.json(
+        { error: policy.error, retryAfterSeconds: policy.retryAfterSeconds },
+        { status: policy.retryAfterSeconds ? 429 : 409 }
+      );
+    }
+
     const treasury = new PublicKey(TREASURY);
-    const amount = priceFor(machine);
-    const amountLamports = BigInt(Math.round(amount * GOR_LAMPORTS)).toString();
+    const price = await quotePrice({ machine, payer, connection, currency });
+    const legs = splitPayment(price.amountLamports, price.token);
+    const { quote, token } = issueQuote({
+      payer,
+      originalMint,
+      machine,
+      treasury: treasury.toBase58(),
+      amountLamports: price.amountLamports,
+      token: price.token,
+      legs,
+      rules: price.rules.map((rule) => rule.id),
+      sourceChain,
+    });
+    // The indexer cannot mint a bridge payment on its own: only the browser knows the escrow lock.
+    if (!sourceChain) await rememberQuote(quote, token);
+    const built = body?.buildTransaction ? await buildPaymentTransaction(connection, quote) : null;
 
     return NextResponse.json({
       ok: true,
       machine,
       treasury: treasury.toBase58(),
-      amount, // $GOR units
-      amountLamports, // base units (string)
+      currency: price.currency,
+      token: price.token, // SPL payments: mint, decimals and token program
+      amount: price.price, // whole units of `currency`
+      amountLamports: price.amountLamports, // base units (string)
+      legs, // one transfer each, all in the same transaction; token legs carry the destination ATA
+      basePrice: price.basePrice, // before rules
+      rules: price.rules, // what moved the price, in the order applied
+      quoteId: quote.id,
+      quoteToken: token,
+      expiresAt: quote.expiresAt,
+      transaction: built?.transaction, // base64, unsigned; sign as the payer and send unchanged
+      lastValidBlockHeight: built?.lastValidBlockHeight,
     });
   } catch (e: any) {
     console.error("[/api/run] error", e);
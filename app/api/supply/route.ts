@@ -1,45 +1,24 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
 import { rateLimit, rateLimitResponse } from "../_lib/rateLimit";
+import { getLedgerStore } from "../_lib/ledgerStore";
+import { getTierCaps } from "../_lib/tierCaps";
+import { TIER_IDS } from "../../_lib/tiers";
 
 export const runtime = "nodejs";
 
-const LEDGER_PATH = process.env.REMIX_LEDGER_PATH || path.join(process.cwd(), "data", "remix-ledger.json");
-const TIER1_CAP = Number(process.env.TIER1_CAP ?? "3000");
-const TIER2_CAP = Number(process.env.TIER2_CAP ?? "999");
-const TIER3_CAP = Number(process.env.TIER3_CAP ?? "444");
-
-function loadTierCounts(): { tier1: number; tier2: number; tier3: number } {
-  if (!fs.existsSync(LEDGER_PATH)) return { tier1: 0, tier2: 0, tier3: 0 };
-  try {
-    const raw = fs.readFileSync(LEDGER_PATH, "utf8");
-    const parsed = JSON.parse(raw);
-    const used = parsed?.usedMints || {};
-    const counts = { tier1: 0, tier2: 0, tier3: 0 };
-    for (const key of Object.keys(used)) {
-      const tier = used[key]?.tier as "tier1" | "tier2" | "tier3" | undefined;
-      if (tier && (tier in counts)) (counts as any)[tier] += 1;
-    }
-    return counts;
-  } catch (e) {
-    console.error("[/api/supply] ledger parse failed", e);
-    throw new Error("Ledger corrupted");
-  }
-}
-
 export async function GET(req: Request) {
   try {
     if (!rateLimit(req, "supply", 60, 60_000)) return rateLimitResponse();
-    const counts = loadTierCounts();
-    const caps = { tier1: TIER1_CAP, tier2: TIER2_CAP, tier3: TIER3_CAP };
-    const supply = {
-      tier1: { cap: caps.tier1, minted: counts.tier1, remaining: Math.max(0, caps.tier1 - counts.tier1) },
-      tier2: { cap: caps.tier2, minted: counts.tier2, remaining: Math.max(0, caps.tier2 - counts.tier2) },
-      tier3: { cap: caps.tier3, minted: counts.tier3, remaining: Math.max(0, caps.tier3 - counts.tier3) },
-      totalCap: caps.tier1 + caps.tier2 + caps.tier3,
-      totalMinted: counts.tier1 + counts.tier2 + counts.tier3,
-    };
+    const store = getLedgerStore();
+    const counts = await store.getTierCounts();
+    const held = await store.getTierCounts({ includeReserved: true });
+    const caps = getTierCaps();
+    const supply: Record<string, unknown> = {};
+    for (const tier of TIER_IDS) {
+      supply[tier] = { cap: caps[tier], minted: counts[tier], remaining: Math.max(0, caps[tier] - held[tier]) };
+    }
+    supply.totalCap = TIER_IDS.reduce((sum, tier) => sum + caps[tier], 0);
+    supply.totalMinted = TIER_IDS.reduce((sum, tier) => sum + counts[tier], 0);
     return NextResponse.json({ ok: true, supply });
   } catch (e: any) {
     console.error("[/api/supply] error", e);
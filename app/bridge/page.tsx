@@ -1,11 +1,53 @@
 'use client';
-import { useEffect, useMemo, useState } from "react";
-import { Connection, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Connection } from "@solana/web3.js";
+import { mintJobLabel, submitMintJob, waitForMintJob } from "../_lib/mintJobClient";
+import { payWithServerTransaction } from "../_lib/paymentClient";
+import {
+  fetchBridgedItems,
+  lockInEscrow,
+  unlockBridgedItem,
+  watchBridgeOp,
+  type BridgeOpView,
+  type BridgeStatus,
+  type BridgedItem,
+  type EscrowLock,
+} from "../_lib/bridgeClient";
+import { pickRpcUrl } from "../_lib/rpcEndpoints";
+import { DEFAULT_MACHINE_ID, MACHINES, getMachine, oddsLabel, type MachineId } from "../_lib/machineCatalog";
 
 const BRIDGE_ENABLED = (process.env.NEXT_PUBLIC_BRIDGE_ENABLED || "false").toLowerCase() === "true";
-const RPC = process.env.NEXT_PUBLIC_RPC_URL || process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL || "https://rpc.trashscan.io";
-type Machine = "CONVEYOR" | "COMPACTOR" | "HAZMAT";
-type TierId = "tier1" | "tier2" | "tier3";
+const RPC = pickRpcUrl(process.env.NEXT_PUBLIC_RPC_URL, process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL);
+const SOLANA_RPC = process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
+const RAIL_STAGES = [
+  { id: "idle", label: "Idle" },
+  { id: "locking", label: "Locking" },
+  { id: "verifying", label: "Verifying" },
+  { id: "minting", label: "Minting" },
+  { id: "complete", label: "Complete" },
+] as const;
+type RailStage = (typeof RAIL_STAGES)[number]["id"];
+type Rail = { stage: RailStage; status: BridgeOpView["status"]; note: string };
+const IDLE_RAIL: Rail = { stage: "idle", status: "active", note: "" };
+
+function railFromOp(op: BridgeOpView): Rail {
+  let note = "";
+  if (op.status === "failed") {
+    note = op.paymentOwed
+      ? op.error || "Bridge failed."
+      : `${op.error || "Bridge failed."} Your NFT stays locked; run the bridge again to retry.`;
+  } else if (op.status === "retrying" && op.retry) {
+    note = `Retrying (attempt ${op.retry.attempt})${op.retry.detail ? `: ${op.retry.detail}` : ""}`;
+  }
+  return { stage: op.stage, status: op.status, note };
+}
+
+const BRIDGE_STATUS_LABELS: Record<BridgeStatus, string> = {
+  "locked-unminted": "Not minted",
+  locked: "Locked in escrow",
+  unlocking: "Unlocking",
+  unlocked: "Returned",
+};
 type DasAsset = {
   id: string;
   content?: {
@@ -13,49 +55,16 @@ type DasAsset = {
     links?: { image?: string };
     files?: Array<{ uri?: string; mime?: string }>;
   };
+  /** False for assets the escrow lock cannot move (Core assets, programmable NFTs). */
+  eligible?: boolean;
+  ineligibleReason?: string;
 };
 
-const MACHINE_OPTIONS: Array<{
-  id: Machine;
-  pull: string;
-  name: string;
-  cost: number;
-  odds: string;
-  intensity: number;
-  effects: string[];
-}> = [
-  {
-    id: "CONVEYOR",
-    pull: "Common Pull",
-    name: "Conveyor Bin",
-    cost: 3000,
-    odds: "80/18/2",
-    intensity: 0.42,
-    effects: ["Rust Chrome", "Oil Slick", "Grime Wash", "Smog Streaks"],
-  },
-  {
-    id: "COMPACTOR",
-    pull: "Rare Pull",
-    name: "Forge Compactor",
-    cost: 4250,
-    odds: "65/30/5",
-    intensity: 0.72,
-    effects: ["Toxic Slime Glow", "Dumpster Drip", "Mold Bloom", "Leachate Sheen"],
-  },
-  {
-    id: "HAZMAT",
-    pull: "Mythic Pull",
-    name: "Hazmat Shrine",
-    cost: 5000,
-    odds: "45/45/10",
-    intensity: 1,
-    effects: ["Biohazard Aura", "Nuclear Afterglow", "Gamma Bloom", "Golden Dumpster"],
-  },
-];
-
 export default function BridgePage() {
   const connection = useMemo(() => new Connection(RPC, "confirmed"), []);
-  const [machine, setMachine] = useState<Machine>("CONVEYOR");
+  const solanaConnection = useMemo(() => new Connection(SOLANA_RPC, "confirmed"), []);
+  const [machine, setMachine] = useState<MachineId>(DEFAULT_MACHINE_ID);
+  const [prices, setPrices] = useState<Record<MachineId, number | null>>({});
   const [selected, setSelected] = useState<DasAsset | null>(null);
   const [effectIndex, setEffectIndex] = useState(0);
   const [wallet, setWallet] = useState("");
@@ -63,14 +72,22 @@ export default function BridgePage() {
   const [connecting, setConnecting] = useState(false);
   const [nfts, setNfts] = useState<DasAsset[]>([]);
   const [loadingNfts, setLoadingNfts] = useState(false);
+  // Next /api/bridge/nfts page; the sentinel below the grid loads it when scrolled into view.
+  const [nftCursor, setNftCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const nftSentinelRef = useRef<HTMLDivElement | null>(null);
+  const walletRef = useRef(wallet);
+  walletRef.current = wallet;
   const [status, setStatus] = useState("Connect wallet to start bridge.");
   const [isRunning, setIsRunning] = useState(false);
+  // Kept across retries so a failed payment or mint does not ask to lock the same NFT twice.
+  const [lock, setLock] = useState<EscrowLock | null>(null);
+  const [bridged, setBridged] = useState<BridgedItem[]>([]);
+  const [unlocking, setUnlocking] = useState<string | null>(null);
+  const [rail, setRail] = useState<Rail>(IDLE_RAIL);
 
-  const machineData = useMemo(
-    () => MACHINE_OPTIONS.find((m) => m.id === machine) || MACHINE_OPTIONS[0],
-    [machine]
-  );
-  const effectName = machineData.effects[effectIndex % machineData.effects.length];
+  const machineData = useMemo(() => getMachine(machine), [machine]);
+  const effectName = machineData.highlights[effectIndex % machineData.highlights.length];
 
   useEffect(() => {
     const id = window.setInterval(() => {
@@ -83,11 +100,25 @@ export default function BridgePage() {
     setEffectIndex(0);
   }, [machine]);
 
-  const tierForMachine: Record<Machine, TierId> = {
-    CONVEYOR: "tier1",
-    COMPACTOR: "tier2",
-    HAZMAT: "tier3",
-  };
+  useEffect(() => {
+    async function loadMachines() {
+      try {
+        const res = await fetch("/api/machines", { cache: "no-store" });
+        const data = await res.json();
+        if (!res.ok || !Array.isArray(data?.machines)) return;
+        const list = data.machines as Array<{ id: MachineId; priceGor: number | null }>;
+        setPrices(Object.fromEntries(list.map((m) => [m.id, m.priceGor])));
+      } catch {
+        // keep catalog prices
+      }
+    }
+    loadMachines();
+  }, []);
+
+  function costLabel(id: MachineId) {
+    const value = id in prices ? prices[id] : getMachine(id).priceGor;
+    return value == null ? "Mint cost" : `${value} $GOR`;
+  }
 
   function getProvider() {
     const anyWindow = window as any;
@@ -126,7 +157,7 @@ export default function BridgePage() {
       if (!key) throw new Error("Wallet connected but no public key returned");
       setWallet(key);
       setStatus("Connected. Loading NFTs...");
-      await loadNfts(key);
+      await Promise.all([loadNfts(key), loadBridged(key)]);
     } catch (err: any) {
       setWalletErr(err?.message || "Wallet connection failed");
       setStatus("Connect wallet to continue.");
@@ -144,7 +175,9 @@ export default function BridgePage() {
       if (!res.ok) throw new Error(data?.error || "Failed to load NFTs");
       const items = (data?.items || []) as DasAsset[];
       setNfts(items);
-      if (!selected && items[0]) setSelected(items[0]);
+      setNftCursor(data?.nextCursor ?? null);
+      const first = items.find((item) => item.eligible !== false);
+      if (!selected && first) setSelected(first);
       setStatus(items.length ? "Pick an NFT and run the bridge." : "No NFTs found in this wallet.");
     } catch (err: any) {
       setStatus(err?.message || "Failed to load NFTs.");
@@ -153,76 +186,141 @@ export default function BridgePage() {
     }
   }
 
+  async function loadMoreNfts() {
+    if (!wallet || !nftCursor || loadingMore) return;
+    const owner = wallet;
+    setLoadingMore(true);
+    try {
+      const res = await fetch(`/api/bridge/nfts?owner=${owner}&cursor=${encodeURIComponent(nftCursor)}`, {
+        cache: "no-store",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Failed to load more NFTs");
+      if (walletRef.current !== owner) return;
+      const items = (data?.items || []) as DasAsset[];
+      setNfts((prev) => [...prev, ...items.filter((item) => !prev.some((p) => p.id === item.id))]);
+      setNftCursor(data?.nextCursor ?? null);
+    } catch (err: any) {
+      // Dropping the cursor stops the sentinel; "Load Wallet NFTs" starts over.
+      setNftCursor(null);
+      setStatus(err?.message || "Failed to load more NFTs.");
+    } finally {
+      setLoadingMore(false);
+    }
+  }
+
+  useEffect(() => {
+    const sentinel = nftSentinelRef.current;
+    if (!sentinel || !nftCursor || loadingMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMoreNfts();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallet, nftCursor, loadingMore]);
+
+  async function loadBridged(owner = wallet) {
+    if (!owner || !BRIDGE_ENABLED) return;
+    try {
+      setBridged(await fetchBridgedItems(owner));
+    } catch {
+      // keep the last list; the next bridge run or unlock refreshes it
+    }
+  }
+
+  async function runUnlock(item: BridgedItem) {
+    if (!wallet || unlocking || isRunning) return;
+    setUnlocking(item.escrowSignature);
+    try {
+      const provider = getProvider();
+      if (!provider) throw new Error("Wallet provider not found.");
+      setStatus("Preparing unlock...");
+      await unlockBridgedItem({
+        connection,
+        provider,
+        owner: wallet,
+        escrowSignature: item.escrowSignature,
+        onStage: (stage) => {
+          if (stage === "burning") setStatus("Approve burning the bridged remix in wallet...");
+          if (stage === "releasing") setStatus("Remix burned. Releasing the original on Solana...");
+        },
+      });
+      setStatus("Original returned to your Solana wallet.");
+      await Promise.all([loadNfts(wallet), loadBridged(wallet)]);
+    } catch (err: any) {
+      setStatus(err?.message || "Unlock failed.");
+      await loadBridged(wallet);
+    } finally {
+      setUnlocking(null);
+    }
+  }
+
   async function runBridge() {
     if (!wallet) return setStatus("Connect wallet first.");
     if (!selected) return setStatus("Select an NFT first.");
+    if (selected.eligible === false) return setStatus(selected.ineligibleReason || "This NFT cannot be bridged.");
     if (isRunning) return;
 
     setIsRunning(true);
+    setRail({ stage: "locking", status: "active", note: "" });
+    let stopWatching = () => {};
+    let escrow = lock?.sourceMint === selected.id ? lock : null;
     try {
-      setStatus("Preparing payment...");
-      const quoteRes = await fetch("/api/run", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ machine }),
-      });
-      const quote = await quoteRes.json();
-      if (!quoteRes.ok || !quote?.ok) throw new Error(quote?.error || "Failed to create payment.");
-
       const provider = getProvider();
       if (!provider) throw new Error("Wallet provider not found.");
-      const payer = new PublicKey(wallet);
-      const treasury = new PublicKey(quote.treasury);
-      const lamports = Number(quote.amountLamports);
-      const latest = await connection.getLatestBlockhash("processed");
-      const tx = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: payer,
-          toPubkey: treasury,
-          lamports,
-        })
-      );
-      tx.feePayer = payer;
-      tx.recentBlockhash = latest.blockhash;
-
-      setStatus("Approve payment in wallet...");
-      let signature = "";
-      if (typeof provider.signAndSendTransaction === "function") {
-        const res = await provider.signAndSendTransaction(tx);
-        signature = res?.signature || res;
-      } else if (typeof provider.signTransaction === "function") {
-        const signed = await provider.signTransaction(tx);
-        signature = await connection.sendRawTransaction(signed.serialize(), {
-          skipPreflight: true,
-          maxRetries: 8,
-          preflightCommitment: "processed",
-        });
-      } else {
-        throw new Error("Wallet does not support Solana transactions.");
+      if (!escrow) {
+        setStatus("Approve the escrow lock in wallet...");
+        escrow = await lockInEscrow({ connection: solanaConnection, provider, owner: wallet, sourceMint: selected.id });
+        setLock(escrow);
       }
+      setRail({ stage: "locking", status: "active", note: "Locked. Paying for the remix..." });
+      stopWatching = watchBridgeOp(escrow.opId, (op) => {
+        if (op.jobId) setRail(railFromOp(op));
+      });
+
+      const { signature, quote } = await payWithServerTransaction({
+        connection,
+        provider,
+        request: { machine, payer: wallet, originalMint: selected.id, sourceChain: "solana" },
+        onStage: (stage) => {
+          if (stage === "quoting") setStatus("Preparing payment...");
+          if (stage === "approving") setStatus("Approve payment in wallet...");
+          if (stage === "expired") setStatus("Transaction expired. Approve the new payment...");
+        },
+      });
 
       setStatus("Payment sent. Finalizing mint...");
-      const verifyRes = await fetch("/api/verify", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          signature,
-          payer: wallet,
-          machine,
-          tier: tierForMachine[machine],
-          originalMint: selected.id,
-          imageUrl: pickImage(selected),
-          name: pickName(selected),
-        }),
+      const submitted = await submitMintJob({
+        signature,
+        payer: wallet,
+        machine,
+        tier: machineData.previewTier,
+        originalMint: selected.id,
+        quoteToken: quote.quoteToken,
+        imageUrl: pickImage(selected),
+        name: pickName(selected),
+        bridge: { sourceChain: "solana", escrowSignature: escrow.escrowSignature, opId: escrow.opId },
       });
-      const verify = await verifyRes.json();
-      if (!verifyRes.ok || !verify?.ok) throw new Error(verify?.error || "Verification failed");
+      await waitForMintJob(submitted.id, (job) => setStatus(mintJobLabel(job)));
+      setLock(null);
 
+      setRail({ stage: "complete", status: "complete", note: "" });
       setStatus("Bridge mint complete.");
-      await loadNfts(wallet);
+      await Promise.all([loadNfts(wallet), loadBridged(wallet)]);
     } catch (err: any) {
-      setStatus(err?.message || "Bridge run failed.");
+      const message = err?.message || "Bridge run failed.";
+      setStatus(message);
+      const retryNote = escrow
+        ? `${message} Your NFT is locked; run the bridge again to skip the lock, or return it from My bridged items.`
+        : message;
+      setRail((current) => (current.status === "failed" ? current : { ...current, status: "failed", note: retryNote }));
+      if (escrow) await loadBridged(wallet);
     } finally {
+      stopWatching();
       setIsRunning(false);
     }
   }
@@ -257,6 +355,8 @@ export default function BridgePage() {
                 ? () => {
                     setWallet("");
                     setNfts([]);
+                    setNftCursor(null);
+                    setBridged([]);
                     setSelected(null);
                     setStatus("Connect wallet to start bridge.");
                   }
@@ -289,12 +389,21 @@ export default function BridgePage() {
         <div className="bridge-rail">
           <div className="bridge-rail-title">Bridge Status</div>
           <div className="bridge-nodes">
-            <span className="node active">Idle</span>
-            <span className="node">Locking</span>
-            <span className="node">Verifying</span>
-            <span className="node">Minting</span>
-            <span className="node">Complete</span>
+            {RAIL_STAGES.map((node, index) => {
+              const current = RAIL_STAGES.findIndex((stage) => stage.id === rail.stage);
+              let state = "";
+              if (index < current || (index === current && rail.status === "complete")) state = "done";
+              else if (index === current) {
+                state = rail.status === "failed" ? "error" : rail.status === "retrying" ? "retry" : "active";
+              }
+              return (
+                <span key={node.id} className={`node ${state}`}>
+                  {node.label}
+                </span>
+              );
+            })}
           </div>
+          {rail.note ? <div className={`bridge-rail-note ${rail.status}`}>{rail.note}</div> : null}
           <div className="bridge-flag">
             Feature flag:{" "}
             <strong>{BRIDGE_ENABLED ? "Enabled (internal testing)" : "Disabled (coming soon)"}</strong>
@@ -308,14 +417,23 @@ export default function BridgePage() {
               {nfts.map((item) => (
                 <button
                   key={item.id}
-                  className={`bridge-nft-tile ${selected?.id === item.id ? "active" : ""}`}
+                  className={`bridge-nft-tile ${selected?.id === item.id ? "active" : ""} ${
+                    item.eligible === false ? "blocked" : ""
+                  }`}
                   onClick={() => setSelected(item)}
+                  title={item.ineligibleReason}
                 >
                   <img src={pickImage(item)} alt={pickName(item)} />
                   <span>{pickName(item)}</span>
+                  {item.eligible === false ? <em>{item.ineligibleReason || "Cannot be bridged"}</em> : null}
                 </button>
               ))}
             </div>
+            {nftCursor ? (
+              <div className="bridge-nft-more" ref={nftSentinelRef}>
+                {loadingMore ? "Loading more..." : ""}
+              </div>
+            ) : null}
             {!nfts.length ? <div className="muted">No NFTs loaded yet.</div> : null}
           </div>
           <div className="panel">
@@ -326,7 +444,7 @@ export default function BridgePage() {
                 Effect: {effectName} <em>+ 3 traits</em>
               </span>
             </div>
-            <div className={`panel-box bridge-preview ${machine.toLowerCase()}`}>
+            <div className={`panel-box bridge-preview ${machineData.theme}`}>
               <img src={pickImage(selected)} alt={pickName(selected)} />
               <div className="preview-grime" />
               <div className="preview-vignette" />
@@ -336,16 +454,54 @@ export default function BridgePage() {
           </div>
         </div>
 
+        {wallet && BRIDGE_ENABLED ? (
+          <div className="panel bridge-items">
+            <div className="panel-title">My bridged items</div>
+            {bridged.length ? (
+              <div className="bridge-item-list">
+                {bridged.map((item) => (
+                  <div key={item.escrowSignature} className="bridge-item">
+                    <div className="bridge-item-mints">
+                      <span>Original: {item.sourceMint.slice(0, 4)}...{item.sourceMint.slice(-4)}</span>
+                      <span>
+                        Remix: {item.destMint ? `${item.destMint.slice(0, 4)}...${item.destMint.slice(-4)}` : "none"}
+                      </span>
+                    </div>
+                    <span className={`bridge-item-status ${item.status}`}>{BRIDGE_STATUS_LABELS[item.status]}</span>
+                    {item.status !== "unlocked" ? (
+                      <button
+                        className="btn btn-ghost"
+                        disabled={!!unlocking || isRunning}
+                        onClick={() => runUnlock(item)}
+                      >
+                        {unlocking === item.escrowSignature
+                          ? "Unlocking..."
+                          : item.status === "unlocking"
+                            ? "Retry Release"
+                            : item.status === "locked-unminted"
+                              ? "Return Original"
+                              : "Burn & Unlock"}
+                      </button>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="muted">Nothing bridged from this wallet yet.</div>
+            )}
+          </div>
+        ) : null}
+
         <section className="bridge-machine">
           <div className="bridge-machine-head">
             <div className="bridge-machine-title">Pick your remix machine</div>
             <div className="bridge-machine-sub">Tap a bay to preview its strongest effects</div>
           </div>
           <div className="bridge-machine-grid">
-            {MACHINE_OPTIONS.map((m) => (
+            {MACHINES.map((m) => (
               <button
                 key={m.id}
-                className={`machine-tile ${machine === m.id ? "active" : ""} ${m.id.toLowerCase()}`}
+                className={`machine-tile ${machine === m.id ? "active" : ""} ${m.theme}`}
                 onClick={() => setMachine(m.id)}
               >
                 <div className="machine-pull">{m.pull}</div>
@@ -357,8 +513,8 @@ export default function BridgePage() {
                   </div>
                 </div>
                 <div className="machine-bottom">
-                  <span>{m.cost} $GOR</span>
-                  <span>ODDS {m.odds}</span>
+                  <span>{costLabel(m.id)}</span>
+                  <span>ODDS {oddsLabel(m).replace(/ /g, "")}</span>
                 </div>
               </button>
             ))}
@@ -552,6 +708,28 @@ export default function BridgePage() {
           color: rgba(220, 255, 240, 0.96);
           opacity: 1;
         }
+        .node.done {
+          border-color: rgba(0, 255, 160, 0.3);
+          opacity: 0.9;
+        }
+        .node.retry {
+          border-color: rgba(255, 200, 0, 0.55);
+          background: rgba(255, 200, 0, 0.14);
+          opacity: 1;
+        }
+        .node.error {
+          border-color: rgba(255, 80, 80, 0.6);
+          background: rgba(255, 80, 80, 0.16);
+          opacity: 1;
+        }
+        .bridge-rail-note {
+          font-size: 13px;
+          margin-bottom: 8px;
+          opacity: 0.9;
+        }
+        .bridge-rail-note.failed {
+          color: rgba(255, 170, 170, 0.95);
+        }
         .bridge-flag {
           font-size: 13px;
           opacity: 0.85;
@@ -592,11 +770,59 @@ export default function BridgePage() {
           opacity: 0.7;
           font-size: 13px;
         }
+        .bridge-items {
+          margin-bottom: 18px;
+        }
+        .bridge-item-list {
+          display: grid;
+          gap: 8px;
+        }
+        .bridge-item {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 8px 10px;
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 10px;
+          background: rgba(0, 0, 0, 0.18);
+        }
+        .bridge-item-mints {
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+          flex: 1;
+          font-size: 13px;
+        }
+        .bridge-item-status {
+          border-radius: 999px;
+          padding: 4px 10px;
+          font-size: 12px;
+          border: 1px solid rgba(255, 255, 255, 0.14);
+        }
+        .bridge-item-status.locked {
+          border-color: rgba(0, 255, 160, 0.5);
+          background: rgba(0, 255, 160, 0.12);
+        }
+        .bridge-item-status.locked-unminted,
+        .bridge-item-status.unlocking {
+          border-color: rgba(255, 200, 0, 0.5);
+          background: rgba(255, 200, 0, 0.12);
+        }
+        .bridge-item-status.unlocked {
+          opacity: 0.7;
+        }
         .bridge-nft-grid {
           display: grid;
           grid-template-columns: repeat(3, minmax(0, 1fr));
           gap: 8px;
         }
+        .bridge-nft-more {
+          min-height: 24px;
+          margin-top: 8px;
+          text-align: center;
+          font-size: 12px;
+          opacity: 0.7;
+        }
         .bridge-nft-tile {
           background: rgba(255, 255, 255, 0.03);
           border: 1px solid rgba(255, 255, 255, 0.12);
@@ -610,6 +836,16 @@ export default function BridgePage() {
           border-color: rgba(0, 255, 170, 0.5);
           box-shadow: 0 0 0 1px rgba(0, 255, 170, 0.2) inset;
         }
+        .bridge-nft-tile.blocked {
+          opacity: 0.55;
+        }
+        .bridge-nft-tile em {
+          display: block;
+          margin-top: 2px;
+          font-size: 11px;
+          font-style: normal;
+          color: rgba(255, 200, 0, 0.85);
+        }
         .bridge-nft-tile img {
           width: 100%;
           aspect-ratio: 1 / 1;
@@ -930,6 +1166,9 @@ export default function BridgePage() {
             flex-direction: column;
             gap: 4px;
           }
+          .bridge-item {
+            flex-wrap: wrap;
+          }
         }
       `}</style>
     </main>
@@ -1,25 +1,24 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { getMachine, type MachineId } from "../_lib/machineCatalog";
+import { TIERS as TIER_INFO, TIER_IDS, type TierId } from "../_lib/tiers";
 
-export type Machine = "CONVEYOR" | "COMPACTOR" | "HAZMAT";
-export type TierId = "tier1" | "tier2" | "tier3" | "tier4" | "tier5";
+export type Machine = MachineId;
+export type { TierId };
 
 type TierEffect = { label: string; on: string[] };
 
 type TierDef = {
   id: TierId;
-  name: string;
-  meta: string;
   cycleMs: number;
   effects: TierEffect[];
 };
 
-const TIERS: TierDef[] = [
+// Names and labels come from app/_lib/tiers; this adds the preview animation.
+const TIER_FX: TierDef[] = [
   {
     id: "tier1",
-    name: "Scrap",
-    meta: "ENTRY",
     cycleMs: 1200,
     effects: [
       { label: "Scanlines", on: ["scanlines"] },
@@ -29,8 +28,6 @@ const TIERS: TierDef[] = [
   },
   {
     id: "tier2",
-    name: "Steel",
-    meta: "+",
     cycleMs: 1050,
     effects: [
       { label: "Glow + Beam", on: ["scanlines", "glow", "scanbeam"] },
@@ -40,8 +37,6 @@ const TIERS: TierDef[] = [
   },
   {
     id: "tier3",
-    name: "Chrome",
-    meta: "PREMIUM",
     cycleMs: 950,
     effects: [
       { label: "Particles", on: ["scanlines", "particles"] },
@@ -51,8 +46,6 @@ const TIERS: TierDef[] = [
   },
   {
     id: "tier4",
-    name: "Obsidian",
-    meta: "ELITE",
     cycleMs: 850,
     effects: [
       { label: "Holo Shimmer", on: ["scanlines", "holo"] },
@@ -62,8 +55,6 @@ const TIERS: TierDef[] = [
   },
   {
     id: "tier5",
-    name: "Ascended",
-    meta: "TOP",
     cycleMs: 760,
     effects: [
       { label: "Gold Filigree", on: ["scanlines", "filigree", "glow"] },
@@ -85,33 +76,9 @@ function weightedPick<T>(items: Array<{ item: T; weight: number }>): T {
 }
 
 function rollTier(machine: Machine): TierId {
-  // machine == odds (tune anytime)
-  if (machine === "CONVEYOR") {
-    return weightedPick([
-      { item: "tier1", weight: 78 },
-      { item: "tier2", weight: 17 },
-      { item: "tier3", weight: 4 },
-      { item: "tier4", weight: 0.9 },
-      { item: "tier5", weight: 0.1 },
-    ]);
-  }
-  if (machine === "COMPACTOR") {
-    return weightedPick([
-      { item: "tier1", weight: 55 },
-      { item: "tier2", weight: 28 },
-      { item: "tier3", weight: 12 },
-      { item: "tier4", weight: 4.5 },
-      { item: "tier5", weight: 0.5 },
-    ]);
-  }
-  // HAZMAT
-  return weightedPick([
-    { item: "tier1", weight: 35 },
-    { item: "tier2", weight: 30 },
-    { item: "tier3", weight: 20 },
-    { item: "tier4", weight: 13 },
-    { item: "tier5", weight: 2 },
-  ]);
+  // Preview only; real rolls happen server-side with the same catalog odds.
+  const { odds } = getMachine(machine);
+  return weightedPick(TIER_IDS.map((tier) => ({ item: tier, weight: odds[tier] })));
 }
 
 export type FactoryTierPreviewProps = {
@@ -149,10 +116,11 @@ export default function FactoryTierPreview({
     if (rolledTier) setActiveTierId(rolledTier);
   }, [rolledTier]);
 
-  const activeTier = useMemo(
-    () => TIERS.find((t) => t.id === activeTierId) ?? TIERS[0],
-    [activeTierId]
-  );
+  const activeTier = useMemo(() => {
+    const fx = TIER_FX.find((t) => t.id === activeTierId) ?? TIER_FX[0];
+    const info = TIER_INFO.find((t) => t.id === fx.id)!;
+    return { ...fx, name: info.name, meta: info.meta };
+  }, [activeTierId]);
 
   const [cycleIndex, setCycleIndex] = useState(0);
   const [effectLabel, setEffectLabel] = useState(activeTier.effects[0]?.label ?? "—");
@@ -196,7 +164,7 @@ export default function FactoryTierPreview({
     if (isRolling) return;
     setIsRolling(true);
 
-    const spinOrder: TierId[] = ["tier1", "tier2", "tier3", "tier4", "tier5"];
+    const spinOrder = TIER_IDS;
     let i = 0;
     const spinMs = 65;
     const spinFor = 900;
@@ -1,11 +1,25 @@
 'use client';
 
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { Connection, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { Connection, PublicKey } from '@solana/web3.js';
 import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
-
-type Machine = 'CONVEYOR' | 'COMPACTOR' | 'HAZMAT';
-type TierId = 'tier1' | 'tier2' | 'tier3';
+import { REMIX_SIZE, TRASH_ITEM_SOURCES, drawRemix } from './_lib/remixArt';
+import { mintJobLabel, submitMintJob, waitForMintJob } from './_lib/mintJobClient';
+import { tokenAccountFor } from './_lib/paymentLegs';
+import { payWithServerTransaction, type PaymentQuote } from './_lib/paymentClient';
+import { pickRpcUrl } from './_lib/rpcEndpoints';
+import { verifyRoll, type RollVerification } from './_lib/fairnessClient';
+import {
+  DEFAULT_MACHINE_ID,
+  EFFECT_POOLS,
+  MACHINES,
+  getMachine,
+  intensityLabel,
+  oddsLabel,
+  type MachineId,
+  type MachineTheme,
+} from './_lib/machineCatalog';
+import { TIERS, tierRank, type TierId } from './_lib/tiers';
 
 type DasAsset = {
   id: string;
@@ -14,263 +28,85 @@ type DasAsset = {
     links?: { image?: string };
     files?: Array<{ uri?: string; mime?: string }>;
   };
+  /** Set by /api/nfts when source collections are restricted. */
+  eligible?: boolean;
+  ineligibleReason?: string;
 };
 
-type SupplyState = {
-  tier1: { cap: number; minted: number; remaining: number };
-  tier2: { cap: number; minted: number; remaining: number };
-  tier3: { cap: number; minted: number; remaining: number };
+type TierSupply = { cap: number; minted: number; remaining: number };
+
+type SupplyState = Record<TierId, TierSupply> & {
   totalCap: number;
   totalMinted: number;
 };
 
-function pickRpcUrl(...candidates: Array<string | undefined>) {
-  for (const value of candidates) {
-    const v = (value || '').trim();
-    if (!v) continue;
-    if (v.includes('rpc.trashscan.io')) continue;
-    return v;
-  }
-  return 'https://rpc.gorbagana.wtf/';
-}
+const SUPPLY_FILL_CLASSES: Record<TierId, string> = {
+  tier1: 'gf-supplyFillCommon',
+  tier2: 'gf-supplyFillRare',
+  tier3: 'gf-supplyFillMythic',
+  tier4: 'gf-supplyFillObsidian',
+  tier5: 'gf-supplyFillAscended',
+};
 
 const RPC = pickRpcUrl(
   process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL,
   process.env.NEXT_PUBLIC_RPC_URL
 );
 
-// Prices shown in UI (optional)
-const PRICE_CONVEYOR_RAW = process.env.NEXT_PUBLIC_PRICE_CONVEYOR || '3000';
-const PRICE: Record<Machine, number> = {
-  CONVEYOR: Number(PRICE_CONVEYOR_RAW),
-  COMPACTOR: Number(process.env.NEXT_PUBLIC_PRICE_COMPACTOR || '4250'),
-  HAZMAT: Number(process.env.NEXT_PUBLIC_PRICE_HAZMAT || '5000'),
-};
-
 const COLLECTION_MINT =
   process.env.NEXT_PUBLIC_TRASHTECH_COLLECTION_MINT ||
   process.env.NEXT_PUBLIC_COLLECTION_MINT ||
   '';
 const BRIDGE_ENABLED = (process.env.NEXT_PUBLIC_BRIDGE_ENABLED || 'false').toLowerCase() === 'true';
 
-const priceLabel = (machine: Machine) => {
-  const value = PRICE[machine];
-  if (!Number.isFinite(value) || value <= 0) return 'Mint cost';
-  return `${value} $GOR`;
+// Card styling per machine theme; the classes live in the styles below.
+type ThemeClasses = { card: string; preview: string; effect: string; badge: string; meter: string; odds: string };
+
+const THEME_CLASSES: Record<MachineTheme, ThemeClasses> = {
+  conveyor: {
+    card: 'gf-tierConveyor',
+    preview: 'gf-tierPreviewConveyor',
+    effect: 'gf-effectConveyor',
+    badge: '',
+    meter: '',
+    odds: '',
+  },
+  compactor: {
+    card: 'gf-tierCompactor',
+    preview: 'gf-tierPreviewCompactor',
+    effect: 'gf-effectCompactor',
+    badge: 'gf-tierBadgeRare',
+    meter: 'gf-tierMeterMid',
+    odds: 'gf-tierOddsBarRare',
+  },
+  hazmat: {
+    card: 'gf-tierHazmat',
+    preview: 'gf-tierPreviewHazmat',
+    effect: 'gf-effectHazmat',
+    badge: 'gf-tierBadgeMythic',
+    meter: 'gf-tierMeterHigh',
+    odds: 'gf-tierOddsBarMythic',
+  },
+};
+
+// Prices come from /api/machines (which applies server overrides); the catalog default
+// is shown until that loads, and null means the machine charges the last mint cost.
+// Token prices are listed after the $GOR price for machines that also take SPL tokens.
+const priceLabel = (
+  machine: MachineId,
+  prices: Record<MachineId, number | null>,
+  tokenPrices: Record<MachineId, Record<string, string>>
+) => {
+  const value = machine in prices ? prices[machine] : getMachine(machine).priceGor;
+  const native = value == null || !Number.isFinite(value) || value <= 0 ? 'Mint cost' : `${value} $GOR`;
+  const tokens = Object.entries(tokenPrices[machine] || {}).map(([symbol, amount]) => `${amount} ${symbol}`);
+  return [native, ...tokens].join(' · ');
 };
 
 function cx(...parts: Array<string | false | null | undefined>) {
   return parts.filter(Boolean).join(' ');
 }
 
-function hash32(input: string) {
-  let h = 2166136261;
-  for (let i = 0; i < input.length; i++) {
-    h ^= input.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-function seededRng(seed: number) {
-  let t = seed >>> 0;
-  return () => {
-    t += 0x6d2b79f5;
-    let r = Math.imul(t ^ (t >>> 15), 1 | t);
-    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
-    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function drawHazard(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string) {
-  ctx.save();
-  ctx.translate(x, y);
-  ctx.strokeStyle = color;
-  ctx.lineWidth = Math.max(2, size * 0.08);
-  ctx.beginPath();
-  ctx.arc(0, 0, size * 0.46, 0, Math.PI * 2);
-  ctx.stroke();
-  ctx.beginPath();
-  ctx.moveTo(0, -size * 0.38);
-  ctx.lineTo(size * 0.33, size * 0.2);
-  ctx.lineTo(-size * 0.33, size * 0.2);
-  ctx.closePath();
-  ctx.stroke();
-  ctx.beginPath();
-  ctx.arc(0, 0, size * 0.08, 0, Math.PI * 2);
-  ctx.stroke();
-  ctx.restore();
-}
-
-function drawTrashBag(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, stroke: string, fill: string) {
-  ctx.save();
-  ctx.translate(x, y);
-  ctx.fillStyle = fill;
-  ctx.strokeStyle = stroke;
-  ctx.lineWidth = Math.max(2, w * 0.04);
-  ctx.beginPath();
-  ctx.moveTo(-w * 0.18, -h * 0.38);
-  ctx.quadraticCurveTo(0, -h * 0.5, w * 0.18, -h * 0.38);
-  ctx.quadraticCurveTo(w * 0.36, -h * 0.18, w * 0.32, h * 0.15);
-  ctx.quadraticCurveTo(w * 0.28, h * 0.45, 0, h * 0.5);
-  ctx.quadraticCurveTo(-w * 0.28, h * 0.45, -w * 0.32, h * 0.15);
-  ctx.quadraticCurveTo(-w * 0.36, -h * 0.18, -w * 0.18, -h * 0.38);
-  ctx.closePath();
-  ctx.fill();
-  ctx.stroke();
-  ctx.restore();
-}
-
-function drawGraffiti(ctx: CanvasRenderingContext2D, rng: () => number, w: number, h: number) {
-  ctx.save();
-  ctx.globalAlpha = 0.7;
-  ctx.lineWidth = 6;
-  ctx.strokeStyle = 'rgba(255,120,180,0.75)';
-  ctx.beginPath();
-  ctx.moveTo(w * 0.1, h * 0.8);
-  ctx.bezierCurveTo(w * 0.3, h * 0.6, w * 0.6, h * 0.6, w * 0.9, h * 0.5);
-  ctx.stroke();
-  ctx.strokeStyle = 'rgba(0,255,200,0.65)';
-  ctx.beginPath();
-  ctx.moveTo(w * 0.15, h * 0.9);
-  ctx.bezierCurveTo(w * 0.4, h * 0.75, w * 0.7, h * 0.75, w * 0.88, h * 0.7);
-  ctx.stroke();
-  ctx.restore();
-}
-
-function drawCautionTape(ctx: CanvasRenderingContext2D, w: number, h: number, opacity: number) {
-  ctx.save();
-  ctx.globalAlpha = opacity;
-  ctx.translate(w * 0.05, h * 0.15);
-  ctx.rotate(-0.2);
-  const tapeHeight = h * 0.08;
-  const tapeWidth = w * 1.1;
-  ctx.fillStyle = 'rgba(20,20,20,0.35)';
-  ctx.fillRect(-w * 0.1, 0, tapeWidth, tapeHeight);
-  ctx.fillStyle = 'rgba(255,220,80,0.6)';
-  for (let x = -w * 0.1; x < tapeWidth; x += tapeHeight) {
-    ctx.fillRect(x, 0, tapeHeight * 0.6, tapeHeight);
-  }
-  ctx.restore();
-}
-
-function drawTrashyOverlays(
-  ctx: CanvasRenderingContext2D,
-  tier: TierId,
-  primary: string,
-  seed: string
-) {
-  const rng = seededRng(hash32(seed));
-  const w = ctx.canvas.width;
-  const h = ctx.canvas.height;
-  const strength = tier === 'tier3' ? 1 : tier === 'tier2' ? 0.7 : 0.45;
-  const pool = TRASH_ITEM_POOLS[tier] || [];
-
-  // Burned edges
-  ctx.save();
-  ctx.globalCompositeOperation = 'multiply';
-  const burn = ctx.createRadialGradient(w * 0.5, h * 0.5, w * 0.3, w * 0.5, h * 0.5, w * 0.8);
-  burn.addColorStop(0, 'rgba(0,0,0,0)');
-  burn.addColorStop(1, `rgba(20,10,5,${0.55 * strength})`);
-  ctx.fillStyle = burn;
-  ctx.fillRect(0, 0, w, h);
-  ctx.restore();
-
-  // Color wash background (stronger on higher tiers)
-  ctx.save();
-  ctx.globalCompositeOperation = 'overlay';
-  ctx.globalAlpha = 0.25 + 0.35 * strength;
-  const wash = ctx.createLinearGradient(0, 0, w, h);
-  wash.addColorStop(0, 'rgba(0,255,200,0.35)');
-  wash.addColorStop(1, 'rgba(255,120,200,0.25)');
-  ctx.fillStyle = wash;
-  ctx.fillRect(0, 0, w, h);
-  ctx.restore();
-
-  // Dirt speckles
-  ctx.save();
-  ctx.globalCompositeOperation = 'multiply';
-  ctx.globalAlpha = 0.18 + 0.25 * strength;
-  const speckCount = Math.floor(60 + 140 * strength);
-  for (let i = 0; i < speckCount; i++) {
-    const x = rng() * w;
-    const y = rng() * h;
-    const r = 2 + rng() * 6;
-    ctx.fillStyle = 'rgba(30,25,20,0.5)';
-    ctx.beginPath();
-    ctx.arc(x, y, r, 0, Math.PI * 2);
-    ctx.fill();
-  }
-  ctx.restore();
-
-  // Primary-specific decals
-  ctx.save();
-  ctx.globalCompositeOperation = 'screen';
-  ctx.globalAlpha = 0.5 + 0.3 * strength;
-  if (primary.includes('Graffiti') || tier === 'tier3') {
-    drawGraffiti(ctx, rng, w, h);
-  }
-  if (
-    primary.includes('Biohazard') ||
-    primary.includes('Nuclear') ||
-    primary.includes('Toxic') ||
-    primary.includes('Quarantine') ||
-    tier !== 'tier1'
-  ) {
-    drawHazard(ctx, w * 0.78, h * 0.22, w * 0.2, 'rgba(255,220,120,0.9)');
-    drawHazard(ctx, w * 0.2, h * 0.75, w * 0.14, 'rgba(255,220,120,0.7)');
-  }
-  if (tier === 'tier3') {
-    drawGraffiti(ctx, rng, w, h);
-  }
-  ctx.restore();
-
-  // Physical trash overlays (premapped PNGs, edge-safe)
-  if (pool.length) {
-    const pickCount = tier === 'tier3' ? 2 : 1;
-    const picks: string[] = [];
-    const poolCopy = [...pool];
-    for (let i = 0; i < pickCount && poolCopy.length; i++) {
-      const idx = Math.floor(rng() * poolCopy.length);
-      picks.push(poolCopy.splice(idx, 1)[0]);
-    }
-    if (picks.includes('caution_tape')) {
-      picks.length = 1;
-      picks[0] = 'caution_tape';
-    }
-    let alpha = tier === 'tier3' ? 0.9 : tier === 'tier2' ? 0.75 : 0.6;
-    if (picks.length === 1 && picks[0] === 'caution_tape') {
-      alpha = 0.55;
-    }
-    ctx.save();
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.globalAlpha = alpha;
-    for (const name of picks) {
-      const img = getTrashImage(name);
-      if (img.complete) {
-        ctx.drawImage(img, 0, 0, w, h);
-      }
-    }
-    ctx.restore();
-  }
-}
-
-function getTierFilter(tier: TierId, primary: string) {
-  const p = primary.toLowerCase();
-  if (tier === 'tier3') {
-    if (p.includes('liquid metal')) return 'grayscale(0.6) contrast(1.85) brightness(1.08)';
-    if (p.includes('gamma') || p.includes('nuclear')) return 'invert(0.5) hue-rotate(170deg) saturate(2.6) contrast(1.8)';
-    if (p.includes('radiation') || p.includes('biohazard')) return 'hue-rotate(200deg) saturate(2.4) contrast(1.7) brightness(1.05)';
-    return 'invert(0.45) hue-rotate(160deg) saturate(2.4) contrast(1.75) brightness(1.08)';
-  }
-  if (tier === 'tier2') {
-    if (p.includes('toxic') || p.includes('leachate')) return 'hue-rotate(95deg) saturate(2) contrast(1.55) brightness(1.05)';
-    if (p.includes('grease') || p.includes('smog')) return 'hue-rotate(70deg) saturate(1.85) contrast(1.45)';
-    return 'hue-rotate(80deg) saturate(1.9) contrast(1.5) brightness(1.04)';
-  }
-  return 'saturate(1.25) contrast(1.12)';
-}
-
 function drawPreviewCanvas(
   canvas: HTMLCanvasElement,
   img: HTMLImageElement,
@@ -278,80 +114,12 @@ function drawPreviewCanvas(
   primary: string,
   seed: string
 ) {
-  const size = 1024;
-  canvas.width = size;
-  canvas.height = size;
+  canvas.width = REMIX_SIZE;
+  canvas.height = REMIX_SIZE;
   const ctx = canvas.getContext('2d');
   if (!ctx) return;
-  ctx.clearRect(0, 0, size, size);
-
-  const scale = Math.max(size / img.width, size / img.height);
-  const dw = img.width * scale;
-  const dh = img.height * scale;
-  const dx = (size - dw) / 2;
-  const dy = (size - dh) / 2;
-
-  // Base draw
-  ctx.drawImage(img, dx, dy, dw, dh);
-
-  // Strong color transform by tier
-  ctx.save();
-  ctx.filter = getTierFilter(tier, primary);
-  ctx.drawImage(img, dx, dy, dw, dh);
-  ctx.restore();
-
-  drawTrashyOverlays(ctx, tier, primary, seed);
+  drawRemix(ctx, img, tier, primary, seed, loadedTrashImage);
 }
-function rollTierLocal(machine: Machine, seed: string): TierId {
-  const n = (hash32(seed) % 10000) / 10000;
-  if (machine === 'CONVEYOR') {
-    if (n < 0.8) return 'tier1';
-    if (n < 0.98) return 'tier2';
-    return 'tier3';
-  }
-  if (machine === 'COMPACTOR') {
-    if (n < 0.65) return 'tier1';
-    if (n < 0.95) return 'tier2';
-    return 'tier3';
-  }
-  if (n < 0.45) return 'tier1';
-  if (n < 0.9) return 'tier2';
-  return 'tier3';
-}
-
-const PRIMARY_POOLS: Record<TierId, string[]> = {
-  tier1: ['Graffiti Tag', 'Rust Chrome', 'Oil Slick', 'Grime Wash', 'Dusty Circuit', 'Soot Fade'],
-  tier2: ['Toxic Slime Glow', 'Dumpster Drip', 'Smog Streaks', 'Mold Bloom', 'Leachate Sheen', 'Grease Halo'],
-  tier3: [
-    'Biohazard Aura',
-    'Radiation Veil',
-    'Acid Mist',
-    'Liquid Metal Mirror',
-    'Nuclear Afterglow',
-    'Gamma Bloom',
-    'Golden Dumpster (Mythic)',
-  ],
-};
-
-const TEXTURE_POOLS = ['Grime Film', 'Oil Vignette', 'Smog Haze', 'Mold Bloom', 'Leachate Drip', 'Soot Dust'];
-const GLOW_POOLS = ['Toxic Teal', 'Amber Rust', 'Magenta Spill', 'Lime Halo', 'Cold Cyan'];
-const EDGE_POOLS = ['Clean Edge', 'Pitted Edge', 'Burnt Edge', 'Stickered Edge'];
-
-const TRASH_ITEM_SOURCES: Record<string, string> = {
-  trash_bag: '/trash/trash_bag.png',
-  fishbone: '/trash/fishbone.png',
-  tire: '/trash/tire.png',
-  crushed_can: '/trash/crushed_can.png',
-  pizza_box: '/trash/pizza_box.png',
-  banana: '/trash/banana.png',
-  caution_tape: '/trash/caution_tape.png',
-};
-
-const TRASH_ITEM_POOLS: Record<TierId, string[]> = {
-  tier1: ['trash_bag', 'fishbone'],
-  tier2: ['tire', 'crushed_can', 'pizza_box'],
-  tier3: ['banana', 'caution_tape'],
-};
 
 const trashImageCache: Record<string, HTMLImageElement> = {};
 
@@ -364,6 +132,11 @@ function getTrashImage(name: string) {
   return trashImageCache[name];
 }
 
+function loadedTrashImage(name: string) {
+  const img = getTrashImage(name);
+  return img.complete ? img : null;
+}
+
 function getBackpackProvider() {
   const w = window as any;
   if (w?.backpack?.solana) return w.backpack.solana;
@@ -435,6 +208,10 @@ function isCollectionAsset(asset: DasAsset): boolean {
   return false;
 }
 
+function isRemixable(asset: DasAsset) {
+  return asset.eligible !== false;
+}
+
 function normalizeAssets(assets: DasAsset[]): DasAsset[] {
   const out: DasAsset[] = [];
   for (let i = 0; i < assets.length; i++) {
@@ -481,47 +258,47 @@ export default function Page() {
   const [isMinting, setIsMinting] = useState(false);
   const [supply, setSupply] = useState<SupplyState | null>(null);
   const [nfts, setNfts] = useState<DasAsset[]>([]);
+  // Cursor for the next /api/nfts page; null once the wallet is fully listed.
+  const [nftCursor, setNftCursor] = useState<string | null>(null);
+  const [loadingMoreNfts, setLoadingMoreNfts] = useState(false);
+  const [moreNftsFailed, setMoreNftsFailed] = useState(false);
+  const nftGridRef = useRef<HTMLDivElement | null>(null);
+  const nftSentinelRef = useRef<HTMLDivElement | null>(null);
   const [selected, setSelected] = useState<DasAsset | null>(null);
 
-  const [machine, setMachine] = useState<Machine>('CONVEYOR');
+  const [machine, setMachine] = useState<MachineId>(DEFAULT_MACHINE_ID);
+  const [prices, setPrices] = useState<Record<MachineId, number | null>>({});
+  const [tokenPrices, setTokenPrices] = useState<Record<MachineId, Record<string, string>>>({});
+  const [currency, setCurrency] = useState('GOR');
   const [status, setStatus] = useState<string>('Connect Backpack to load your NFTs.');
   const [effectCycle, setEffectCycle] = useState(0);
+  const [fairSig, setFairSig] = useState('');
+  const [fairBusy, setFairBusy] = useState(false);
+  const [fairError, setFairError] = useState('');
+  const [fairResult, setFairResult] = useState<RollVerification | null>(null);
 
   const selectedImage = useMemo(() => (selected ? pickImage(selected) : ''), [selected]);
-  const effectClass = useMemo(() => {
-    if (machine === 'HAZMAT') return 'gf-effectHazmat';
-    if (machine === 'COMPACTOR') return 'gf-effectCompactor';
-    return 'gf-effectConveyor';
-  }, [machine]);
+  const effectClass = useMemo(() => THEME_CLASSES[getMachine(machine).theme].effect, [machine]);
   const effectTraits = useMemo(() => {
-    const tierCycle =
-      machine === 'CONVEYOR'
-        ? (['tier1'] as TierId[])
-        : machine === 'COMPACTOR'
-          ? (['tier2'] as TierId[])
-          : (['tier3'] as TierId[]);
-    const tier = tierCycle[effectCycle % tierCycle.length];
-    const primaryPool = PRIMARY_POOLS[tier];
-    const primaryIndex = Math.floor(effectCycle / tierCycle.length) % primaryPool.length;
-    const primary = primaryPool[primaryIndex];
-    const texture = TEXTURE_POOLS[effectCycle % TEXTURE_POOLS.length];
-    const glow = GLOW_POOLS[effectCycle % GLOW_POOLS.length];
-    const edge = EDGE_POOLS[effectCycle % EDGE_POOLS.length];
+    const tier: TierId = getMachine(machine).previewTier;
+    const primaryPool = EFFECT_POOLS.primary[tier];
+    const primary = primaryPool[effectCycle % primaryPool.length];
+    const texture = EFFECT_POOLS.texture[effectCycle % EFFECT_POOLS.texture.length];
+    const glow = EFFECT_POOLS.glow[effectCycle % EFFECT_POOLS.glow.length];
+    const edge = EFFECT_POOLS.edge[effectCycle % EFFECT_POOLS.edge.length];
     return { tier, primary, texture, glow, edge };
   }, [machine, effectCycle]);
   const previewSeed = useMemo(() => {
     return `${selectedImage}|${effectTraits.tier}|${effectTraits.primary}|${effectCycle}`;
   }, [selectedImage, effectTraits.tier, effectTraits.primary, effectCycle]);
 
-  const tier1Supply = supply?.tier1 ?? { cap: 0, minted: 0, remaining: 0 };
-  const tier2Supply = supply?.tier2 ?? { cap: 0, minted: 0, remaining: 0 };
-  const tier3Supply = supply?.tier3 ?? { cap: 0, minted: 0, remaining: 0 };
-  const tier1Pct = tier1Supply.cap ? Math.max(0, Math.min(100, (tier1Supply.remaining / tier1Supply.cap) * 100)) : 0;
-  const tier2Pct = tier2Supply.cap ? Math.max(0, Math.min(100, (tier2Supply.remaining / tier2Supply.cap) * 100)) : 0;
-  const tier3Pct = tier3Supply.cap ? Math.max(0, Math.min(100, (tier3Supply.remaining / tier3Supply.cap) * 100)) : 0;
-  const tier1Sold = tier1Supply.cap > 0 && tier1Supply.remaining <= 0;
-  const tier2Sold = tier2Supply.cap > 0 && tier2Supply.remaining <= 0;
-  const tier3Sold = tier3Supply.cap > 0 && tier3Supply.remaining <= 0;
+  // Tiers capped at 0 are switched off; hide their meters once supply has loaded.
+  const supplyRows = TIERS.filter((t) => !supply || (supply[t.id]?.cap ?? 0) > 0).map((t) => {
+    const tierSupply = supply?.[t.id] ?? { cap: 0, minted: 0, remaining: 0 };
+    const pct = tierSupply.cap ? Math.max(0, Math.min(100, (tierSupply.remaining / tierSupply.cap) * 100)) : 0;
+    const sold = tierSupply.cap > 0 && tierSupply.remaining <= 0;
+    return { tier: t, supply: tierSupply, pct, sold };
+  });
 
   const statusInfo = useMemo(() => {
     const raw = status || '';
@@ -800,6 +577,8 @@ export default function Page() {
     } finally {
       setWallet('');
       setNfts([]);
+      setNftCursor(null);
+      setMoreNftsFailed(false);
       setSelected(null);
       setStatus('Disconnected.');
     }
@@ -821,9 +600,10 @@ export default function Page() {
     }
   }
 
+  // Only the first page is cached; scrolling fetches the rest.
   function writeCachedNfts(owner: string, assets: DasAsset[]) {
     try {
-      localStorage.setItem(cacheKey(owner), JSON.stringify(normalizeAssets(assets).slice(0, 50)));
+      localStorage.setItem(cacheKey(owner), JSON.stringify(normalizeAssets(assets)));
     } catch {
       // ignore
     }
@@ -840,11 +620,12 @@ export default function Page() {
     const hadNfts = nfts.length > 0;
     if (!hadNfts) setStatus(`Loading NFTs for ${owner.slice(0, 6)}…`);
     let cached: DasAsset[] = [];
+    let pageCursor: string | null = null;
     try {
       cached = readCachedNfts(owner).filter((a) => !isCollectionAsset(a));
       if (cached.length) {
         setNfts(cached);
-        if (!selected && cached[0]) setSelected(cached[0]);
+        if (!selected) setSelected(cached.find(isRemixable) ?? null);
       }
 
       const timeoutMs = 4500;
@@ -858,6 +639,7 @@ export default function Page() {
         })
         .then((data) => {
           const items: DasAsset[] = data?.items || [];
+          pageCursor = data?.nextCursor ?? null;
           return normalizeAssets(items);
         });
 
@@ -885,8 +667,10 @@ export default function Page() {
       if (first && first.length) {
         const filtered = first.filter((a) => !isCollectionAsset(a));
         setNfts(filtered);
+        setNftCursor(pageCursor);
+        setMoreNftsFailed(false);
         writeCachedNfts(owner, filtered);
-        if (!selected && filtered[0]) setSelected(filtered[0]);
+        if (!selected) setSelected(filtered.find(isRemixable) ?? null);
         if (filtered[0]) {
           setStatus('');
         } else {
@@ -904,8 +688,10 @@ export default function Page() {
       const filtered = unique.filter((a) => !isCollectionAsset(a));
       if (filtered.length) {
         setNfts(filtered);
+        setNftCursor(pageCursor);
+        setMoreNftsFailed(false);
         writeCachedNfts(owner, filtered);
-        if (!selected && filtered[0]) setSelected(filtered[0]);
+        if (!selected) setSelected(filtered.find(isRemixable) ?? null);
         if (filtered[0]) {
           setStatus('');
         } else {
@@ -932,6 +718,46 @@ export default function Page() {
     }
   }
 
+  const walletRef = useRef(wallet);
+  walletRef.current = wallet;
+
+  async function loadMoreNfts() {
+    const owner = wallet;
+    const cursor = nftCursor;
+    if (!owner || !cursor || loadingMoreNfts) return;
+    setLoadingMoreNfts(true);
+    setMoreNftsFailed(false);
+    try {
+      const res = await fetch(`/api/nfts?owner=${owner}&cursor=${encodeURIComponent(cursor)}`);
+      if (!res.ok) throw new Error('NFT API failed');
+      const data = await res.json();
+      if (walletRef.current !== owner) return;
+      const page = normalizeAssets((data?.items || []) as DasAsset[]).filter((a) => !isCollectionAsset(a));
+      setNfts((prev) => [...prev, ...page.filter((a) => !prev.some((p) => p.id === a.id))]);
+      setNftCursor(data?.nextCursor ?? null);
+    } catch {
+      // Keep the cursor and wait for a click, so a failing page is not refetched on every render.
+      setMoreNftsFailed(true);
+    } finally {
+      setLoadingMoreNfts(false);
+    }
+  }
+
+  useEffect(() => {
+    const root = nftGridRef.current;
+    const sentinel = nftSentinelRef.current;
+    if (!root || !sentinel || !nftCursor || loadingMoreNfts || moreNftsFailed) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMoreNfts();
+      },
+      { root, rootMargin: '120px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wallet, nftCursor, loadingMoreNfts, moreNftsFailed]);
+
   const autoRetryRef = useRef<{ owner: string; attempts: number; timer?: number } | null>(null);
 
   useEffect(() => {
@@ -994,176 +820,107 @@ export default function Page() {
     }
   }
 
+  async function loadMachines() {
+    try {
+      const res = await fetch('/api/machines', { cache: 'no-store' });
+      const data = await res.json();
+      if (res.ok && Array.isArray(data?.machines)) {
+        const list = data.machines as Array<{
+          id: MachineId;
+          priceGor: number | null;
+          tokenPrices?: Record<string, string>;
+        }>;
+        setPrices(Object.fromEntries(list.map((m) => [m.id, m.priceGor])));
+        setTokenPrices(Object.fromEntries(list.map((m) => [m.id, m.tokenPrices || {}])));
+      }
+    } catch {
+      // ignore
+    }
+  }
+
   useEffect(() => {
     loadSupply();
+    loadMachines();
   }, []);
 
+  const currencies = ['GOR', ...Object.keys(tokenPrices[machine] || {})];
+  useEffect(() => {
+    if (!currencies.includes(currency)) setCurrency('GOR');
+  }, [machine, tokenPrices]);
+
   async function payAndRunLine() {
     if (!wallet) return setStatus('Connect Backpack first.');
     if (!selected) return setStatus('Select an NFT first.');
+    if (!isRemixable(selected)) return setStatus(selected.ineligibleReason || 'This NFT cannot be remixed.');
     if (isMinting) return setStatus('Already processing a mint. Please wait.');
 
     setIsMinting(true);
     try {
-      setStatus('Preparing payment quote...');
-      const quoteRes = await fetch('/api/run', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ machine }),
-      });
-      const quote = await quoteRes.json();
-      if (!quoteRes.ok || !quote?.ok) {
-        throw new Error(quote?.error || 'Failed to create payment quote.');
-      }
-
       const provider = getBackpackProvider();
       const payer = new PublicKey(wallet);
-      const treasury = new PublicKey(quote.treasury);
-      const lamports = Number(quote.amountLamports);
-      if (!Number.isFinite(lamports) || lamports <= 0) throw new Error('Invalid payment amount.');
-
-      const sendWithRetry = async () => {
-        const maxAttempts = 4;
-        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-          try {
-            let sig = '';
-            const latest = await connection.getLatestBlockhash('processed');
-            const tx = new Transaction().add(
-              SystemProgram.transfer({
-                fromPubkey: payer,
-                toPubkey: treasury,
-                lamports,
-              })
-            );
-            tx.feePayer = payer;
-            tx.recentBlockhash = latest.blockhash;
-
-            const supportsSign = typeof provider?.signTransaction === 'function';
-            const supportsSignAndSend = typeof provider?.signAndSendTransaction === 'function';
-            if (!supportsSign && !supportsSignAndSend) throw new Error('Wallet does not support transaction signing.');
-
-            const feeInfo = await connection.getFeeForMessage(tx.compileMessage(), 'confirmed');
-            const feeLamports = feeInfo?.value ?? 0;
-            const balance = await connection.getBalance(payer, 'confirmed');
-            if (balance < lamports + feeLamports) {
-              const short = lamports + feeLamports - balance;
-              const shortGor = short / 1_000_000_000;
-              throw new Error(`Insufficient $GOR. Add at least ${shortGor.toFixed(6)} $GOR for fees.`);
-            }
-            const withTimeout = async <T,>(promise: Promise<T>, ms: number, message: string) => {
-              let timer: number | undefined;
-              const timeout = new Promise<T>((_, reject) => {
-                timer = window.setTimeout(() => reject(new Error(message)), ms);
-              });
-              try {
-                return await Promise.race([promise, timeout]);
-              } finally {
-                if (timer) window.clearTimeout(timer);
-              }
-            };
-
-            setStatus(`Approve payment in Backpack now… (${attempt}/${maxAttempts})`);
-            if (supportsSignAndSend) {
-              const res = await withTimeout(
-                provider.signAndSendTransaction(tx),
-                15000,
-                'Wallet did not respond. Please approve again.'
-              );
-              sig = (res as any)?.signature || (res as any);
-            } else if (supportsSign) {
-              try {
-                const signed = await withTimeout(
-                  provider.signTransaction(tx),
-                  15000,
-                  'Wallet did not respond. Please approve again.'
-                );
-                sig = await connection.sendRawTransaction((signed as Transaction).serialize(), {
-                  skipPreflight: true,
-                  maxRetries: 12,
-                  preflightCommitment: 'processed',
-                });
-              } catch (err: any) {
-                const msg = String(err?.message || err || '').toLowerCase();
-                if (!supportsSignAndSend || msg.includes('rejected')) throw err;
-                const res = await withTimeout(
-                  provider.signAndSendTransaction(tx),
-                  15000,
-                  'Wallet did not respond. Please approve again.'
-                );
-                sig = (res as any)?.signature || (res as any);
-              }
-            }
+      const priceNote = (quote: PaymentQuote) => {
+        const unit = quote.token ? quote.token.symbol : '$GOR';
+        const rules = Array.isArray(quote.rules) ? quote.rules : [];
+        if (!rules.length) return '';
+        return ` ${quote.amount} ${unit} (${rules
+          .map((r) => `${r.label} ${r.percent < 0 ? '−' : '+'}${Math.abs(r.percent)}%`)
+          .join(', ')})`;
+      };
 
-            setStatus('Payment sent. Verifying on-chain...');
-            return sig;
-          } catch (err: any) {
-            const msg = String(err?.message || err || '').toLowerCase();
-            if (msg.includes('rejected') || msg.includes('closed')) {
-              throw err;
-            }
-            if (msg.includes('block height exceeded') || msg.includes('blockhash not found') || msg.includes('expired')) {
-              setStatus('Transaction expired. Please approve again...');
-              continue;
+      const { signature, quote } = await payWithServerTransaction({
+        connection,
+        provider,
+        request: { machine, payer: wallet, originalMint: selected.id, currency },
+        onStage: (stage, { quote, attempt, maxAttempts }) => {
+          if (stage === 'quoting' && attempt === 1) setStatus('Preparing payment quote...');
+          if (stage === 'approving' && quote) {
+            setStatus(`Approve payment in Backpack now…${priceNote(quote)} (${attempt}/${maxAttempts})`);
+          }
+          if (stage === 'sent') setStatus('Payment sent. Verifying on-chain...');
+          if (stage === 'expired') setStatus('Transaction expired. Please approve again...');
+        },
+        beforeSign: async (quote, tx) => {
+          const lamports = Number(quote.amountLamports);
+          if (!Number.isFinite(lamports) || lamports <= 0) throw new Error('Invalid payment amount.');
+          const token = quote.token;
+          const feeInfo = await connection.getFeeForMessage(tx.compileMessage(), 'confirmed');
+          const feeLamports = feeInfo?.value ?? 0;
+          const balance = await connection.getBalance(payer, 'confirmed');
+          const gorNeeded = token ? feeLamports : lamports + feeLamports;
+          if (balance < gorNeeded) {
+            const short = gorNeeded - balance;
+            const shortGor = short / 1_000_000_000;
+            throw new Error(`Insufficient $GOR. Add at least ${shortGor.toFixed(6)} $GOR for fees.`);
+          }
+          if (token) {
+            const held = await connection
+              .getTokenAccountBalance(tokenAccountFor(payer, token), 'confirmed')
+              .then((res) => Number(res.value.amount))
+              .catch(() => 0);
+            if (held < lamports) {
+              throw new Error(`Insufficient ${token.symbol}. This remix costs ${quote.amount} ${token.symbol}.`);
             }
-            throw err;
           }
-        }
-        throw new Error('Transaction expired. Please try again.');
-      };
-
-      const signature = await sendWithRetry();
-
-      let imageDataUrl = '';
-      try {
-        if (previewCanvasRef.current) imageDataUrl = previewCanvasRef.current.toDataURL('image/png');
-      } catch {
-        imageDataUrl = '';
-      }
+        },
+      });
 
       setStatus('Minting your remix...');
-      const verifyWithRetry = async () => {
-        const maxVerify = 36;
-        for (let attempt = 1; attempt <= maxVerify; attempt++) {
-          const verifyRes = await fetch('/api/verify', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              signature,
-              payer: wallet,
-              machine,
-              originalMint: selected.id,
-              imageDataUrl,
-              imageUrl: selectedImage,
-              name: selected?.content?.metadata?.name || 'NFT',
-            }),
-          });
-          const verify = await verifyRes.json();
-          if (verifyRes.ok && verify?.ok) return verify;
-          const errorText = String(verify?.error || 'Mint failed.');
-          const detailRaw = String(verify?.detail || '');
-          const detailText = detailRaw ? ` (${detailRaw})` : '';
-          const errMsg = `${errorText} ${detailRaw}`.toLowerCase();
-          if (
-            verifyRes.status === 404 ||
-            verifyRes.status === 503 ||
-            errMsg.includes('not found') ||
-            errMsg.includes('chain confirmation delayed') ||
-            errMsg.includes('block height exceeded') ||
-            errMsg.includes('expired')
-          ) {
-            setStatus(`Finalizing payment... (${attempt}/${maxVerify})`);
-            await new Promise((r) => setTimeout(r, 2000));
-            continue;
-          }
-          throw new Error(`${errorText}${detailText}`);
-        }
-        throw new Error('Transaction not found yet. Please try again in a moment.');
-      };
-      const verify = await verifyWithRetry();
+      const submitted = await submitMintJob({
+        signature,
+        payer: wallet,
+        machine,
+        originalMint: selected.id,
+        quoteToken: quote.quoteToken,
+        imageUrl: selectedImage,
+        name: selected?.content?.metadata?.name || 'NFT',
+      });
+      const verify = await waitForMintJob(submitted.id, (job) => setStatus(mintJobLabel(job)));
 
       setStatus(
         `Minted: ${verify.minted} • Tier: ${verify.tier} • Effect: ${verify.effect}`
       );
+      setFairSig(signature);
+      setFairResult(null);
       loadSupply();
     } catch (e: any) {
       setStatus(e?.message ?? 'Payment or mint failed.');
@@ -1172,6 +929,21 @@ export default function Page() {
     }
   }
 
+  async function runRollCheck() {
+    const sig = fairSig.trim();
+    if (!sig) return;
+    setFairBusy(true);
+    setFairError('');
+    setFairResult(null);
+    try {
+      setFairResult(await verifyRoll(sig));
+    } catch (e: any) {
+      setFairError(e?.message ?? 'Could not verify this roll.');
+    } finally {
+      setFairBusy(false);
+    }
+  }
+
   return (
     <div className="gf-root">
       <div className="gf-bg">
@@ -1308,21 +1080,41 @@ export default function Page() {
                   <button className="gf-btnSecondary" onClick={() => loadNfts(wallet)} disabled={loadingNfts}>
                     {loadingNfts ? 'Loading…' : 'Refresh NFTs'}
                   </button>
-                  <div className="gf-mutedSmall">{nfts.length ? `${nfts.length} NFTs found` : ''}</div>
+                  <div className="gf-mutedSmall">
+                    {nfts.length ? `${nfts.length}${nftCursor ? '+' : ''} NFTs found` : ''}
+                  </div>
                 </div>
 
-                <div className="gf-nftGrid">
+                <div className="gf-nftGrid" ref={nftGridRef}>
                   {nfts.map((a) => {
                     const img = pickImage(a) || '/gorbage-logo.png';
                     const name = a?.content?.metadata?.name || a.id.slice(0, 8);
                     const active = selected?.id === a.id;
+                    const remixable = isRemixable(a);
                     return (
-                      <button key={a.id} className={cx('gf-nftTile', active && 'gf-nftTileActive')} onClick={() => setSelected(a)}>
+                      <button
+                        key={a.id}
+                        className={cx('gf-nftTile', active && 'gf-nftTileActive', !remixable && 'gf-nftTileIneligible')}
+                        onClick={() => setSelected(a)}
+                        title={remixable ? undefined : a.ineligibleReason}
+                      >
                         <img className="gf-nftImg" src={img} alt={name} />
                         <div className="gf-nftName">{name}</div>
+                        {!remixable ? <div className="gf-nftReason">{a.ineligibleReason || 'Not eligible'}</div> : null}
                       </button>
                     );
                   })}
+                  {nftCursor ? (
+                    <div className="gf-nftMore" ref={nftSentinelRef}>
+                      {moreNftsFailed ? (
+                        <button className="gf-btnSecondary" onClick={loadMoreNfts}>
+                          Load more
+                        </button>
+                      ) : loadingMoreNfts ? (
+                        'Loading more…'
+                      ) : null}
+                    </div>
+                  ) : null}
                 </div>
               </>
             )}
@@ -1379,7 +1171,19 @@ export default function Page() {
                   <div className="gf-mintStatusValue gf-mintStatusMuted"> </div>
                 )}
               </div>
-              <button className="gf-btn gf-mintCTA" onClick={payAndRunLine} disabled={!wallet || !selected || isMinting}>
+              {currencies.length > 1 && (
+                <label className="gf-payWith">
+                  <span className="gf-mintStatusLabel">Pay with</span>
+                  <select value={currency} onChange={(e) => setCurrency(e.target.value)} disabled={isMinting}>
+                    {currencies.map((c) => (
+                      <option key={c} value={c}>
+                        {c === 'GOR' ? '$GOR' : c}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <button className="gf-btn gf-mintCTA" onClick={payAndRunLine} disabled={!wallet || !selected || !isRemixable(selected) || isMinting}>
                 {isMinting ? 'Compacting…' : 'Start Compacting'}
               </button>
             </div>
@@ -1401,120 +1205,53 @@ export default function Page() {
               <div className="gf-compareItem gf-compareMythic">Mythic • Maximum chaos</div>
             </div>
             <div className="gf-tierGrid">
-              <button className={cx('gf-tierCard gf-tierConveyor', machine === 'CONVEYOR' && 'gf-tierActive')} onClick={() => setMachine('CONVEYOR')}>
-                <div className="gf-tierTop">
-                  <div className="gf-tierBadge">Common Pull</div>
-                  {machine === 'CONVEYOR' ? <div className="gf-tierSelected">Selected</div> : null}
-                </div>
-                <div className="gf-tierBody">
-                  <div className="gf-tierPreview gf-tierPreviewConveyor">
-                    <span className="gf-tierPreviewTag">Rustwave</span>
-                  </div>
-                  <div className="gf-tierInfo">
-                    <div className="gf-tierName">Conveyor Bin</div>
-                    <div className="gf-tierDesc">Everyday scrap with punchy color shifts and grime gloss.</div>
-                  </div>
-                </div>
-                <div className="gf-tierFooter">
-                  <div className="gf-tierLeft">
-                    <div className="gf-tierMeter">
-                      <div className="gf-tierMeterLabel">Effect Intensity</div>
-                      <div className="gf-tierMeterBar">
-                        <span style={{ width: '38%' }} />
-                      </div>
-                      <div className="gf-tierMeterHint">Low</div>
-                    </div>
-                    <div className="gf-tierPrice">
-                      <div className="gf-tierPriceLabel">Cost</div>
-                      <div className="gf-tierPriceValue">{priceLabel('CONVEYOR')}</div>
-                    </div>
-                  </div>
-                  <div className="gf-tierOdds">
-                    <div className="gf-tierOddsLabel">Odds</div>
-                    <div className="gf-tierOddsBar">
-                      <span style={{ width: '80%' }} />
+              {MACHINES.map((m) => {
+                const theme = THEME_CLASSES[m.theme];
+                return (
+                  <button
+                    key={m.id}
+                    className={cx('gf-tierCard', theme.card, machine === m.id && 'gf-tierActive')}
+                    onClick={() => setMachine(m.id)}
+                  >
+                    <div className="gf-tierTop">
+                      <div className={cx('gf-tierBadge', theme.badge)}>{m.pull}</div>
+                      {machine === m.id ? <div className="gf-tierSelected">Selected</div> : null}
                     </div>
-                    <div className="gf-tierOddsText">80 / 18 / 2</div>
-                  </div>
-                </div>
-                <div className="gf-tierCTA">Select Conveyor Bin</div>
-              </button>
-              <button className={cx('gf-tierCard gf-tierCompactor', machine === 'COMPACTOR' && 'gf-tierActive')} onClick={() => setMachine('COMPACTOR')}>
-                <div className="gf-tierTop">
-                  <div className="gf-tierBadge gf-tierBadgeRare">Rare Pull</div>
-                  {machine === 'COMPACTOR' ? <div className="gf-tierSelected">Selected</div> : null}
-                </div>
-                <div className="gf-tierBody">
-                  <div className="gf-tierPreview gf-tierPreviewCompactor">
-                    <span className="gf-tierPreviewTag">Neon Forge</span>
-                  </div>
-                  <div className="gf-tierInfo">
-                    <div className="gf-tierName">Forge Compactor</div>
-                    <div className="gf-tierDesc">Pressurized remixes with deeper saturation and sharper grime.</div>
-                  </div>
-                </div>
-                <div className="gf-tierFooter">
-                  <div className="gf-tierLeft">
-                    <div className="gf-tierMeter">
-                      <div className="gf-tierMeterLabel">Effect Intensity</div>
-                      <div className="gf-tierMeterBar gf-tierMeterMid">
-                        <span style={{ width: '62%' }} />
+                    <div className="gf-tierBody">
+                      <div className={cx('gf-tierPreview', theme.preview)}>
+                        <span className="gf-tierPreviewTag">{m.previewTag}</span>
                       </div>
-                      <div className="gf-tierMeterHint">Medium</div>
-                    </div>
-                    <div className="gf-tierPrice">
-                      <div className="gf-tierPriceLabel">Cost</div>
-                      <div className="gf-tierPriceValue">{priceLabel('COMPACTOR')}</div>
-                    </div>
-                  </div>
-                  <div className="gf-tierOdds">
-                    <div className="gf-tierOddsLabel">Odds</div>
-                    <div className="gf-tierOddsBar gf-tierOddsBarRare">
-                      <span style={{ width: '65%' }} />
-                    </div>
-                    <div className="gf-tierOddsText">65 / 30 / 5</div>
-                  </div>
-                </div>
-                <div className="gf-tierCTA">Select Forge Compactor</div>
-              </button>
-              <button className={cx('gf-tierCard gf-tierHazmat', machine === 'HAZMAT' && 'gf-tierActive')} onClick={() => setMachine('HAZMAT')}>
-                <div className="gf-tierTop">
-                  <div className="gf-tierBadge gf-tierBadgeMythic">Mythic Pull</div>
-                  {machine === 'HAZMAT' ? <div className="gf-tierSelected">Selected</div> : null}
-                </div>
-                <div className="gf-tierBody">
-                  <div className="gf-tierPreview gf-tierPreviewHazmat">
-                    <span className="gf-tierPreviewTag">Hazard Halo</span>
-                  </div>
-                  <div className="gf-tierInfo">
-                    <div className="gf-tierName">Hazmat Shrine</div>
-                    <div className="gf-tierDesc">Legendary potential with wild color flips and hazard tech overlays.</div>
-                  </div>
-                </div>
-                <div className="gf-tierFooter">
-                  <div className="gf-tierLeft">
-                    <div className="gf-tierMeter">
-                      <div className="gf-tierMeterLabel">Effect Intensity</div>
-                      <div className="gf-tierMeterBar gf-tierMeterHigh">
-                        <span style={{ width: '92%' }} />
+                      <div className="gf-tierInfo">
+                        <div className="gf-tierName">{m.name}</div>
+                        <div className="gf-tierDesc">{m.description}</div>
                       </div>
-                      <div className="gf-tierMeterHint">High</div>
-                    </div>
-                    <div className="gf-tierPrice">
-                      <div className="gf-tierPriceLabel">Cost</div>
-                      <div className="gf-tierPriceValue">{priceLabel('HAZMAT')}</div>
                     </div>
-                  </div>
-                  <div className="gf-tierOdds">
-                    <div className="gf-tierOddsLabel">Odds</div>
-                    <div className="gf-tierOddsBar gf-tierOddsBarMythic">
-                      <span style={{ width: '45%' }} />
+                    <div className="gf-tierFooter">
+                      <div className="gf-tierLeft">
+                        <div className="gf-tierMeter">
+                          <div className="gf-tierMeterLabel">Effect Intensity</div>
+                          <div className={cx('gf-tierMeterBar', theme.meter)}>
+                            <span style={{ width: `${Math.round(m.intensity * 100)}%` }} />
+                          </div>
+                          <div className="gf-tierMeterHint">{intensityLabel(m)}</div>
+                        </div>
+                        <div className="gf-tierPrice">
+                          <div className="gf-tierPriceLabel">Cost</div>
+                          <div className="gf-tierPriceValue">{priceLabel(m.id, prices, tokenPrices)}</div>
+                        </div>
+                      </div>
+                      <div className="gf-tierOdds">
+                        <div className="gf-tierOddsLabel">Odds</div>
+                        <div className={cx('gf-tierOddsBar', theme.odds)}>
+                          <span style={{ width: `${Math.round(m.odds.tier1 * 100)}%` }} />
+                        </div>
+                        <div className="gf-tierOddsText">{oddsLabel(m)}</div>
+                      </div>
                     </div>
-                    <div className="gf-tierOddsText">45 / 45 / 10</div>
-                  </div>
-                </div>
-                <div className="gf-tierCTA">Select Hazmat Shrine</div>
-              </button>
+                    <div className="gf-tierCTA">Select {m.name}</div>
+                  </button>
+                );
+              })}
             </div>
           </div>
         </section>
@@ -1526,46 +1263,101 @@ export default function Page() {
           <div className="gf-supplyTitle">Tier availability across the factory.</div>
         </div>
         <div className="gf-supplyGrid">
-          <div className="gf-supplyRow">
-            <div className="gf-supplyLabel">
-              <div className="gf-supplyName">Common Pull</div>
-              <div className="gf-supplySub">Tier 1 • Conveyor</div>
-            </div>
-            <div className="gf-supplyMeter">
-              <div className="gf-supplyFill gf-supplyFillCommon" style={{ width: `${tier1Pct}%` }} />
-            </div>
-            <div className="gf-supplyMeta">
-              {tier1Supply.cap ? `${tier1Supply.remaining} / ${tier1Supply.cap}` : 'Loading'}
-              {tier1Sold ? <span className="gf-supplySold">Sold out</span> : null}
-            </div>
-          </div>
-          <div className="gf-supplyRow">
-            <div className="gf-supplyLabel">
-              <div className="gf-supplyName">Rare Pull</div>
-              <div className="gf-supplySub">Tier 2 • Compactor</div>
-            </div>
-            <div className="gf-supplyMeter">
-              <div className="gf-supplyFill gf-supplyFillRare" style={{ width: `${tier2Pct}%` }} />
-            </div>
-            <div className="gf-supplyMeta">
-              {tier2Supply.cap ? `${tier2Supply.remaining} / ${tier2Supply.cap}` : 'Loading'}
-              {tier2Sold ? <span className="gf-supplySold">Sold out</span> : null}
-            </div>
-          </div>
-          <div className="gf-supplyRow">
-            <div className="gf-supplyLabel">
-              <div className="gf-supplyName">Mythic Pull</div>
-              <div className="gf-supplySub">Tier 3 • Hazmat</div>
+          {supplyRows.map((row) => (
+            <div className="gf-supplyRow" key={row.tier.id}>
+              <div className="gf-supplyLabel">
+                <div className="gf-supplyName">{row.tier.name}</div>
+                <div className="gf-supplySub">
+                  Tier {tierRank(row.tier.id)} • {row.tier.meta}
+                </div>
+              </div>
+              <div className="gf-supplyMeter">
+                <div className={cx('gf-supplyFill', SUPPLY_FILL_CLASSES[row.tier.id])} style={{ width: `${row.pct}%` }} />
+              </div>
+              <div className="gf-supplyMeta">
+                {row.supply.cap ? `${row.supply.remaining} / ${row.supply.cap}` : 'Loading'}
+                {row.sold ? <span className="gf-supplySold">Sold out</span> : null}
+              </div>
             </div>
-            <div className="gf-supplyMeter">
-              <div className="gf-supplyFill gf-supplyFillMythic" style={{ width: `${tier3Pct}%` }} />
+          ))}
+        </div>
+      </section>
+
+      <section className="gf-fair">
+        <div className="gf-supplyHeader">
+          <div className="gf-supplyBadge">Verify My Roll</div>
+          <div className="gf-supplyTitle">Every tier roll can be recomputed once its epoch secret is revealed.</div>
+        </div>
+        <div className="gf-fairForm">
+          <input
+            className="gf-fairInput"
+            value={fairSig}
+            onChange={(e) => setFairSig(e.target.value)}
+            placeholder="Payment transaction signature"
+            spellCheck={false}
+          />
+          <button className="gf-fairBtn" onClick={runRollCheck} disabled={fairBusy || !fairSig.trim()}>
+            {fairBusy ? 'Checking...' : 'Verify'}
+          </button>
+        </div>
+        {fairError ? <div className="gf-fairError">{fairError}</div> : null}
+        {fairResult ? (
+          <div className="gf-fairResult">
+            <div className="gf-fairRow">
+              <span>Epoch</span>
+              <span>#{fairResult.epoch.epoch}</span>
             </div>
-            <div className="gf-supplyMeta">
-              {tier3Supply.cap ? `${tier3Supply.remaining} / ${tier3Supply.cap}` : 'Loading'}
-              {tier3Sold ? <span className="gf-supplySold">Sold out</span> : null}
+            <div className="gf-fairRow">
+              <span>Commitment</span>
+              <code>{fairResult.epoch.commitment}</code>
             </div>
+            {fairResult.revealed ? (
+              <>
+                <div className="gf-fairRow">
+                  <span>Secret</span>
+                  <code>{fairResult.epoch.secret}</code>
+                </div>
+                <div className="gf-fairRow">
+                  <span>Roll</span>
+                  <span>
+                    {fairResult.roll?.toFixed(8)} on {fairResult.recorded.machine}
+                    {fairResult.recorded.soldOutTiers.length
+                      ? ` (sold out: ${fairResult.recorded.soldOutTiers.join(', ')})`
+                      : ''}
+                  </span>
+                </div>
+                <div className="gf-fairRow">
+                  <span>Tier</span>
+                  <span>
+                    {fairResult.tier} recomputed • {fairResult.recorded.tier} minted
+                    <span className={cx('gf-fairBadge', fairResult.matches ? 'gf-fairOk' : 'gf-fairBad')}>
+                      {fairResult.matches ? 'Match' : 'Mismatch'}
+                    </span>
+                  </span>
+                </div>
+                <div className="gf-fairRow">
+                  <span>Effect</span>
+                  <span>
+                    {fairResult.effect?.primary} • {fairResult.effect?.texture} • {fairResult.effect?.glow} •{' '}
+                    {fairResult.effect?.edge}
+                  </span>
+                </div>
+                <div className="gf-fairRow">
+                  <span>In your browser</span>
+                  <span>
+                    Commitment {fairResult.local?.commitmentOk ? 'checks out' : 'does NOT match'} • Roll{' '}
+                    {fairResult.local?.rollOk ? 'checks out' : 'does NOT match'}
+                  </span>
+                </div>
+              </>
+            ) : (
+              <div className="gf-fairRow">
+                <span>Secret</span>
+                <span>Revealed {new Date(fairResult.epoch.endsAt).toLocaleString()} when this epoch ends.</span>
+              </div>
+            )}
           </div>
-        </div>
+        ) : null}
       </section>
 
       <section className="gf-faq">
@@ -1609,7 +1401,8 @@ export default function Page() {
             <summary className="gf-faqQ">Can I remix the same NFT again?</summary>
             <div className="gf-faqA">
               <div className="gf-faqAInner">
-                Yes. You can remix the same NFT again, but each tier has a limited supply, so availability depends on what is left.
+                Usually. Each tier has a limited supply, and the factory may cap how many times one NFT or wallet can remix or
+                ask you to wait between runs. If a limit applies you are told before you pay.
               </div>
             </div>
           </details>
@@ -1917,6 +1710,12 @@ export default function Page() {
         .gf-supplyFillMythic {
           background: linear-gradient(90deg, rgba(255, 140, 220, 0.7), rgba(255, 90, 140, 0.6));
         }
+        .gf-supplyFillObsidian {
+          background: linear-gradient(90deg, rgba(150, 110, 255, 0.7), rgba(60, 30, 120, 0.7));
+        }
+        .gf-supplyFillAscended {
+          background: linear-gradient(90deg, rgba(255, 220, 120, 0.8), rgba(255, 160, 40, 0.7));
+        }
         .gf-supplyMeta {
           display: flex;
           flex-direction: column;
@@ -1938,6 +1737,90 @@ export default function Page() {
             rgba(16, 16, 16, 0.95) 12px 24px
           );
         }
+        .gf-fair {
+          margin: 32px 22px 0;
+          padding: 26px 26px 22px;
+          border-radius: 18px;
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          background: rgba(0, 0, 0, 0.22);
+          backdrop-filter: blur(10px);
+        }
+        .gf-fairForm {
+          margin-top: 18px;
+          display: grid;
+          grid-template-columns: 1fr auto;
+          gap: 10px;
+        }
+        .gf-fairInput {
+          min-width: 0;
+          padding: 12px 14px;
+          border-radius: 12px;
+          border: 1px solid rgba(255, 255, 255, 0.12);
+          background: rgba(0, 0, 0, 0.35);
+          color: inherit;
+          font-family: 'IBM Plex Mono', ui-monospace, monospace;
+          font-size: 12px;
+        }
+        .gf-fairBtn {
+          padding: 12px 20px;
+          border-radius: 12px;
+          border: 1px solid rgba(255, 210, 80, 0.5);
+          background: rgba(255, 210, 80, 0.14);
+          color: inherit;
+          font-weight: 800;
+          text-transform: uppercase;
+          letter-spacing: 0.6px;
+          cursor: pointer;
+        }
+        .gf-fairBtn:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+        .gf-fairError {
+          margin-top: 12px;
+          font-size: 12px;
+          color: rgba(255, 120, 120, 0.95);
+        }
+        .gf-fairResult {
+          margin-top: 16px;
+          display: grid;
+          gap: 8px;
+        }
+        .gf-fairRow {
+          display: grid;
+          grid-template-columns: 140px 1fr;
+          gap: 14px;
+          padding: 10px 14px;
+          border-radius: 12px;
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          background: rgba(0, 0, 0, 0.35);
+          font-size: 12px;
+        }
+        .gf-fairRow > span:first-child {
+          font-weight: 800;
+          text-transform: uppercase;
+          opacity: 0.7;
+        }
+        .gf-fairRow code {
+          word-break: break-all;
+          font-size: 11px;
+        }
+        .gf-fairBadge {
+          margin-left: 10px;
+          padding: 2px 8px;
+          border-radius: 999px;
+          font-size: 10px;
+          font-weight: 800;
+          text-transform: uppercase;
+        }
+        .gf-fairOk {
+          background: rgba(0, 255, 160, 0.18);
+          color: rgba(120, 255, 200, 0.95);
+        }
+        .gf-fairBad {
+          background: rgba(255, 90, 90, 0.2);
+          color: rgba(255, 150, 150, 0.95);
+        }
         .gf-faq {
           margin: 40px 22px 0;
           padding: 28px 28px 22px;
@@ -2283,6 +2166,16 @@ export default function Page() {
         .gf-mintStatusText {
           font-weight: 700;
         }
+        .gf-payWith {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          min-width: 120px;
+        }
+        .gf-payWith select {
+          padding: 10px 12px;
+          font-size: 13px;
+        }
         .gf-mintCTA {
           padding: 14px 28px;
           font-size: 14px;
@@ -2714,6 +2607,13 @@ export default function Page() {
           overflow: auto;
           padding-right: 2px;
         }
+        .gf-nftMore {
+          grid-column: 1 / -1;
+          min-height: 24px;
+          text-align: center;
+          font-size: 12px;
+          opacity: 0.7;
+        }
         .gf-nftTile {
           position: relative;
           border: 1px solid rgba(255, 255, 255, 0.08);
@@ -2750,6 +2650,14 @@ export default function Page() {
             0 10px 30px rgba(0, 0, 0, 0.45);
           transform: translateY(-2px);
         }
+        .gf-nftTileIneligible {
+          opacity: 0.55;
+        }
+        .gf-nftTileIneligible::before {
+          content: 'INELIGIBLE';
+          border-color: rgba(255, 120, 80, 0.45);
+          color: rgba(255, 190, 160, 0.9);
+        }
         .gf-nftImg {
           width: 100%;
           aspect-ratio: 1/1;
@@ -2768,6 +2676,12 @@ export default function Page() {
           overflow: hidden;
           text-overflow: ellipsis;
         }
+        .gf-nftReason {
+          margin-top: 2px;
+          font-size: 10px;
+          opacity: 0.7;
+          line-height: 1.3;
+        }
         .gf-tierHeaderRow {
           display: flex;
           align-items: baseline;
@@ -3871,6 +3785,7 @@ export default function Page() {
             width: 100%;
           }
           .gf-supply,
+          .gf-fair,
           .gf-faq,
           .gf-footer {
             margin-left: 16px;
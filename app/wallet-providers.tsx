@@ -5,6 +5,7 @@ import { ConnectionProvider, WalletProvider } from "@solana/wallet-adapter-react
 import { WalletModalProvider } from "@solana/wallet-adapter-react-ui";
 import { BaseMessageSignerWalletAdapter, WalletReadyState, WalletName } from "@solana/wallet-adapter-base";
 import { PublicKey, Connection, Transaction, VersionedTransaction } from "@solana/web3.js";
+import { pickRpcUrl } from "./_lib/rpcEndpoints";
 
 import "@solana/wallet-adapter-react-ui/styles.css";
 
@@ -139,8 +140,7 @@ class BackpackAdapter extends BaseMessageSignerWalletAdapter {
 }
 
 export default function WalletProviders({ children }: { children: React.ReactNode }) {
-  const envRpc = (process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL || "").trim();
-  const rpc = envRpc && !envRpc.includes("rpc.trashscan.io") ? envRpc : "https://rpc.gorbagana.wtf/";
+  const rpc = pickRpcUrl(process.env.NEXT_PUBLIC_GORBAGANA_RPC_URL);
 
   const wallets = useMemo(() => [new BackpackAdapter()], []);
 
@@ -0,0 +1,11 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  // Fail at boot, not on the first quote, if the machine catalog or prices are invalid.
+  await import("./app/api/_lib/pricing");
+  // Resume mint jobs that were in flight when the server last stopped.
+  const { startMintWorker } = await import("./app/api/_lib/mintJobs");
+  startMintWorker();
+  // Pick up payments whose browser never reached /api/verify.
+  const { startTreasuryIndexer } = await import("./app/api/_lib/treasuryIndexer");
+  startTreasuryIndexer();
+}
@@ -9,7 +9,17 @@ const imageHosts = [
   "arweave.org",
 ];
 
+// The bridge page talks to Solana from the browser to send and confirm escrow locks.
+const solanaRpc = new URL(process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com");
+const solanaOrigins = [solanaRpc.origin, `${solanaRpc.protocol === "http:" ? "ws" : "wss"}://${solanaRpc.host}`];
+
 export default {
+  experimental: {
+    // Native canvas bindings used by the server-side remix renderer.
+    serverComponentsExternalPackages: ["@napi-rs/canvas"],
+    // Lets instrumentation.ts resume queued mint jobs on boot.
+    instrumentationHook: true,
+  },
   images: {
     remotePatterns: imageHosts.map((hostname) => ({ protocol: "https", hostname })),
   },
@@ -31,7 +41,7 @@ export default {
               "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
               "img-src 'self' data: https:",
               "font-src 'self' data: https://fonts.gstatic.com",
-              "connect-src 'self' https://rpc.gorbagana.wtf",
+              `connect-src 'self' https://rpc.gorbagana.wtf ${solanaOrigins.join(" ")}`,
               "frame-ancestors 'none'",
             ].join("; "),
           },
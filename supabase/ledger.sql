@@ -0,0 +1,233 @@
+-- Remix ledger schema for LEDGER_BACKEND=supabase (see app/api/_lib/ledgerStore.ts).
+
+create table if not exists mint_log (
+  signature text primary key,
+  original_mint text not null,
+  minted_mint text not null,
+  payer text not null,
+  machine text not null,
+  tier text not null,
+  quote_id text unique,
+  amount_lamports text,
+  payment_mint text,
+  mint_standard text not null default 'token-metadata',
+  roll_epoch bigint,
+  sold_out_tiers text[],
+  tier_scheme smallint not null default 1,
+  created_at timestamptz not null default now()
+);
+create index if not exists mint_log_tier on mint_log (tier);
+-- Remix policy lookups (per original / machine and per wallet).
+create index if not exists mint_log_original on mint_log (original_mint, machine);
+create index if not exists mint_log_payer on mint_log (payer);
+-- Quote-backed payments: deployments from before quotes lack these columns.
+alter table mint_log add column if not exists quote_id text unique;
+alter table mint_log add column if not exists amount_lamports text;
+alter table mint_log add column if not exists roll_epoch bigint;
+alter table mint_log add column if not exists sold_out_tiers text[];
+-- Five-tier rarity: rows from before it keep tier_scheme 1 (three tiers, legacy odds).
+alter table mint_log add column if not exists tier_scheme smallint not null default 1;
+-- SPL token payments: the token mint (null for native $GOR).
+alter table mint_log add column if not exists payment_mint text;
+-- Pluggable output standard: token-metadata, core or bubblegum (see app/api/_lib/mintStandards.ts).
+alter table mint_log add column if not exists mint_standard text not null default 'token-metadata';
+
+create table if not exists used_signatures (
+  signature text primary key,
+  original_mint text not null
+);
+
+create table if not exists remix_state (
+  id integer primary key check (id = 1),
+  mint_count integer not null default 0,
+  collection_mint text,
+  bridge_collection_mint text,
+  last_mint_cost_lamports text
+);
+alter table remix_state add column if not exists last_mint_cost_lamports text;
+alter table remix_state add column if not exists bridge_collection_mint text;
+
+create table if not exists tier_reservations (
+  id text primary key,
+  tier text not null,
+  expires_at timestamptz not null
+);
+create index if not exists tier_reservations_tier on tier_reservations (tier, expires_at);
+
+-- Reserves one slot in p_tier if minted + live reservations < p_cap. The per-tier
+-- advisory lock serializes concurrent reservers across every app instance.
+-- Returns the reserved tier (or the tier already held by p_id), or null when full.
+create or replace function reserve_tier_slot(p_id text, p_tier text, p_cap integer, p_ttl_seconds integer)
+returns text
+language plpgsql
+as $$
+declare
+  held text;
+  used integer;
+begin
+  select tier into held from tier_reservations where id = p_id and expires_at > now();
+  if held is not null then
+    return held;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext('tier_slot:' || p_tier));
+  delete from tier_reservations where expires_at <= now();
+
+  select (select count(*) from mint_log where tier = p_tier)
+       + (select count(*) from tier_reservations where tier = p_tier)
+    into used;
+  if used >= p_cap then
+    return null;
+  end if;
+
+  insert into tier_reservations (id, tier, expires_at)
+  values (p_id, p_tier, now() + make_interval(secs => p_ttl_seconds))
+  on conflict (id) do update set tier = excluded.tier, expires_at = excluded.expires_at;
+  return p_tier;
+end;
+$$;
+
+-- One row per payment taken on by a mint job, with the quote it pays and the mint number
+-- its remix gets. Rows stay after the mint is recorded, so neither a number nor a quote is
+-- handed out twice.
+create table if not exists mint_claims (
+  signature text primary key,
+  job_id text not null,
+  quote_id text unique,
+  mint_number integer not null unique,
+  created_at timestamptz not null default now()
+);
+alter table mint_claims add column if not exists quote_id text unique;
+
+-- Claims p_signature and its quote p_quote_id for p_job_id with the next mint number above
+-- every recorded mint and claim. The advisory lock serializes claimers across every app
+-- instance. Returns {"mint_number": n} (the number already held when p_job_id claims
+-- again), or {"conflict": "payment"} when another job holds the payment and
+-- {"conflict": "quote"} when another payment holds or has minted the quote.
+drop function if exists claim_mint(text, text);
+create or replace function claim_mint(p_signature text, p_job_id text, p_quote_id text)
+returns jsonb
+language plpgsql
+as $$
+declare
+  held mint_claims%rowtype;
+  next_number integer;
+begin
+  perform pg_advisory_xact_lock(hashtext('mint_claim'));
+  select * into held from mint_claims where signature = p_signature;
+  if found then
+    if held.job_id = p_job_id then
+      return jsonb_build_object('mint_number', held.mint_number);
+    end if;
+    return jsonb_build_object('conflict', 'payment');
+  end if;
+
+  if exists (select 1 from mint_claims where quote_id = p_quote_id)
+     or exists (select 1 from mint_log where quote_id = p_quote_id) then
+    return jsonb_build_object('conflict', 'quote');
+  end if;
+
+  select greatest(
+      coalesce((select mint_count from remix_state where id = 1), 0),
+      coalesce((select max(mint_number) from mint_claims), 0)
+    ) + 1
+    into next_number;
+  insert into mint_claims (signature, job_id, quote_id, mint_number)
+  values (p_signature, p_job_id, p_quote_id, next_number);
+  return jsonb_build_object('mint_number', next_number);
+end;
+$$;
+
+-- Verified payments that could not be minted, and their refunds.
+create table if not exists owed_payments (
+  signature text primary key,
+  payer text not null,
+  original_mint text not null,
+  machine text not null,
+  quote_id text not null,
+  amount_lamports text not null,
+  payment_mint text,
+  reason text not null,
+  status text not null check (status in ('owed', 'refunding', 'refunded')),
+  refund_signature text,
+  refund_last_valid_block_height bigint,
+  refunded_at timestamptz,
+  refund_holder text,
+  refund_claimed_until bigint,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+alter table owed_payments add column if not exists payment_mint text;
+-- The instance sending a refund, and until when (epoch ms) it holds it.
+alter table owed_payments add column if not exists refund_holder text;
+alter table owed_payments add column if not exists refund_claimed_until bigint;
+
+-- Quotes issued by /api/run, so the treasury indexer can match payments it finds on-chain.
+create table if not exists issued_quotes (
+  quote_id text primary key,
+  token text not null,
+  payer text not null,
+  expires_at bigint not null
+);
+create index if not exists issued_quotes_expires on issued_quotes (expires_at);
+
+-- Last processed signature per indexer (see app/api/_lib/treasuryIndexer.ts).
+create table if not exists indexer_cursors (
+  name text primary key,
+  signature text not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Trash Bridge mints: the source NFT locked in escrow and the remix minted for it
+-- (see app/api/_lib/bridgeEscrow.ts). One row per escrow lock.
+create table if not exists bridge_log (
+  escrow_signature text primary key,
+  -- Null until the lock is paid for.
+  signature text unique,
+  source_chain text not null,
+  source_mint text not null,
+  owner text not null,
+  -- Null until the remix is minted.
+  dest_mint text,
+  status text not null default 'locked'
+    check (status in ('locked-unminted', 'locked', 'unlocking', 'unlocked')),
+  burn_signature text,
+  release_to text,
+  release_signature text,
+  release_last_valid_block_height bigint,
+  unlocked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+alter table bridge_log add column if not exists status text not null default 'locked'
+  check (status in ('locked', 'unlocking', 'unlocked'));
+alter table bridge_log add column if not exists burn_signature text;
+alter table bridge_log add column if not exists release_to text;
+alter table bridge_log add column if not exists release_signature text;
+alter table bridge_log add column if not exists release_last_valid_block_height bigint;
+alter table bridge_log add column if not exists unlocked_at timestamptz;
+alter table bridge_log add column if not exists updated_at timestamptz not null default now();
+-- Escrow locks are recorded when the payment is verified, before the remix exists.
+alter table bridge_log alter column dest_mint drop not null;
+-- and before they are paid for.
+alter table bridge_log alter column signature drop not null;
+alter table bridge_log drop constraint if exists bridge_log_status_check;
+alter table bridge_log add constraint bridge_log_status_check
+  check (status in ('locked-unminted', 'locked', 'unlocking', 'unlocked'));
+create index if not exists bridge_log_owner on bridge_log (owner);
+
+-- Mint jobs (see app/api/_lib/mintJobs.ts): the whole job in `job`, next to the columns the
+-- workers query. A worker leases a job while it runs one of its steps.
+create table if not exists mint_jobs (
+  id text primary key,
+  signature text not null,
+  state text not null,
+  lease_holder text,
+  lease_until bigint,
+  job jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+-- One live job per payment; failed jobs stay so their status can still be read.
+create unique index if not exists mint_jobs_live_signature on mint_jobs (signature) where state <> 'failed';
+create index if not exists mint_jobs_state on mint_jobs (state, created_at);